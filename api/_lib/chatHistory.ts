@@ -0,0 +1,125 @@
+// api/_lib/chatHistory.ts
+// /api/chat 대화 기록 처리
+// - 클라이언트가 보낸 messages 검증 (system 역할은 서버만 사용 → 거부)
+// - 토큰 예산을 넘으면 오래된 턴을 요약문 하나로 접어 넣음 (버리지 않음)
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// 요청 한 번에 받는 최대 메시지 수 / 메시지 길이
+export const MAX_MESSAGES = 60;
+export const MAX_CONTENT_CHARS = 4000;
+
+// 요약 없이 그대로 보낼 최근 대화의 토큰 예산
+export const HISTORY_TOKEN_BUDGET = 1800;
+
+// 요약 요청에 넣는 오래된 대화 최대 토큰
+const SUMMARY_INPUT_BUDGET = 3000;
+
+// 메시지마다 붙는 역할 표시 등의 오버헤드
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export type ValidationResult = { ok: true; messages: ChatMessage[] } | { ok: false; error: string };
+
+export function validateMessages(raw: unknown): ValidationResult {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { ok: false, error: 'messages 는 비어 있지 않은 배열이어야 합니다.' };
+  }
+  if (raw.length > MAX_MESSAGES) {
+    return { ok: false, error: `messages 는 최대 ${MAX_MESSAGES}개까지 보낼 수 있습니다.` };
+  }
+
+  const messages: ChatMessage[] = [];
+  for (const [i, m] of raw.entries()) {
+    if (typeof m !== 'object' || m === null) {
+      return { ok: false, error: `messages[${i}] 는 객체여야 합니다.` };
+    }
+    const { role, content } = m as Record<string, unknown>;
+    if (role === 'system') {
+      return { ok: false, error: `messages[${i}]: system 역할은 보낼 수 없습니다.` };
+    }
+    if (role !== 'user' && role !== 'assistant') {
+      return { ok: false, error: `messages[${i}].role 은 user 또는 assistant 여야 합니다.` };
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      return { ok: false, error: `messages[${i}].content 는 비어 있지 않은 문자열이어야 합니다.` };
+    }
+    if (content.length > MAX_CONTENT_CHARS) {
+      return { ok: false, error: `messages[${i}].content 는 최대 ${MAX_CONTENT_CHARS}자입니다.` };
+    }
+    messages.push({ role, content });
+  }
+
+  if (messages[messages.length - 1].role !== 'user') {
+    return { ok: false, error: '마지막 메시지는 user 역할이어야 합니다.' };
+  }
+  return { ok: true, messages };
+}
+
+// 대략적인 토큰 수 – 한글 음절은 1~2토큰, 그 밖의 문자는 약 4자당 1토큰
+export function estimateTokens(text: string): number {
+  const hangul = text.match(/[가-힣]/g)?.length ?? 0;
+  return Math.ceil(hangul * 1.5 + (text.length - hangul) / 4);
+}
+
+function messageTokens(m: ChatMessage): number {
+  return estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export interface HistorySplit {
+  // 요약으로 접을 오래된 메시지
+  older: ChatMessage[];
+  // 그대로 보낼 최근 메시지 (마지막 질문은 항상 포함)
+  recent: ChatMessage[];
+}
+
+// 뒤에서부터 예산 안에 드는 만큼 최근 메시지로 남김
+// user/assistant 짝이 갈라지지 않도록 recent 는 user 메시지로 시작
+export function splitHistory(messages: ChatMessage[], budget = HISTORY_TOKEN_BUDGET): HistorySplit {
+  let start = messages.length - 1;
+  let used = messageTokens(messages[start]);
+  while (start > 0 && used + messageTokens(messages[start - 1]) <= budget) {
+    start--;
+    used += messageTokens(messages[start]);
+  }
+  while (start < messages.length - 1 && messages[start].role !== 'user') start++;
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+// 요약 모델에 넘길 대화록 (너무 길면 가장 오래된 부분부터 생략)
+export function transcriptForSummary(messages: ChatMessage[]): string {
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const line = `${messages[i].role === 'user' ? '사용자' : '가이드'}: ${messages[i].content}`;
+    used += estimateTokens(line);
+    if (used > SUMMARY_INPUT_BUDGET) {
+      lines.unshift('(이전 대화 일부 생략)');
+      break;
+    }
+    lines.unshift(line);
+  }
+  return lines.join('\n');
+}
+
+// 요약 모델 호출이 실패했을 때: 사용자가 물었던 내용만 짧게 나열
+export function fallbackSummary(messages: ChatMessage[]): string {
+  const questions = messages
+    .filter((m) => m.role === 'user')
+    .slice(-8)
+    .map((m) => `- ${m.content.replace(/\s+/g, ' ').trim().slice(0, 80)}`);
+  return `앞서 사용자가 물어본 내용:\n${questions.join('\n')}`;
+}
+
+export const SUMMARY_SYSTEM_PROMPT =
+  '다음은 지진 대피 안내 대화의 앞부분이야. 이어지는 질문에 답할 때 필요한 사실(사용자의 상황, 거주 형태, ' +
+  '위치, 이미 안내한 행동요령)만 한국어 3~5문장으로 요약해. 새로운 조언은 덧붙이지 마.';
+
+// 요약문을 모델에 넣는 형태
+export function summaryMessage(summary: string) {
+  return { role: 'system' as const, content: `이전 대화 요약 (오래된 대화는 요약만 전달됨):\n${summary}` };
+}
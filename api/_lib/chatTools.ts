@@ -0,0 +1,289 @@
+// api/_lib/chatTools.ts
+// AI 가이드가 호출하는 도구 (Groq tool calling)
+// - find_nearest_shelters: 주소(읍/면/동·대피소명·도로명) 또는 좌표 → 가까운 대피소 (nearest_shelters RPC)
+// - get_shelter_details: facility_serial → 대피소 상세 + 현재 인원 (shelter_facilities / shelter_occupancy)
+// - get_recent_earthquakes: 최근 지진 + 파주 예상 진도 (earthquakes)
+// 모델이 만든 인자는 그대로 믿지 않고 범위를 검사한 뒤 사용
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ChatCompletionTool } from 'groq-sdk/resources/chat/completions';
+import type { Database, Json } from '../../src/lib/database.types';
+import { EMD_AREAS, isInPaju } from '../../src/lib/pajuBoundary';
+import { ringCentroid } from '../../src/lib/regionRiskModel';
+import { earthquakeIntensityAt, intensityClass } from '../../src/lib/intensity';
+import type { ChatToolName, ChatToolResult } from '../../src/lib/chatTypes';
+
+// 파주시청 – 최근 지진의 예상 진도 기준점
+const PAJU_CITY_HALL = { lat: 37.7599, lon: 126.78 };
+
+// 한 번에 돌려주는 최대 개수
+const MAX_SHELTERS = 5;
+const MAX_EARTHQUAKES = 10;
+
+const FACILITY_LABELS: Record<string, string> = {
+  medical: '의료 지원',
+  restroom: '화장실',
+  supplies: '구호물품',
+  wifi: '와이파이',
+  generator: '발전기',
+  emergency_power: '비상전원',
+  pets_allowed: '반려동물 동반',
+};
+
+export const CHAT_TOOLS: ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'find_nearest_shelters',
+      description:
+        '파주시 안의 주소나 좌표에서 가장 가까운 지진 옥외대피소를 거리순으로 찾는다. ' +
+        '사용자가 특정 동네·주소·건물 근처 대피소를 물으면 사용한다.',
+      parameters: {
+        type: 'object',
+        properties: {
+          address: { type: 'string', description: '읍/면/동 이름, 도로명주소 또는 건물·대피소 이름 (예: 금촌동)' },
+          lat: { type: 'number', description: '위도 (address 대신 좌표를 알 때)' },
+          lon: { type: 'number', description: '경도 (address 대신 좌표를 알 때)' },
+          limit: { type: 'integer', description: `돌려받을 대피소 수 (1~${MAX_SHELTERS}, 기본 3)` },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_shelter_details',
+      description: '대피소 고유번호(facility_serial)로 주소, 수용 인원, 시설, 운영 여부, 현재 인원을 조회한다.',
+      parameters: {
+        type: 'object',
+        properties: {
+          facility_serial: { type: 'integer', description: '대피소 고유번호' },
+        },
+        required: ['facility_serial'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_recent_earthquakes',
+      description: '최근 발생한 지진 목록(발생 시각, 위치, 규모, 파주 예상 진도)을 최신순으로 조회한다.',
+      parameters: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', description: `조회할 지진 수 (1~${MAX_EARTHQUAKES}, 기본 5)` },
+          min_magnitude: { type: 'number', description: '이 규모 이상만 조회' },
+        },
+      },
+    },
+  },
+];
+
+// 도구를 쓸 수 있을 때 system 메시지로 덧붙이는 지시
+export const TOOLS_SYSTEM_PROMPT =
+  '대피소 위치·시설이나 최근 지진처럼 실시간 데이터가 필요한 질문은 도구로 조회해서 답해. ' +
+  '도구 결과에 없는 대피소 이름, 주소, 거리, 수치는 지어내지 말고, 조회에 실패하면 그 사실을 알려줘.';
+
+type Client = SupabaseClient<Database>;
+type Args = Record<string, unknown>;
+
+function numberArg(args: Args, key: string): number | null {
+  const v = args[key];
+  const n = typeof v === 'string' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+function clampLimit(value: number | null, fallback: number, max: number): number {
+  return Math.min(max, Math.max(1, Math.round(value ?? fallback)));
+}
+
+function facilityLabels(raw: Json | null | undefined): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return [];
+  return Object.entries(FACILITY_LABELS)
+    .filter(([key]) => raw[key] === true)
+    .map(([, label]) => label);
+}
+
+// "금촌동" 처럼 번호 없는 이름은 금촌1~3동을 합친 지역으로 봄
+function emdStem(name: string): string {
+  return name.replace(/\d+(?=[동읍면]$)/, '');
+}
+
+// 동은 "운정", "금촌" 처럼 '동' 없이 불러도 일치 (읍/면은 "파주시"의 파주 등과 겹치므로 제외)
+function mentionsEmd(text: string, area: (typeof EMD_AREAS)[number]): boolean {
+  const stem = emdStem(area.name);
+  return text.includes(stem) || (area.kind === '동' && text.includes(stem.slice(0, -1)));
+}
+
+// 주소 → 기준 좌표
+// 1) 읍/면/동 이름이 들어 있으면 해당 지역(들)의 중심
+// 2) 아니면 이름·도로명주소가 일치하는 대피소 위치
+async function resolveAddress(supabase: Client, address: string): Promise<ChatToolResult['origin'] | null> {
+  const query = address.replace(/\s+/g, ' ').trim();
+  const compact = query.replace(/\s/g, '');
+
+  const exact = EMD_AREAS.find((a) => compact.includes(a.name));
+  const stem = exact ? null : EMD_AREAS.find((a) => mentionsEmd(compact, a));
+  const areas = exact ? [exact] : stem ? EMD_AREAS.filter((a) => emdStem(a.name) === emdStem(stem.name)) : [];
+  if (areas.length > 0) {
+    const centers = areas.map((a) => ringCentroid(a.rings[0]));
+    return {
+      label: exact ? exact.name : emdStem(areas[0].name),
+      lat: centers.reduce((s, c) => s + c.lat, 0) / centers.length,
+      lon: centers.reduce((s, c) => s + c.lon, 0) / centers.length,
+    };
+  }
+
+  // PostgREST or() 구문을 깨뜨릴 수 있는 문자 제거
+  const keyword = query.replace(/파주시|경기도/g, '').replace(/[,().*%\\]/g, '').trim();
+  if (keyword.length < 2) return null;
+
+  const { data, error } = await supabase
+    .from('shelter_facilities')
+    .select('name,road_addr,lat,lon')
+    .or(`name.ilike.%${keyword}%,road_addr.ilike.%${keyword}%`)
+    .limit(1);
+  if (error) throw error;
+
+  const match = data?.[0];
+  return match ? { label: match.name, lat: match.lat, lon: match.lon } : null;
+}
+
+async function findNearestShelters(supabase: Client, args: Args): Promise<ChatToolResult> {
+  const tool = 'find_nearest_shelters';
+  const limit = clampLimit(numberArg(args, 'limit'), 3, MAX_SHELTERS);
+  const lat = numberArg(args, 'lat');
+  const lon = numberArg(args, 'lon');
+  const address = typeof args.address === 'string' ? args.address : '';
+
+  let origin: ChatToolResult['origin'] | null = null;
+  if (lat != null && lon != null) {
+    if (!isInPaju(lat, lon)) return { tool, error: '좌표가 파주시 밖입니다. 파주시 안의 주소로 다시 찾아 주세요.' };
+    origin = { label: address || '입력한 좌표', lat, lon };
+  } else if (address.trim()) {
+    origin = await resolveAddress(supabase, address);
+    if (!origin) return { tool, error: `"${address}" 위치를 파주시에서 찾지 못했습니다. 읍/면/동 이름으로 다시 물어봐 주세요.` };
+  } else {
+    return { tool, error: '주소나 좌표가 필요합니다.' };
+  }
+
+  const { data, error } = await supabase.rpc('nearest_shelters', {
+    origin_lat: origin.lat,
+    origin_lon: origin.lon,
+    max_results: limit,
+  });
+  if (error) throw error;
+
+  return {
+    tool,
+    origin,
+    shelters: (data ?? []).map((row) => ({
+      facilitySerial: row.facility_serial,
+      name: row.name,
+      address: row.road_addr,
+      capacity: row.capacity,
+      areaSqm: row.area_sqm,
+      lat: row.lat,
+      lon: row.lon,
+      distanceKm: Number(Number(row.distance_km).toFixed(2)),
+      is24hOpen: row.is_24h_open === true,
+      // nearest_shelters 는 운영 중인 대피소만 반환
+      isOpen: true,
+      facilities: facilityLabels(row.facilities),
+      occupants: null,
+    })),
+  };
+}
+
+async function getShelterDetails(supabase: Client, args: Args): Promise<ChatToolResult> {
+  const tool = 'get_shelter_details';
+  const serial = numberArg(args, 'facility_serial');
+  if (serial == null || !Number.isInteger(serial)) return { tool, error: 'facility_serial 은 정수여야 합니다.' };
+
+  const [{ data: row, error }, { data: occupancy }] = await Promise.all([
+    supabase
+      .from('shelter_facilities')
+      .select('facility_serial,name,road_addr,capacity,area_sqm,lat,lon,facilities,is_24h_open,is_open')
+      .eq('facility_serial', serial)
+      .maybeSingle(),
+    supabase.from('shelter_occupancy').select('occupants').eq('facility_serial', serial).maybeSingle(),
+  ]);
+  if (error) throw error;
+  if (!row) return { tool, error: `고유번호 ${serial} 대피소가 없습니다.` };
+
+  return {
+    tool,
+    shelters: [
+      {
+        facilitySerial: row.facility_serial,
+        name: row.name,
+        address: row.road_addr,
+        capacity: row.capacity,
+        areaSqm: row.area_sqm,
+        lat: row.lat,
+        lon: row.lon,
+        distanceKm: null,
+        is24hOpen: row.is_24h_open === true,
+        isOpen: row.is_open !== false,
+        facilities: facilityLabels(row.facilities),
+        occupants: occupancy?.occupants ?? null,
+      },
+    ],
+  };
+}
+
+async function getRecentEarthquakes(supabase: Client, args: Args): Promise<ChatToolResult> {
+  const tool = 'get_recent_earthquakes';
+  const limit = clampLimit(numberArg(args, 'limit'), 5, MAX_EARTHQUAKES);
+  const minMagnitude = numberArg(args, 'min_magnitude');
+
+  let query = supabase
+    .from('earthquakes')
+    .select('occurred_at,location,magnitude,depth,latitude,longitude,distance_from_paju')
+    .order('occurred_at', { ascending: false })
+    .limit(limit);
+  if (minMagnitude != null) query = query.gte('magnitude', minMagnitude);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return {
+    tool,
+    earthquakes: (data ?? []).map((eq) => ({
+      occurredAt: eq.occurred_at,
+      location: eq.location,
+      magnitude: Number(eq.magnitude),
+      depthKm: eq.depth,
+      pajuIntensity: intensityClass(earthquakeIntensityAt(eq, PAJU_CITY_HALL)).roman,
+    })),
+  };
+}
+
+const RUNNERS: Record<ChatToolName, (supabase: Client, args: Args) => Promise<ChatToolResult>> = {
+  find_nearest_shelters: findNearestShelters,
+  get_shelter_details: getShelterDetails,
+  get_recent_earthquakes: getRecentEarthquakes,
+};
+
+function isToolName(name: string): name is ChatToolName {
+  return Object.prototype.hasOwnProperty.call(RUNNERS, name);
+}
+
+// 도구 실행 – 잘못된 인자나 조회 실패도 모델이 사용자에게 설명할 수 있도록 error 결과로 돌려줌
+export async function runChatTool(supabase: Client, name: string, rawArgs: string): Promise<ChatToolResult | null> {
+  if (!isToolName(name)) return null;
+
+  let args: Args;
+  try {
+    const parsed: unknown = rawArgs.trim() ? JSON.parse(rawArgs) : {};
+    args = typeof parsed === 'object' && parsed !== null ? (parsed as Args) : {};
+  } catch {
+    return { tool: name, error: '도구 인자가 올바른 JSON 이 아닙니다.' };
+  }
+
+  try {
+    return await RUNNERS[name](supabase, args);
+  } catch (err) {
+    console.error(`[chat] tool ${name} failed`, err);
+    return { tool: name, error: '데이터를 조회하지 못했습니다. 잠시 후 다시 시도해 주세요.' };
+  }
+}
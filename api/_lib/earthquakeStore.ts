@@ -0,0 +1,185 @@
+// api/_lib/earthquakeStore.ts
+// 파싱된 지진 통보 → earthquakes 테이블 반영
+// - 같은 지진의 재통보(조기경보 → 정밀분석 → 재통보 …)는 새 행이 아니라 기존 행을 갱신하고 revision +1
+// - 같은 지진 판단: 발생시각 ±60초, 진앙 50km 이내
+// - 이미 반영한 통보(source + bulletin_id)나 기존보다 오래된 통보는 건너뜀
+// - 반영한 지진이 있으면 earthquakerisk_paju 도 다시 계산
+// 계획(planIngest)은 DB 없이 계산되므로 픽스처 dry-run 에도 그대로 사용
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables, TablesInsert } from '../../src/lib/database.types';
+import { calcDistanceKm } from '../../src/lib/geo';
+import { BULLETIN_RANK, type BulletinKind, type EarthquakeBulletin } from './kmaEarthquake';
+
+const MATCH_SECONDS = 60;
+const MATCH_KM = 50;
+
+export type EarthquakeRow = Pick<
+  Tables<'earthquakes'>,
+  'id' | 'occurred_at' | 'latitude' | 'longitude' | 'source' | 'bulletin_id' | 'bulletin_kind' | 'issued_at' | 'revision'
+>;
+
+const ROW_COLUMNS = 'id,occurred_at,latitude,longitude,source,bulletin_id,bulletin_kind,issued_at,revision';
+
+// 매칭에 쓰는 현재 값 (기존 행 또는 마지막으로 받아들인 통보)
+interface EventState {
+  occurredAt: string;
+  lat: number | null;
+  lon: number | null;
+  kind: string | null;
+  issuedAt: string | null;
+}
+
+interface PlannedEvent {
+  // null 이면 새 지진
+  row: EarthquakeRow | null;
+  // 이번에 반영할 최신 통보 (null 이면 변경 없음)
+  bulletin: EarthquakeBulletin | null;
+  revision: number;
+  state: EventState;
+}
+
+type PlannedWrite = PlannedEvent & { bulletin: EarthquakeBulletin };
+
+export interface IngestPlan {
+  events: PlannedWrite[];
+  // 건너뛴 통보와 이유
+  skipped: { bulletinId: string; reason: string }[];
+}
+
+export interface IngestReport {
+  inserted: number;
+  revised: number;
+  skipped: IngestPlan['skipped'];
+}
+
+function rankOf(kind: string | null): number {
+  return kind && kind in BULLETIN_RANK ? BULLETIN_RANK[kind as BulletinKind] : 0;
+}
+
+// 통보 종류가 더 정밀하거나, 같은 종류면 더 늦게 발표된 쪽이 최신
+function isNewer(b: EarthquakeBulletin, { kind, issuedAt }: EventState): boolean {
+  const rank = BULLETIN_RANK[b.kind];
+  const current = rankOf(kind);
+  if (rank !== current) return rank > current;
+  return issuedAt == null || Date.parse(b.issuedAt) > Date.parse(issuedAt);
+}
+
+// 좌표가 없는 기존 행(2023 샘플)은 매칭하지 않음
+function sameEvent(b: EarthquakeBulletin, { occurredAt, lat, lon }: EventState): boolean {
+  if (lat == null || lon == null) return false;
+  const seconds = Math.abs(Date.parse(b.occurredAt) - Date.parse(occurredAt)) / 1000;
+  return seconds <= MATCH_SECONDS && calcDistanceKm(b.lat, b.lon, lat, lon) <= MATCH_KM;
+}
+
+function stateOf(b: EarthquakeBulletin): EventState {
+  return { occurredAt: b.occurredAt, lat: b.lat, lon: b.lon, kind: b.kind, issuedAt: b.issuedAt };
+}
+
+// existing: 통보 발생시각 주변의 기존 행
+export function planIngest(existing: EarthquakeRow[], bulletins: EarthquakeBulletin[]): IngestPlan {
+  const events: PlannedEvent[] = existing.map((row) => ({
+    row,
+    bulletin: null,
+    revision: row.revision,
+    state: {
+      occurredAt: row.occurred_at,
+      lat: row.latitude,
+      lon: row.longitude,
+      kind: row.bulletin_kind,
+      issuedAt: row.issued_at,
+    },
+  }));
+  const seen = new Set(existing.filter((r) => r.bulletin_id).map((r) => `${r.source}:${r.bulletin_id}`));
+  const skipped: IngestPlan['skipped'] = [];
+
+  // 발표 순서대로 적용해야 재통보가 앞 통보를 덮어씀
+  const ordered = [...bulletins].sort((a, b) => Date.parse(a.issuedAt) - Date.parse(b.issuedAt));
+
+  for (const b of ordered) {
+    const key = `${b.source}:${b.bulletinId}`;
+    if (seen.has(key)) {
+      skipped.push({ bulletinId: b.bulletinId, reason: '이미 반영된 통보' });
+      continue;
+    }
+    seen.add(key);
+
+    const gap = (e: PlannedEvent) => Math.abs(Date.parse(e.state.occurredAt) - Date.parse(b.occurredAt));
+    const match = events.filter((e) => sameEvent(b, e.state)).sort((x, y) => gap(x) - gap(y))[0];
+
+    if (!match) {
+      events.push({ row: null, bulletin: b, revision: 1, state: stateOf(b) });
+      continue;
+    }
+    if (!isNewer(b, match.state)) {
+      skipped.push({ bulletinId: b.bulletinId, reason: '기존보다 오래되었거나 덜 정밀한 통보' });
+      continue;
+    }
+    // 받아들인 통보마다 +1 (한 번에 여러 통보가 와도 따로 받은 것과 같은 값)
+    match.bulletin = b;
+    match.revision += 1;
+    match.state = stateOf(b);
+  }
+
+  return { events: events.filter((e): e is PlannedWrite => e.bulletin != null), skipped };
+}
+
+function toRow(e: PlannedWrite): TablesInsert<'earthquakes'> {
+  const b = e.bulletin;
+  return {
+    occurred_at: b.occurredAt,
+    location: b.location,
+    distance_from_paju: b.distanceFromPaju,
+    magnitude: b.magnitude,
+    depth: b.depth,
+    latitude: b.lat,
+    longitude: b.lon,
+    source: b.source,
+    bulletin_id: b.bulletinId,
+    bulletin_kind: b.kind,
+    issued_at: b.issuedAt,
+    revision: e.revision,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// 통보들의 발생시각 범위(±여유) 안에 있는 기존 행 조회 → 계획 → 반영
+export async function storeBulletins(
+  client: SupabaseClient<Database>,
+  bulletins: EarthquakeBulletin[],
+  { dryRun = false }: { dryRun?: boolean } = {},
+): Promise<IngestReport> {
+  if (bulletins.length === 0) return { inserted: 0, revised: 0, skipped: [] };
+
+  const times = bulletins.map((b) => Date.parse(b.occurredAt));
+  const from = new Date(Math.min(...times) - MATCH_SECONDS * 1000).toISOString();
+  const to = new Date(Math.max(...times) + MATCH_SECONDS * 1000).toISOString();
+
+  const { data, error } = await client
+    .from('earthquakes')
+    .select(ROW_COLUMNS)
+    .gte('occurred_at', from)
+    .lte('occurred_at', to);
+  if (error) throw error;
+
+  const plan = planIngest(data ?? [], bulletins);
+  const report: IngestReport = {
+    inserted: plan.events.filter((e) => !e.row).length,
+    revised: plan.events.filter((e) => e.row).length,
+    skipped: plan.skipped,
+  };
+  if (dryRun) return report;
+
+  for (const e of plan.events) {
+    const { error: writeError } = e.row
+      ? await client.from('earthquakes').update(toRow(e)).eq('id', e.row.id)
+      : await client.from('earthquakes').insert(toRow(e));
+    if (writeError) throw writeError;
+  }
+
+  // 최근 지진이 바뀌었으니 파주 위험도(지진 활동 점수 포함)도 다시 계산
+  if (plan.events.length > 0) {
+    const { error: riskError } = await client.rpc('refresh_earthquake_risk_paju');
+    if (riskError) throw riskError;
+  }
+  return report;
+}
@@ -0,0 +1,50 @@
+// api/_lib/guidance.ts
+// 질문마다 공식 행동요령 문단을 찾아 system 프롬프트에 번호를 붙여 넣음
+// - 답변의 [1], [2] 인용 번호는 클라이언트로 보내는 출처 목록(ChatSource.id)과 같음
+import type { ChatSource } from '../../src/lib/chatTypes';
+import type { ChatMessage } from './chatHistory';
+import { GUIDANCE_INDEX } from './guidanceIndex';
+import { searchGuidance, type GuidanceChunk } from './guidanceSearch';
+
+// 프롬프트에 넣는 최대 문단 수
+const MAX_PASSAGES = 3;
+
+export interface GuidanceContext {
+  passages: GuidanceChunk[];
+  sources: ChatSource[];
+}
+
+// 마지막 질문으로 찾고, "그럼 운전 중에는?"처럼 짧은 후속 질문이라 못 찾으면 직전 질문과 합쳐 다시 찾음
+export function retrieveGuidance(messages: ChatMessage[]): GuidanceContext {
+  const questions = messages.filter((m) => m.role === 'user').map((m) => m.content);
+  let hits = searchGuidance(GUIDANCE_INDEX, questions[questions.length - 1] ?? '', { limit: MAX_PASSAGES });
+  if (hits.length === 0 && questions.length > 1) {
+    hits = searchGuidance(GUIDANCE_INDEX, questions.slice(-2).join('\n'), { limit: MAX_PASSAGES });
+  }
+
+  const passages = hits.map((hit) => hit.chunk);
+  return {
+    passages,
+    sources: passages.map((p, i) => ({ id: i + 1, title: p.title, source: p.source, section: p.section, url: p.url })),
+  };
+}
+
+export function guidanceMessage({ passages }: GuidanceContext) {
+  if (passages.length === 0) {
+    return {
+      role: 'system' as const,
+      content:
+        '공식 행동요령 자료에서 이 질문과 관련된 내용을 찾지 못했어. 일반적인 지진 안전 수칙 범위에서만 답하고, ' +
+        '구체적인 장소·연락처·수치는 지어내지 말고 국민재난안전포털이나 파주시 안내를 확인하라고 알려줘.',
+    };
+  }
+
+  const blocks = passages.map((p, i) => `[${i + 1}] ${p.source} – ${p.title} > ${p.section}\n${p.text}`);
+  return {
+    role: 'system' as const,
+    content:
+      '아래는 공식 지진 행동요령 자료에서 찾은 참고 문단이야. 답변은 이 자료에 근거해서 하고, ' +
+      '자료를 근거로 한 문장 끝에 [1]처럼 자료 번호를 붙여. 자료에 없는 내용은 지어내지 마.\n\n' +
+      blocks.join('\n\n'),
+  };
+}
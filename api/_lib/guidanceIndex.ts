@@ -0,0 +1,36 @@
+// api/_lib/guidanceIndex.ts
+// 자동 생성 파일 – scripts/build-guidance-index.ts 로 다시 만들고 직접 고치지 말 것
+import type { GuidanceIndexFile } from './guidanceSearch';
+
+export const GUIDANCE_INDEX: GuidanceIndexFile = {
+  version: 1,
+  avgLength: 81.08,
+  chunks: [
+    {"id":"paju-earthquake-shelters#1","title":"파주시 지진 대피장소 안내","source":"파주시","url":"https://www.paju.go.kr","section":"지진 옥외대피장소란","text":"지진 옥외대피장소는 지진으로 흔들림이 멈춘 뒤 건물 붕괴나 낙하물을 피해 잠시 머무르는 야외의 넓은 공간입니다.\n파주시는 학교 운동장, 공원, 공터 등 주변에 무너질 건물이 없는 곳을 지진 옥외대피장소로 지정하고 있습니다.\n흔들림이 멈추면 걸어서 가까운 옥외대피장소로 이동하고, 차량은 이용하지 않습니다.","terms":{"파주":2,"주시":2,"지진":5,"대피":5,"피장":5,"장소":5,"안내":1,"옥외":4,"외대":4,"소란":1,"소는":1,"진으":1,"으로":1,"흔들":2,"들림":2,"림이":2,"멈춘":1,"뒤":1,"건물":2,"붕괴":1,"괴나":1,"낙하":1,"하물":1,"물을":1,"피해":1,"잠시":1,"머무":1,"무르":1,"르는":1,"야외":1,"외의":1,"넓은":1,"공간":1,"간입":1,"입니":1,"니다":3,"시는":1,"학교":1,"운동":1,"동장":1,"공원":1,"공터":1,"등":1,"주변":1,"변에":1,"무너":1,"너질":1,"물이":1,"없는":1,"곳을":1,"소로":2,"지정":1,"정하":1,"하고":2,"있습":1,"습니":2,"멈추":1,"추면":1,"걸어":1,"어서":1,"가까":1,"까운":1,"이동":1,"동하":1,"차량":1,"량은":1,"이용":1,"용하":1,"하지":1,"않습":1},"length":103},
+    {"id":"paju-earthquake-shelters#2","title":"파주시 지진 대피장소 안내","source":"파주시","url":"https://www.paju.go.kr","section":"이재민 임시주거시설(실내 구호소)","text":"지진으로 집이 부서지거나 여진 때문에 집에 머물기 어려운 주민은 이재민 임시주거시설에서 지낼 수 있습니다.\n임시주거시설은 학교, 체육관, 마을회관, 경로당 등 내진 안전성이 확인된 건물 중에서 지정되며, 운영 여부는 시의 안내에 따릅니다.\n옥외대피장소에서 먼저 안전을 확보한 뒤 시의 안내에 따라 임시주거시설로 이동합니다.","terms":{"파주":1,"주시":1,"지진":2,"대피":2,"피장":2,"장소":2,"안내":3,"이재":2,"재민":2,"임시":4,"시주":4,"주거":4,"거시":4,"시설":4,"실내":1,"구호":1,"호소":1,"진으":1,"으로":1,"집이":1,"부서":1,"서지":1,"지거":1,"거나":1,"여진":1,"때문":1,"문에":1,"집에":1,"머물":1,"물기":1,"어려":1,"려운":1,"주민":1,"민은":1,"설에":1,"에서":3,"지낼":1,"수":1,"있습":1,"습니":1,"니다":3,"설은":1,"학교":1,"체육":1,"육관":1,"마을":1,"을회":1,"회관":1,"경로":1,"로당":1,"등":1,"내진":1,"안전":2,"전성":1,"성이":1,"확인":1,"인된":1,"건물":1,"중에":1,"지정":1,"정되":1,"되며":1,"운영":1,"여부":1,"부는":1,"시의":2,"내에":2,"따릅":1,"릅니":1,"옥외":1,"외대":1,"소에":1,"먼저":1,"전을":1,"확보":1,"보한":1,"뒤":1,"따라":1,"설로":1,"이동":1,"동합":1,"합니":1},"length":112},
+    {"id":"paju-earthquake-shelters#3","title":"파주시 지진 대피장소 안내","source":"파주시","url":"https://www.paju.go.kr","section":"가까운 대피장소 확인 방법","text":"가까운 지진 옥외대피장소와 임시주거시설은 파주시 누리집, 국민재난안전포털, 행정안전부 안전디딤돌 앱에서 확인할 수 있습니다.\n집, 직장, 학교 등 자주 머무는 곳마다 가까운 대피장소와 걸어서 가는 길을 평소에 미리 확인해 둡니다.\n대피장소 입구에는 지진 옥외대피장소 안내 표지판이 설치되어 있습니다.","terms":{"파주":2,"주시":2,"지진":3,"대피":6,"피장":6,"장소":6,"안내":2,"가까":3,"까운":3,"확인":3,"방법":1,"옥외":2,"외대":2,"소와":2,"임시":1,"시주":1,"주거":1,"거시":1,"시설":1,"설은":1,"누리":1,"리집":1,"국민":1,"민재":1,"재난":1,"난안":1,"안전":3,"전포":1,"포털":1,"행정":1,"정안":1,"전부":1,"전디":1,"디딤":1,"딤돌":1,"앱에":1,"에서":1,"인할":1,"수":1,"있습":2,"습니":2,"니다":3,"집":1,"직장":1,"학교":1,"등":1,"자주":1,"머무":1,"무는":1,"곳마":1,"마다":1,"걸어":1,"어서":1,"가는":1,"길을":1,"평소":1,"소에":1,"미리":1,"인해":1,"둡니":1,"입구":1,"구에":1,"에는":1,"표지":1,"지판":1,"판이":1,"설치":1,"치되":1,"되어":1},"length":104},
+    {"id":"paju-earthquake-shelters#4","title":"파주시 지진 대피장소 안내","source":"파주시","url":"https://www.paju.go.kr","section":"대피장소에서 지켜야 할 일","text":"대피장소에 도착하면 담당 공무원이나 안내 요원의 지시에 따릅니다.\n가족이나 이웃의 안부를 확인하고, 연락이 닿지 않는 사람이 있으면 담당자에게 알립니다.\n여진이 계속될 수 있으므로 시의 안내가 있기 전까지 건물 안으로 들어가지 않습니다.","terms":{"파주":1,"주시":1,"지진":1,"대피":3,"피장":3,"장소":3,"안내":3,"소에":2,"에서":1,"지켜":1,"켜야":1,"할":1,"일":1,"도착":1,"착하":1,"하면":1,"담당":2,"공무":1,"무원":1,"원이":1,"이나":2,"요원":1,"원의":1,"지시":1,"시에":1,"따릅":1,"릅니":1,"니다":3,"가족":1,"족이":1,"이웃":1,"웃의":1,"안부":1,"부를":1,"확인":1,"인하":1,"하고":1,"연락":1,"락이":1,"닿지":1,"않는":1,"사람":1,"람이":1,"있으":2,"으면":1,"당자":1,"자에":1,"에게":1,"알립":1,"립니":1,"여진":1,"진이":1,"계속":1,"속될":1,"수":1,"으므":1,"므로":1,"시의":1,"내가":1,"있기":1,"전까":1,"까지":1,"건물":1,"안으":1,"으로":1,"들어":1,"어가":1,"가지":1,"않습":1,"습니":1},"length":84},
+    {"id":"paju-earthquake-shelters#5","title":"파주시 지진 대피장소 안내","source":"파주시","url":"https://www.paju.go.kr","section":"재난 정보 받기","text":"지진이 발생하면 긴급재난문자, 파주시 누리집과 공식 SNS, 마을 방송 등으로 대피 안내가 전달됩니다.\n재난문자를 받으면 내용을 확인하고 안내에 따라 행동합니다.\n도움이 필요한 긴급 상황에서는 119(화재·구조·구급)나 112(경찰)에 신고합니다.","terms":{"112":1,"119":1,"파주":2,"주시":2,"지진":2,"대피":2,"피장":1,"장소":1,"안내":3,"재난":3,"정보":1,"받기":1,"진이":1,"발생":1,"생하":1,"하면":1,"긴급":2,"급재":1,"난문":2,"문자":2,"누리":1,"리집":1,"집과":1,"공식":1,"sns":1,"마을":1,"방송":1,"등으":1,"으로":1,"내가":1,"전달":1,"달됩":1,"됩니":1,"니다":3,"자를":1,"받으":1,"으면":1,"내용":1,"용을":1,"확인":1,"인하":1,"하고":1,"내에":1,"따라":1,"행동":1,"동합":1,"합니":2,"도움":1,"움이":1,"필요":1,"요한":1,"상황":1,"황에":1,"에서":1,"서는":1,"화재":1,"구조":1,"구급":1,"나":1,"경찰":1,"에":1,"신고":1,"고합":1},"length":77},
+    {"id":"safekorea-earthquake-actions#1","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"흔들리는 동안: 탁자 아래로 들어가 몸을 보호","text":"지진으로 흔들리는 동안에는 튼튼한 탁자 아래로 들어가 탁자 다리를 꼭 잡고 몸을 보호합니다.\n탁자 아래와 같이 피할 곳이 없을 때에는 방석이나 가방 등으로 머리를 보호합니다.\n흔들림이 계속되는 동안 무리하게 밖으로 뛰어나가지 않습니다. 떨어지는 물건과 깨진 유리에 다칠 수 있습니다.","terms":{"지진":2,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"흔들":3,"들리":2,"리는":2,"동안":3,"탁자":4,"아래":3,"래로":2,"들어":2,"어가":2,"몸을":2,"보호":3,"진으":1,"으로":3,"안에":1,"에는":2,"튼튼":1,"튼한":1,"다리":1,"리를":2,"꼭":1,"잡고":1,"호합":2,"합니":2,"니다":4,"래와":1,"같이":1,"피할":1,"곳이":1,"없을":1,"때에":1,"방석":1,"석이":1,"이나":1,"가방":1,"등으":1,"머리":1,"들림":1,"림이":1,"계속":1,"속되":1,"되는":1,"무리":1,"리하":1,"하게":1,"밖으":1,"뛰어":1,"어나":1,"나가":1,"가지":1,"않습":1,"습니":2,"떨어":1,"어지":1,"지는":1,"물건":1,"건과":1,"깨진":1,"유리":1,"리에":1,"다칠":1,"수":1,"있습":1},"length":98},
+    {"id":"safekorea-earthquake-actions#2","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"흔들림이 멈추면: 전기와 가스 차단, 문 열어 출구 확보","text":"흔들림이 멈추면 전기와 가스를 차단하고 불이 났다면 침착하게 불을 끕니다.\n문이나 창문을 열어 출구를 확보합니다. 건물이 뒤틀리면 문이 열리지 않아 갇힐 수 있습니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"흔들":2,"들림":2,"림이":2,"멈추":2,"추면":2,"전기":2,"기와":2,"가스":2,"차단":2,"문":1,"열어":2,"출구":2,"확보":2,"스를":1,"단하":1,"하고":1,"불이":1,"났다":1,"다면":1,"침착":1,"착하":1,"하게":1,"불을":1,"끕니":1,"니다":3,"문이":2,"이나":1,"창문":1,"문을":1,"구를":1,"보합":1,"합니":1,"건물":1,"물이":1,"뒤틀":1,"틀리":1,"리면":1,"열리":1,"리지":1,"않아":1,"갇힐":1,"수":1,"있습":1,"습니":1},"length":67},
+    {"id":"safekorea-earthquake-actions#3","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"건물 밖으로 나갈 때: 계단 이용","text":"건물 밖으로 나갈 때에는 엘리베이터를 이용하지 말고 계단을 이용합니다.\n떨어지는 물건에 대비해 가방이나 방석으로 머리를 보호하고 신발을 신고 이동합니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"건물":2,"밖으":2,"으로":3,"나갈":2,"때":1,"계단":2,"이용":3,"때에":1,"에는":1,"엘리":1,"리베":1,"베이":1,"이터":1,"터를":1,"용하":1,"하지":1,"말고":1,"단을":1,"용합":1,"합니":2,"니다":2,"떨어":1,"어지":1,"지는":1,"물건":1,"건에":1,"대비":1,"비해":1,"가방":1,"방이":1,"이나":1,"방석":1,"석으":1,"머리":1,"리를":1,"보호":1,"호하":1,"하고":1,"신발":1,"발을":1,"신고":1,"이동":1,"동합":1},"length":61},
+    {"id":"safekorea-earthquake-actions#4","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"건물 밖에 있을 때: 기둥과 담장에서 떨어져 이동","text":"건물 밖에서는 가방이나 손으로 머리를 보호하며 건물과 거리를 두고 주위를 살피며 대피합니다.\n간판, 유리창, 담장, 전신주, 자동판매기처럼 넘어지거나 떨어질 수 있는 물체에서 멀리 떨어집니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"건물":3,"밖에":2,"있을":1,"때":1,"기둥":1,"둥과":1,"담장":2,"장에":1,"에서":3,"떨어":3,"어져":1,"이동":1,"서는":1,"가방":1,"방이":1,"이나":1,"손으":1,"으로":1,"머리":1,"리를":2,"보호":1,"호하":1,"하며":1,"물과":1,"거리":1,"두고":1,"주위":1,"위를":1,"살피":1,"피며":1,"대피":1,"피합":1,"합니":1,"니다":2,"간판":1,"유리":1,"리창":1,"전신":1,"신주":1,"자동":1,"동판":1,"판매":1,"매기":1,"기처":1,"처럼":1,"넘어":1,"어지":1,"지거":1,"거나":1,"어질":1,"수":1,"있는":1,"물체":1,"체에":1,"멀리":1,"어집":1,"집니":1},"length":75},
+    {"id":"safekorea-earthquake-actions#5","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"대피 장소: 운동장이나 공원 등 넓은 공간으로","text":"떨어지는 물건에 주의하며 운동장이나 공원 등 넓은 공간으로 대피합니다.\n차량을 이용하지 말고 걸어서 이동합니다.\n지진 옥외대피장소의 위치는 평소에 미리 확인해 둡니다.","terms":{"지진":2,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"대피":3,"장소":2,"운동":2,"동장":2,"장이":2,"이나":2,"공원":2,"등":2,"넓은":2,"공간":2,"간으":2,"으로":2,"떨어":1,"어지":1,"지는":1,"물건":1,"건에":1,"주의":1,"의하":1,"하며":1,"피합":1,"합니":2,"니다":3,"차량":1,"량을":1,"이용":1,"용하":1,"하지":1,"말고":1,"걸어":1,"어서":1,"이동":1,"동합":1,"옥외":1,"외대":1,"피장":1,"소의":1,"위치":1,"치는":1,"평소":1,"소에":1,"미리":1,"확인":1,"인해":1,"둡니":1},"length":70},
+    {"id":"safekorea-earthquake-actions#6","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"엘리베이터 안에 있을 때","text":"엘리베이터 안에 있을 때에는 모든 층의 버튼을 눌러 가장 먼저 멈추는 층에서 내린 뒤 계단을 이용해 밖으로 대피합니다.\n엘리베이터 안에 갇혔다면 비상 호출 버튼이나 인터폰으로 구조를 요청합니다.\n지진이 났을 때 엘리베이터를 타고 이동하지 않습니다.","terms":{"지진":2,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"엘리":4,"리베":4,"베이":4,"이터":4,"안에":3,"있을":2,"때":2,"때에":1,"에는":1,"모든":1,"층의":1,"버튼":2,"튼을":1,"눌러":1,"가장":1,"먼저":1,"멈추":1,"추는":1,"층에":1,"에서":1,"내린":1,"뒤":1,"계단":1,"단을":1,"이용":1,"용해":1,"밖으":1,"으로":2,"대피":1,"피합":1,"합니":2,"니다":3,"갇혔":1,"혔다":1,"다면":1,"비상":1,"호출":1,"튼이":1,"이나":1,"인터":1,"터폰":1,"폰으":1,"구조":1,"조를":1,"요청":1,"청합":1,"진이":1,"났을":1,"터를":1,"타고":1,"이동":1,"동하":1,"하지":1,"않습":1,"습니":1},"length":85},
+    {"id":"safekorea-earthquake-actions#7","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"학교에 있을 때","text":"책상 아래로 들어가 책상 다리를 꼭 잡습니다.\n흔들림이 멈추면 선생님의 안내에 따라 질서를 지키며 운동장으로 대피합니다.\n출입문 주변에 몰리지 않도록 차례로 이동합니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"학교":1,"교에":1,"있을":1,"때":1,"책상":2,"아래":1,"래로":1,"들어":1,"어가":1,"다리":1,"리를":1,"꼭":1,"잡습":1,"습니":1,"니다":3,"흔들":1,"들림":1,"림이":1,"멈추":1,"추면":1,"선생":1,"생님":1,"님의":1,"안내":1,"내에":1,"따라":1,"질서":1,"서를":1,"지키":1,"키며":1,"운동":1,"동장":1,"장으":1,"으로":1,"대피":1,"피합":1,"합니":2,"출입":1,"입문":1,"주변":1,"변에":1,"몰리":1,"리지":1,"않도":1,"도록":1,"차례":1,"례로":1,"이동":1,"동합":1},"length":61},
+    {"id":"safekorea-earthquake-actions#8","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"백화점·마트에 있을 때","text":"진열대에서 떨어지는 물건에 주의하며 장바구니나 가방으로 머리를 보호합니다.\n계단이나 기둥 근처로 가서 몸을 낮추고, 흔들림이 멈추면 안내에 따라 밖으로 대피합니다.\n출구로 한꺼번에 몰리면 다칠 수 있으므로 침착하게 이동합니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"백화":1,"화점":1,"마트":1,"트에":1,"있을":1,"때":1,"진열":1,"열대":1,"대에":1,"에서":1,"떨어":1,"어지":1,"지는":1,"물건":1,"건에":1,"주의":1,"의하":1,"하며":1,"장바":1,"바구":1,"구니":1,"니나":1,"가방":1,"방으":1,"으로":2,"머리":1,"리를":1,"보호":1,"호합":1,"합니":3,"니다":3,"계단":1,"단이":1,"이나":1,"기둥":1,"근처":1,"처로":1,"가서":1,"몸을":1,"낮추":1,"추고":1,"흔들":1,"들림":1,"림이":1,"멈추":1,"추면":1,"안내":1,"내에":1,"따라":1,"밖으":1,"대피":1,"피합":1,"출구":1,"구로":1,"한꺼":1,"꺼번":1,"번에":1,"몰리":1,"리면":1,"다칠":1,"수":1,"있으":1,"으므":1,"므로":1,"침착":1,"착하":1,"하게":1,"이동":1,"동합":1},"length":82},
+    {"id":"safekorea-earthquake-actions#9","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"극장·경기장에 있을 때","text":"흔들림이 멈출 때까지 가방 등으로 머리를 보호하며 자리에 머무릅니다.\n흔들림이 멈추면 안내에 따라 침착하게 밖으로 대피하고, 출구로 한꺼번에 몰리지 않습니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"극장":1,"경기":1,"기장":1,"장에":1,"있을":1,"때":1,"흔들":2,"들림":2,"림이":2,"멈출":1,"때까":1,"까지":1,"가방":1,"등으":1,"으로":2,"머리":1,"리를":1,"보호":1,"호하":1,"하며":1,"자리":1,"리에":1,"머무":1,"무릅":1,"릅니":1,"니다":2,"멈추":1,"추면":1,"안내":1,"내에":1,"따라":1,"침착":1,"착하":1,"하게":1,"밖으":1,"대피":1,"피하":1,"하고":1,"출구":1,"구로":1,"한꺼":1,"꺼번":1,"번에":1,"몰리":1,"리지":1,"않습":1,"습니":1},"length":60},
+    {"id":"safekorea-earthquake-actions#10","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"전철을 타고 있을 때","text":"전철 안에서는 손잡이나 기둥을 꼭 잡아 넘어지지 않도록 합니다.\n전철이 멈추더라도 마음대로 문을 열고 밖으로 나가지 않습니다. 선로로 뛰어내리면 매우 위험합니다.\n안내 방송에 따라 침착하게 행동합니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":2,"동요":1,"요령":1,"전철":3,"철을":1,"타고":1,"있을":1,"때":1,"안에":1,"에서":1,"서는":1,"손잡":1,"잡이":1,"이나":1,"기둥":1,"둥을":1,"꼭":1,"잡아":1,"넘어":1,"어지":1,"지지":1,"않도":1,"도록":1,"합니":3,"니다":4,"철이":1,"멈추":1,"추더":1,"더라":1,"라도":1,"마음":1,"음대":1,"대로":1,"문을":1,"열고":1,"밖으":1,"으로":1,"나가":1,"가지":1,"않습":1,"습니":1,"선로":1,"로로":1,"뛰어":1,"어내":1,"내리":1,"리면":1,"매우":1,"위험":1,"험합":1,"안내":1,"방송":1,"송에":1,"따라":1,"침착":1,"착하":1,"하게":1,"동합":1},"length":71},
+    {"id":"safekorea-earthquake-actions#11","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"운전을 하고 있을 때","text":"운전 중에는 비상등을 켜고 서서히 속도를 줄여 도로 오른쪽에 차를 세웁니다.\n라디오로 재난 정보를 들으며, 대피할 때에는 차량 열쇠를 꽂아 두고 문을 잠그지 않은 채 걸어서 이동합니다.\n다리나 고가도로 위, 터널 안에서는 흔들림에 주의하며 안전한 곳으로 빠져나갑니다.","terms":{"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"운전":2,"전을":1,"하고":1,"있을":1,"때":1,"중에":1,"에는":2,"비상":1,"상등":1,"등을":1,"켜고":1,"서서":1,"서히":1,"속도":1,"도를":1,"줄여":1,"도로":2,"오른":1,"른쪽":1,"쪽에":1,"차를":1,"세웁":1,"웁니":1,"니다":3,"라디":1,"디오":1,"오로":1,"재난":1,"정보":1,"보를":1,"들으":1,"으며":1,"대피":1,"피할":1,"때에":1,"차량":1,"열쇠":1,"쇠를":1,"꽂아":1,"두고":1,"문을":1,"잠그":1,"그지":1,"않은":1,"채":1,"걸어":1,"어서":1,"이동":1,"동합":1,"합니":1,"다리":1,"리나":1,"고가":1,"가도":1,"위":1,"터널":1,"안에":1,"에서":1,"서는":1,"흔들":1,"들림":1,"림에":1,"주의":1,"의하":1,"하며":1,"안전":1,"전한":1,"곳으":1,"으로":1,"빠져":1,"져나":1,"나갑":1,"갑니":1},"length":86},
+    {"id":"safekorea-earthquake-actions#12","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"산이나 바다에 있을 때","text":"산에서는 산사태나 낙석이 일어날 수 있는 급경사지를 피해 안전한 곳으로 대피합니다.\n해안에서 지진을 느꼈거나 지진해일 특보가 발령되면 해안에서 멀리 떨어진 높은 곳으로 빨리 이동합니다.","terms":{"지진":3,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"산이":1,"이나":1,"바다":1,"다에":1,"있을":1,"때":1,"산에":1,"에서":3,"서는":1,"산사":1,"사태":1,"태나":1,"낙석":1,"석이":1,"일어":1,"어날":1,"수":1,"있는":1,"급경":1,"경사":1,"사지":1,"지를":1,"피해":1,"안전":1,"전한":1,"곳으":2,"으로":2,"대피":1,"피합":1,"합니":2,"니다":2,"해안":2,"안에":2,"진을":1,"느꼈":1,"꼈거":1,"거나":1,"진해":1,"해일":1,"특보":1,"보가":1,"발령":1,"령되":1,"되면":1,"멀리":1,"떨어":1,"어진":1,"높은":1,"빨리":1,"이동":1,"동합":1},"length":69},
+    {"id":"safekorea-earthquake-actions#13","title":"지진 발생 시 국민행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"몸이 불편한 이웃과 함께","text":"노약자, 장애인 등 혼자 대피하기 어려운 이웃이 있으면 대피를 돕습니다.\n부상자가 있으면 서로 도와 응급처치를 하고 119에 신고합니다.","terms":{"119":1,"지진":1,"발생":1,"시":1,"국민":1,"민행":1,"행동":1,"동요":1,"요령":1,"몸이":1,"불편":1,"편한":1,"이웃":2,"웃과":1,"함께":1,"노약":1,"약자":1,"장애":1,"애인":1,"등":1,"혼자":1,"대피":2,"피하":1,"하기":1,"어려":1,"려운":1,"웃이":1,"있으":2,"으면":2,"피를":1,"돕습":1,"습니":1,"니다":2,"부상":1,"상자":1,"자가":1,"서로":1,"도와":1,"응급":1,"급처":1,"처치":1,"치를":1,"하고":1,"에":1,"신고":1,"고합":1,"합니":1},"length":52},
+    {"id":"safekorea-earthquake-preparedness#1","title":"지진 대비 및 지진 후 행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"평소 집 안 안전 점검","text":"탁자 아래처럼 집 안에서 몸을 보호할 수 있는 안전한 대피 공간을 미리 정해 둡니다.\n깨진 유리 등에 다치지 않도록 두꺼운 실내화를 준비해 둡니다.\n화재를 일으킬 수 있는 난로나 위험물은 주의하여 관리합니다.\n선반이나 높은 곳의 무거운 물건은 아래로 옮기고, 가구는 벽에 고정해 넘어지지 않게 합니다.","terms":{"지진":2,"대비":1,"및":1,"후":1,"행동":1,"동요":1,"요령":1,"평소":1,"집":2,"안":1,"안전":2,"점검":1,"탁자":1,"아래":2,"래처":1,"처럼":1,"안에":1,"에서":1,"몸을":1,"보호":1,"호할":1,"수":2,"있는":2,"전한":1,"대피":1,"공간":1,"간을":1,"미리":1,"정해":2,"둡니":2,"니다":4,"깨진":1,"유리":1,"등에":1,"다치":1,"치지":1,"않도":1,"도록":1,"두꺼":1,"꺼운":1,"실내":1,"내화":1,"화를":1,"준비":1,"비해":1,"화재":1,"재를":1,"일으":1,"으킬":1,"난로":1,"로나":1,"위험":1,"험물":1,"물은":1,"주의":1,"의하":1,"하여":1,"관리":1,"리합":1,"합니":2,"선반":1,"반이":1,"이나":1,"높은":1,"곳의":1,"무거":1,"거운":1,"물건":1,"건은":1,"래로":1,"옮기":1,"기고":1,"가구":1,"구는":1,"벽에":1,"고정":1,"넘어":1,"어지":1,"지지":1,"않게":1},"length":92},
+    {"id":"safekorea-earthquake-preparedness#2","title":"지진 대비 및 지진 후 행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"평소 건물 안전 점검","text":"건물의 벽이나 바닥에 금이 가 있는지, 기둥이나 외벽이 손상되었는지 점검하고 필요하면 보수합니다.\n가스와 전기를 차단하는 방법을 미리 알아 둡니다.","terms":{"지진":2,"대비":1,"및":1,"후":1,"행동":1,"동요":1,"요령":1,"평소":1,"건물":2,"안전":1,"점검":2,"물의":1,"벽이":2,"이나":2,"바닥":1,"닥에":1,"금이":1,"가":1,"있는":1,"는지":2,"기둥":1,"둥이":1,"외벽":1,"손상":1,"상되":1,"되었":1,"었는":1,"검하":1,"하고":1,"필요":1,"요하":1,"하면":1,"보수":1,"수합":1,"합니":1,"니다":2,"가스":1,"스와":1,"전기":1,"기를":1,"차단":1,"단하":1,"하는":1,"방법":1,"법을":1,"미리":1,"알아":1,"둡니":1},"length":55},
+    {"id":"safekorea-earthquake-preparedness#3","title":"지진 대비 및 지진 후 행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"비상용품 준비","text":"지진에 대비해 비상용품을 준비하고 보관 장소와 사용 방법을 가족과 함께 확인합니다.\n비상용품에는 생수, 비상식량, 응급처치 약품, 손전등과 여분의 건전지, 휴대용 라디오, 휴대전화 보조배터리, 방한용품, 개인 상비약 등을 포함합니다.\n비상용품은 가지고 나가기 쉬운 곳에 두고, 유통기한과 건전지 상태를 주기적으로 점검합니다.","terms":{"지진":3,"대비":2,"및":1,"후":1,"행동":1,"동요":1,"요령":1,"비상":5,"상용":4,"용품":5,"준비":2,"진에":1,"비해":1,"품을":1,"비하":1,"하고":1,"보관":1,"장소":1,"소와":1,"사용":1,"방법":1,"법을":1,"가족":1,"족과":1,"함께":1,"확인":1,"인합":1,"합니":3,"니다":3,"품에":1,"에는":1,"생수":1,"상식":1,"식량":1,"응급":1,"급처":1,"처치":1,"약품":1,"손전":1,"전등":1,"등과":1,"여분":1,"분의":1,"건전":2,"전지":2,"휴대":2,"대용":1,"라디":1,"디오":1,"대전":1,"전화":1,"보조":1,"조배":1,"배터":1,"터리":1,"방한":1,"한용":1,"개인":1,"상비":1,"비약":1,"등을":1,"포함":1,"함합":1,"품은":1,"가지":1,"지고":1,"나가":1,"가기":1,"쉬운":1,"곳에":1,"두고":1,"유통":1,"통기":1,"기한":1,"한과":1,"상태":1,"태를":1,"주기":1,"기적":1,"적으":1,"으로":1,"점검":1,"검합":1},"length":105},
+    {"id":"safekorea-earthquake-preparedness#4","title":"지진 대비 및 지진 후 행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"가족과 비상 연락 방법 정하기","text":"지진이 나면 가족과 연락이 어려울 수 있으므로 평소에 다시 만날 장소와 연락 방법을 정해 둡니다.\n가족 구성원 모두가 가까운 지진 옥외대피장소와 이동 경로를 알아 둡니다.\n다른 지역에 사는 친척이나 지인을 공통 연락처로 정해 두면 가족 간 안부를 확인하는 데 도움이 됩니다.","terms":{"지진":4,"대비":1,"및":1,"후":1,"행동":1,"동요":1,"요령":1,"가족":4,"족과":2,"비상":1,"연락":4,"방법":2,"정하":1,"하기":1,"진이":1,"나면":1,"락이":1,"어려":1,"려울":1,"수":1,"있으":1,"으므":1,"므로":1,"평소":1,"소에":1,"다시":1,"만날":1,"장소":2,"소와":2,"법을":1,"정해":2,"둡니":2,"니다":3,"구성":1,"성원":1,"모두":1,"두가":1,"가까":1,"까운":1,"옥외":1,"외대":1,"대피":1,"피장":1,"이동":1,"경로":1,"로를":1,"알아":1,"다른":1,"지역":1,"역에":1,"사는":1,"친척":1,"척이":1,"이나":1,"지인":1,"인을":1,"공통":1,"락처":1,"처로":1,"두면":1,"간":1,"안부":1,"부를":1,"확인":1,"인하":1,"하는":1,"데":1,"도움":1,"움이":1,"됩니":1},"length":87},
+    {"id":"safekorea-earthquake-preparedness#5","title":"지진 대비 및 지진 후 행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"지진 대피 후: 부상자 확인과 신고","text":"지진이 멈추고 대피한 뒤에는 다친 사람이 있는지 확인하고, 부상자가 있으면 응급처치를 합니다.\n부상자를 발견하면 119에 신고하고, 무너진 건물에 갇힌 사람을 발견하면 구조대에 알립니다.","terms":{"119":1,"지진":4,"대비":1,"및":1,"후":2,"행동":1,"동요":1,"요령":1,"대피":2,"부상":3,"상자":3,"확인":2,"인과":1,"신고":2,"진이":1,"멈추":1,"추고":1,"피한":1,"뒤에":1,"에는":1,"다친":1,"사람":2,"람이":1,"있는":1,"는지":1,"인하":1,"하고":2,"자가":1,"있으":1,"으면":1,"응급":1,"급처":1,"처치":1,"치를":1,"합니":1,"니다":2,"자를":1,"발견":2,"견하":2,"하면":2,"에":1,"고하":1,"무너":1,"너진":1,"건물":1,"물에":1,"갇힌":1,"람을":1,"구조":1,"조대":1,"대에":1,"알립":1,"립니":1},"length":70},
+    {"id":"safekorea-earthquake-preparedness#6","title":"지진 대비 및 지진 후 행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"지진 대피 후: 집으로 돌아갈 때","text":"여진이 올 수 있으므로 안전이 확인되기 전에는 집으로 돌아가지 않습니다.\n대피 후 집으로 돌아갈 때에는 건물이 무너질 위험이 없는지, 가스가 새지 않는지 확인한 뒤 들어갑니다.\n가스 냄새가 나면 불을 켜거나 전기 스위치를 조작하지 말고 창문을 열어 환기한 뒤 가스 회사나 119에 연락합니다.\n전기 시설이 손상되었는지 확인하고 이상이 있으면 사용하지 않습니다.","terms":{"119":1,"지진":3,"대비":1,"및":1,"후":3,"행동":1,"동요":1,"요령":1,"대피":2,"집으":3,"으로":3,"돌아":3,"아갈":2,"때":1,"여진":1,"진이":1,"올":1,"수":1,"있으":2,"으므":1,"므로":1,"안전":1,"전이":1,"확인":3,"인되":1,"되기":1,"전에":1,"에는":2,"아가":1,"가지":1,"않습":2,"습니":2,"니다":4,"때에":1,"건물":1,"물이":1,"무너":1,"너질":1,"위험":1,"험이":1,"없는":1,"는지":3,"가스":3,"스가":1,"새지":1,"않는":1,"인한":1,"뒤":2,"들어":1,"어갑":1,"갑니":1,"냄새":1,"새가":1,"나면":1,"불을":1,"켜거":1,"거나":1,"전기":2,"스위":1,"위치":1,"치를":1,"조작":1,"작하":1,"하지":2,"말고":1,"창문":1,"문을":1,"열어":1,"환기":1,"기한":1,"회사":1,"사나":1,"에":1,"연락":1,"락합":1,"합니":1,"시설":1,"설이":1,"손상":1,"상되":1,"되었":1,"었는":1,"인하":1,"하고":1,"이상":1,"상이":1,"으면":1,"사용":1,"용하":1},"length":117},
+    {"id":"safekorea-earthquake-preparedness#7","title":"지진 대비 및 지진 후 행동요령","source":"국민재난안전포털 (행정안전부)","url":"https://www.safekorea.go.kr","section":"지진 대피 후: 정확한 정보 확인","text":"라디오, TV, 재난문자 등으로 정부와 지방자치단체가 알리는 정확한 재난 정보를 확인합니다.\n사실이 확인되지 않은 소문에 흔들리지 말고 공식 발표와 안내에 따라 행동합니다.\n여진 정보에 귀를 기울이고, 대피소에서는 담당자의 안내에 따릅니다.","terms":{"지진":3,"대비":1,"및":1,"후":2,"행동":2,"동요":1,"요령":1,"대피":2,"정확":2,"확한":2,"정보":3,"확인":3,"라디":1,"디오":1,"tv":1,"재난":2,"난문":1,"문자":1,"등으":1,"으로":1,"정부":1,"부와":1,"지방":1,"방자":1,"자치":1,"치단":1,"단체":1,"체가":1,"알리":1,"리는":1,"보를":1,"인합":1,"합니":2,"니다":3,"사실":1,"실이":1,"인되":1,"되지":1,"않은":1,"소문":1,"문에":1,"흔들":1,"들리":1,"리지":1,"말고":1,"공식":1,"발표":1,"표와":1,"안내":2,"내에":2,"따라":1,"동합":1,"여진":1,"보에":1,"귀를":1,"기울":1,"울이":1,"이고":1,"피소":1,"소에":1,"에서":1,"서는":1,"담당":1,"당자":1,"자의":1,"따릅":1,"릅니":1},"length":84},
+  ],
+  docFreq: {"112":1,"119":4,"파주":5,"주시":5,"지진":25,"대피":19,"피장":7,"장소":8,"안내":10,"옥외":5,"외대":5,"소란":1,"소는":1,"진으":3,"으로":18,"흔들":8,"들림":7,"림이":6,"멈춘":1,"뒤":4,"건물":9,"붕괴":1,"괴나":1,"낙하":1,"하물":1,"물을":1,"피해":2,"잠시":1,"머무":3,"무르":1,"르는":1,"야외":1,"외의":1,"넓은":2,"공간":3,"간입":1,"입니":1,"니다":25,"시는":1,"학교":4,"운동":3,"동장":3,"공원":2,"공터":1,"등":5,"주변":2,"변에":2,"무너":3,"너질":2,"물이":3,"없는":2,"곳을":1,"소로":1,"지정":2,"정하":2,"하고":12,"있습":5,"습니":12,"멈추":8,"추면":5,"걸어":4,"어서":4,"가까":3,"까운":3,"이동":11,"동하":2,"차량":3,"량은":1,"이용":4,"용하":4,"하지":5,"않습":7,"이재":1,"재민":1,"임시":2,"시주":2,"주거":2,"거시":2,"시설":3,"실내":2,"구호":1,"호소":1,"집이":1,"부서":1,"서지":1,"지거":2,"거나":4,"여진":4,"때문":1,"문에":2,"집에":1,"머물":1,"물기":1,"어려":3,"려운":2,"주민":1,"민은":1,"설에":1,"에서":12,"지낼":1,"수":11,"설은":2,"체육":1,"육관":1,"마을":2,"을회":1,"회관":1,"경로":2,"로당":1,"내진":1,"안전":7,"전성":1,"성이":1,"확인":10,"인된":1,"중에":2,"정되":1,"되며":1,"운영":1,"여부":1,"부는":1,"시의":2,"내에":6,"따릅":3,"릅니":4,"소에":6,"먼저":2,"전을":2,"확보":2,"보한":1,"따라":7,"설로":1,"동합":10,"합니":20,"방법":4,"소와":3,"누리":2,"리집":2,"국민":14,"민재":1,"재난":4,"난안":1,"전포":1,"포털":1,"행정":1,"정안":1,"전부":1,"전디":1,"디딤":1,"딤돌":1,"앱에":1,"인할":1,"집":2,"직장":1,"자주":1,"무는":1,"곳마":1,"마다":1,"가는":1,"길을":1,"평소":5,"미리":4,"인해":2,"둡니":5,"입구":1,"구에":1,"에는":8,"표지":1,"지판":1,"판이":1,"설치":1,"치되":1,"되어":1,"지켜":1,"켜야":1,"할":1,"일":1,"도착":1,"착하":5,"하면":4,"담당":2,"공무":1,"무원":1,"원이":1,"이나":13,"요원":1,"원의":1,"지시":1,"시에":1,"가족":3,"족이":1,"이웃":2,"웃의":1,"안부":2,"부를":2,"인하":5,"연락":3,"락이":2,"닿지":1,"않는":2,"사람":2,"람이":2,"있으":6,"으면":5,"당자":2,"자에":1,"에게":1,"알립":2,"립니":2,"진이":6,"계속":2,"속될":1,"으므":4,"므로":4,"내가":2,"있기":1,"전까":1,"까지":2,"안으":1,"들어":4,"어가":3,"가지":5,"정보":3,"받기":1,"발생":14,"생하":1,"긴급":1,"급재":1,"난문":2,"문자":2,"집과":1,"공식":2,"sns":1,"방송":2,"등으":4,"전달":1,"달됩":1,"됩니":2,"자를":2,"받으":1,"내용":1,"용을":1,"행동":21,"도움":2,"움이":2,"필요":2,"요한":1,"상황":1,"황에":1,"서는":6,"화재":2,"구조":3,"구급":1,"나":1,"경찰":1,"에":4,"신고":4,"고합":2,"시":13,"민행":13,"동요":20,"요령":20,"들리":2,"리는":2,"동안":1,"탁자":2,"아래":3,"래로":3,"몸을":3,"보호":6,"안에":6,"튼튼":1,"튼한":1,"다리":3,"리를":6,"꼭":3,"잡고":1,"호합":2,"래와":1,"같이":1,"피할":2,"곳이":1,"없을":1,"때에":5,"방석":2,"석이":2,"가방":5,"머리":5,"속되":1,"되는":1,"무리":1,"리하":1,"하게":5,"밖으":6,"뛰어":2,"어나":1,"나가":3,"떨어":6,"어지":7,"지는":4,"물건":5,"건과":1,"깨진":2,"유리":3,"리에":2,"다칠":2,"전기":3,"기와":1,"가스":3,"차단":2,"문":1,"열어":2,"출구":3,"스를":1,"단하":2,"불이":1,"났다":1,"다면":2,"침착":4,"불을":2,"끕니":1,"문이":1,"창문":2,"문을":4,"구를":1,"보합":1,"뒤틀":1,"틀리":1,"리면":3,"열리":1,"리지":4,"않아":1,"갇힐":1,"나갈":1,"때":10,"계단":3,"엘리":2,"리베":2,"베이":2,"이터":2,"터를":2,"말고":4,"단을":2,"용합":1,"건에":3,"대비":8,"비해":3,"방이":2,"석으":1,"호하":3,"신발":1,"발을":1,"밖에":1,"있을":8,"기둥":4,"둥과":1,"담장":1,"장에":2,"어져":1,"손으":1,"하며":5,"물과":1,"거리":1,"두고":3,"주위":1,"위를":1,"살피":1,"피며":1,"피합":6,"간판":1,"리창":1,"전신":1,"신주":1,"자동":1,"동판":1,"판매":1,"매기":1,"기처":1,"처럼":2,"넘어":3,"어질":1,"있는":5,"물체":1,"체에":1,"멀리":2,"어집":1,"집니":1,"장이":1,"간으":1,"주의":4,"의하":4,"량을":1,"소의":1,"위치":2,"치는":1,"모든":1,"층의":1,"버튼":1,"튼을":1,"눌러":1,"가장":1,"추는":1,"층에":1,"내린":1,"용해":1,"갇혔":1,"혔다":1,"비상":4,"호출":1,"튼이":1,"인터":1,"터폰":1,"폰으":1,"조를":1,"요청":1,"청합":1,"났을":1,"타고":2,"교에":1,"책상":1,"잡습":1,"선생":1,"생님":1,"님의":1,"질서":1,"서를":1,"지키":1,"키며":1,"장으":1,"출입":1,"입문":1,"몰리":3,"않도":3,"도록":3,"차례":1,"례로":1,"백화":1,"화점":1,"마트":1,"트에":1,"진열":1,"열대":1,"대에":2,"장바":1,"바구":1,"구니":1,"니나":1,"방으":1,"단이":1,"근처":1,"처로":2,"가서":1,"낮추":1,"추고":2,"구로":2,"한꺼":2,"꺼번":2,"번에":2,"극장":1,"경기":1,"기장":1,"멈출":1,"때까":1,"자리":1,"무릅":1,"피하":2,"전철":1,"철을":1,"손잡":1,"잡이":1,"둥을":1,"잡아":1,"지지":2,"철이":1,"추더":1,"더라":1,"라도":1,"마음":1,"음대":1,"대로":1,"열고":1,"선로":1,"로로":1,"어내":1,"내리":1,"매우":1,"위험":3,"험합":1,"송에":1,"운전":1,"상등":1,"등을":2,"켜고":1,"서서":1,"서히":1,"속도":1,"도를":1,"줄여":1,"도로":1,"오른":1,"른쪽":1,"쪽에":1,"차를":1,"세웁":1,"웁니":1,"라디":3,"디오":3,"오로":1,"보를":2,"들으":1,"으며":1,"열쇠":1,"쇠를":1,"꽂아":1,"잠그":1,"그지":1,"않은":2,"채":1,"리나":1,"고가":1,"가도":1,"위":1,"터널":1,"림에":1,"전한":3,"곳으":2,"빠져":1,"져나":1,"나갑":1,"갑니":2,"산이":1,"바다":1,"다에":1,"산에":1,"산사":1,"사태":1,"태나":1,"낙석":1,"일어":1,"어날":1,"급경":1,"경사":1,"사지":1,"지를":1,"해안":1,"진을":1,"느꼈":1,"꼈거":1,"진해":1,"해일":1,"특보":1,"보가":1,"발령":1,"령되":1,"되면":1,"어진":1,"높은":2,"빨리":1,"몸이":1,"불편":1,"편한":1,"웃과":1,"함께":2,"노약":1,"약자":1,"장애":1,"애인":1,"혼자":1,"하기":2,"웃이":1,"피를":1,"돕습":1,"부상":2,"상자":2,"자가":2,"서로":1,"도와":1,"응급":3,"급처":3,"처치":3,"치를":3,"및":7,"후":7,"안":1,"점검":3,"래처":1,"호할":1,"간을":1,"정해":2,"등에":1,"다치":1,"치지":1,"두꺼":1,"꺼운":1,"내화":1,"화를":1,"준비":2,"재를":1,"일으":1,"으킬":1,"난로":1,"로나":1,"험물":1,"물은":1,"하여":1,"관리":1,"리합":1,"선반":1,"반이":1,"곳의":1,"무거":1,"거운":1,"건은":1,"옮기":1,"기고":1,"가구":1,"구는":1,"벽에":1,"고정":1,"않게":1,"물의":1,"벽이":1,"바닥":1,"닥에":1,"금이":1,"가":1,"는지":3,"둥이":1,"외벽":1,"손상":2,"상되":2,"되었":2,"었는":2,"검하":1,"요하":1,"보수":1,"수합":1,"스와":1,"기를":1,"하는":2,"법을":3,"알아":2,"상용":1,"용품":1,"진에":1,"품을":1,"비하":1,"보관":1,"사용":2,"족과":2,"인합":2,"품에":1,"생수":1,"상식":1,"식량":1,"약품":1,"손전":1,"전등":1,"등과":1,"여분":1,"분의":1,"건전":1,"전지":1,"휴대":1,"대용":1,"대전":1,"전화":1,"보조":1,"조배":1,"배터":1,"터리":1,"방한":1,"한용":1,"개인":1,"상비":1,"비약":1,"포함":1,"함합":1,"품은":1,"지고":1,"가기":1,"쉬운":1,"곳에":1,"유통":1,"통기":1,"기한":2,"한과":1,"상태":1,"태를":1,"주기":1,"기적":1,"적으":1,"검합":1,"나면":2,"려울":1,"다시":1,"만날":1,"구성":1,"성원":1,"모두":1,"두가":1,"로를":1,"다른":1,"지역":1,"역에":1,"사는":1,"친척":1,"척이":1,"지인":1,"인을":1,"공통":1,"락처":1,"두면":1,"간":1,"데":1,"인과":1,"피한":1,"뒤에":1,"다친":1,"발견":1,"견하":1,"고하":1,"너진":1,"물에":1,"갇힌":1,"람을":1,"조대":1,"집으":1,"돌아":1,"아갈":1,"올":1,"전이":1,"인되":2,"되기":1,"전에":1,"아가":1,"험이":1,"스가":1,"새지":1,"인한":1,"어갑":1,"냄새":1,"새가":1,"켜거":1,"스위":1,"조작":1,"작하":1,"환기":1,"회사":1,"사나":1,"락합":1,"설이":1,"이상":1,"상이":1,"정확":1,"확한":1,"tv":1,"정부":1,"부와":1,"지방":1,"방자":1,"자치":1,"치단":1,"단체":1,"체가":1,"알리":1,"사실":1,"실이":1,"되지":1,"소문":1,"발표":1,"표와":1,"보에":1,"귀를":1,"기울":1,"울이":1,"이고":1,"피소":1,"자의":1},
+};
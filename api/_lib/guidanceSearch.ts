@@ -0,0 +1,91 @@
+// api/_lib/guidanceSearch.ts
+// 지진 행동요령 지식베이스 색인 형식과 검색 (BM25)
+// - 색인은 빌드 때 scripts/build-guidance-index.ts 가 만들어 guidanceIndex.ts 로 저장
+// - 한국어 형태소 분석기 없이 한글은 음절 2-gram, 영문·숫자는 단어 단위로 자름
+//   ("엘리베이터에서" → 엘리, 리베, … 처럼 조사가 붙어도 앞부분이 겹쳐 검색됨)
+
+export const GUIDANCE_INDEX_FORMAT_VERSION = 1;
+
+export interface GuidanceChunk {
+  // 문서 id + 순번 (예: safekorea-earthquake-actions#6)
+  id: string;
+  title: string;
+  // 발행 기관
+  source: string;
+  url: string;
+  // 문서 안의 소제목
+  section: string;
+  text: string;
+  // 토큰별 등장 횟수 (제목·소제목 포함)
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface GuidanceIndexFile {
+  version: number;
+  chunks: GuidanceChunk[];
+  // 토큰이 들어 있는 조각 수
+  docFreq: Record<string, number>;
+  avgLength: number;
+}
+
+export interface GuidanceHit {
+  chunk: GuidanceChunk;
+  score: number;
+}
+
+// BM25 매개변수
+const K1 = 1.2;
+const B = 0.75;
+
+// 1위 점수의 이 비율에 못 미치는 조각은 버림 (우연히 몇 토큰만 겹친 조각)
+const RELATIVE_CUTOFF = 0.35;
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.normalize('NFC').toLowerCase().match(/[가-힣]+|[0-9a-z]+/g) ?? []) {
+    if (!/^[가-힣]/.test(word) || word.length === 1) {
+      tokens.push(word);
+      continue;
+    }
+    for (let i = 0; i + 1 < word.length; i++) tokens.push(word.slice(i, i + 2));
+  }
+  return tokens;
+}
+
+export function countTerms(tokens: string[]): Record<string, number> {
+  const terms: Record<string, number> = {};
+  for (const t of tokens) terms[t] = (terms[t] ?? 0) + 1;
+  return terms;
+}
+
+// 질문과 관련 있는 조각을 점수순으로
+// minScore 는 질문 토큰 하나당 평균 점수 – 질문이 길수록 우연히 겹치는 토큰이 많아지므로
+export function searchGuidance(
+  index: GuidanceIndexFile,
+  query: string,
+  { limit = 3, minScore = 0.6 }: { limit?: number; minScore?: number } = {},
+): GuidanceHit[] {
+  const queryTerms = [...new Set(tokenize(query))].filter((t) => index.docFreq[t]);
+  if (queryTerms.length === 0) return [];
+
+  const n = index.chunks.length;
+  const threshold = minScore * Math.sqrt(queryTerms.length);
+
+  const hits = index.chunks
+    .map((chunk) => {
+      let score = 0;
+      for (const t of queryTerms) {
+        const tf = chunk.terms[t];
+        if (!tf) continue;
+        const df = index.docFreq[t];
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * chunk.length) / index.avgLength));
+      }
+      return { chunk, score };
+    })
+    .filter((hit) => hit.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+  const cutoff = (hits[0]?.score ?? 0) * RELATIVE_CUTOFF;
+  return hits.filter((hit) => hit.score >= cutoff).slice(0, limit);
+}
@@ -0,0 +1,261 @@
+// api/_lib/kmaEarthquake.ts
+// 기상청 지진 통보 파싱 (네트워크/DB 없음 – 수집 엔드포인트와 scripts/ingest-earthquakes 에서 공용)
+// - kma_api: 공공데이터포털 기상청 지진정보 조회서비스(EqkInfoService/getEqkMsg) JSON 응답
+// - kma_notice: 기상청 지진정보 통보문 텍스트 ("발생시각 : …" 형식)
+// 시각은 모두 KST 로 오므로 +09:00 을 붙여 ISO 문자열로 바꿈
+import { calcDistanceKm } from '../../src/lib/geo';
+
+// 거리 계산 기준점 (파주시청)
+export const PAJU_CENTER = { lat: 37.7599, lon: 126.78 };
+
+export type BulletinSource = 'kma_api' | 'kma_notice';
+
+// 같은 지진에 대해 조기경보 → 속보 → 정밀분석 → 지진정보 → 재통보 순으로 정확해짐
+export type BulletinKind = 'early_warning' | 'flash' | 'detailed' | 'info' | 'reissue';
+
+export const BULLETIN_RANK: Record<BulletinKind, number> = {
+  early_warning: 1,
+  flash: 1,
+  detailed: 2,
+  info: 3,
+  reissue: 4,
+};
+
+export interface EarthquakeBulletin {
+  source: BulletinSource;
+  bulletinId: string;
+  kind: BulletinKind;
+  issuedAt: string;
+  occurredAt: string;
+  lat: number;
+  lon: number;
+  location: string;
+  magnitude: number;
+  depth: number | null;
+  distanceFromPaju: number;
+}
+
+export interface BulletinParseResult {
+  bulletins: EarthquakeBulletin[];
+  // 건너뛴 통보 (국외 지진 등)
+  skipped: string[];
+  errors: string[];
+}
+
+// EqkInfoService fcTp (통보 종류) – 2/12(국외)는 파주와 무관해 건너뜀
+const FC_TP_KINDS: Record<number, BulletinKind> = {
+  3: 'info',
+  5: 'reissue',
+  11: 'early_warning',
+  13: 'detailed',
+  14: 'flash',
+};
+const FOREIGN_FC_TP = [2, 12];
+
+// 한반도 주변 (이 밖이면 좌표가 잘못된 것으로 봄)
+const KOREA_BOUNDS = { minLat: 32, maxLat: 40, minLon: 123, maxLon: 132 };
+
+function toNumber(value: unknown): number | null {
+  if (value == null) return null;
+  const n = typeof value === 'number' ? value : Number(String(value).replace(/[^0-9.-]/g, ''));
+  return String(value).trim() === '' || !Number.isFinite(n) ? null : n;
+}
+
+// 20231026081422 / 202310260820 → 2023-10-26T08:14:22+09:00
+export function kstDigitsToIso(value: unknown): string | null {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  if (digits.length !== 12 && digits.length !== 14) return null;
+  const part = (from: number, to: number) => digits.slice(from, to);
+  const seconds = digits.length === 14 ? part(12, 14) : '00';
+  const iso = `${part(0, 4)}-${part(4, 6)}-${part(6, 8)}T${part(8, 10)}:${part(10, 12)}:${seconds}+09:00`;
+  return Number.isNaN(Date.parse(iso)) ? null : iso;
+}
+
+function buildBulletin(
+  fields: Omit<EarthquakeBulletin, 'distanceFromPaju'>,
+): { bulletin?: EarthquakeBulletin; error?: string } {
+  const { lat, lon, magnitude } = fields;
+  if (lat < KOREA_BOUNDS.minLat || lat > KOREA_BOUNDS.maxLat || lon < KOREA_BOUNDS.minLon || lon > KOREA_BOUNDS.maxLon) {
+    return { error: `진앙 좌표가 한반도 범위 밖입니다: ${lat}, ${lon}` };
+  }
+  if (magnitude <= 0 || magnitude >= 10) return { error: `규모 값이 올바르지 않습니다: ${magnitude}` };
+
+  const distance = calcDistanceKm(PAJU_CENTER.lat, PAJU_CENTER.lon, lat, lon);
+  return { bulletin: { ...fields, distanceFromPaju: Math.round(distance * 10) / 10 } };
+}
+
+// ---- EqkInfoService JSON ----
+
+interface EqkMsgItem {
+  fcTp?: number | string;
+  tmFc?: number | string;
+  tmSeq?: number | string;
+  tmEqk?: number | string;
+  lat?: number | string;
+  lon?: number | string;
+  loc?: string;
+  mt?: number | string;
+  dep?: number | string;
+}
+
+interface EqkMsgResponse {
+  response?: {
+    header?: { resultCode?: string; resultMsg?: string };
+    body?: { items?: { item?: EqkMsgItem | EqkMsgItem[] } | '' };
+  };
+}
+
+// 결과 없음(03)은 오류가 아님
+const NO_DATA_CODE = '03';
+
+export function parseKmaApiResponse(json: unknown): BulletinParseResult {
+  const result: BulletinParseResult = { bulletins: [], skipped: [], errors: [] };
+  const response = (json as EqkMsgResponse | null)?.response;
+  const code = response?.header?.resultCode;
+
+  if (!response || code == null) {
+    result.errors.push('EqkInfoService 응답 형식이 아닙니다.');
+    return result;
+  }
+  if (code === NO_DATA_CODE) return result;
+  if (code !== '00') {
+    result.errors.push(`EqkInfoService 오류 ${code}: ${response.header?.resultMsg ?? ''}`.trim());
+    return result;
+  }
+
+  const raw = response.body?.items ? response.body.items.item : undefined;
+  const items = raw == null ? [] : Array.isArray(raw) ? raw : [raw];
+
+  for (const item of items) {
+    const id = `${item.tmFc ?? '?'}-${item.tmSeq ?? '?'}`;
+    const fcTp = toNumber(item.fcTp);
+
+    if (fcTp != null && FOREIGN_FC_TP.includes(fcTp)) {
+      result.skipped.push(`${id}: 국외지진`);
+      continue;
+    }
+    const kind = fcTp != null ? FC_TP_KINDS[fcTp] : undefined;
+    if (!kind) {
+      result.skipped.push(`${id}: 알 수 없는 통보 종류 ${item.fcTp}`);
+      continue;
+    }
+
+    const issuedAt = kstDigitsToIso(item.tmFc);
+    const occurredAt = kstDigitsToIso(item.tmEqk);
+    const lat = toNumber(item.lat);
+    const lon = toNumber(item.lon);
+    const magnitude = toNumber(item.mt);
+    if (!issuedAt || !occurredAt || lat == null || lon == null || magnitude == null || item.tmSeq == null) {
+      result.errors.push(`${id}: 필수 항목(발표시각/발생시각/위경도/규모/발표번호)이 없습니다.`);
+      continue;
+    }
+
+    const { bulletin, error } = buildBulletin({
+      source: 'kma_api',
+      bulletinId: `${String(item.tmFc)}-${String(item.tmSeq)}`,
+      kind,
+      issuedAt,
+      occurredAt,
+      lat,
+      lon,
+      location: (item.loc ?? '').trim() || '위치 정보 없음',
+      magnitude,
+      depth: toNumber(item.dep),
+    });
+    if (error) result.errors.push(`${id}: ${error}`);
+    if (bulletin) result.bulletins.push(bulletin);
+  }
+
+  return result;
+}
+
+// ---- 통보문 텍스트 ----
+
+// "2026년 10월 12일 13시 58분 41초" / "2026/10/12 13:58:41" / "2026-10-12 13:58" → ISO
+export function parseKstText(value: string): string | null {
+  const m = value.match(/(\d{4})\D+(\d{1,2})\D+(\d{1,2})\D+(\d{1,2})\D+(\d{1,2})(?:\D+(\d{1,2}))?/);
+  if (!m) return null;
+  const pad = (v: string | undefined) => (v ?? '0').padStart(2, '0');
+  return kstDigitsToIso(`${m[1]}${pad(m[2])}${pad(m[3])}${pad(m[4])}${pad(m[5])}${pad(m[6])}`);
+}
+
+const NOTICE_KIND_PATTERNS: [RegExp, BulletinKind][] = [
+  [/재통보/, 'reissue'],
+  [/조기경보/, 'early_warning'],
+  [/속보/, 'flash'],
+  [/정밀/, 'detailed'],
+  [/지진정보/, 'info'],
+];
+
+// "라벨 : 값" 줄 모음 (같은 라벨이 여러 번이면 처음 것)
+function noticeFields(text: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(/^\s*([^:：]+?)\s*[:：]\s*(.*)$/);
+    if (!m) continue;
+    const label = m[1].replace(/\s/g, '');
+    if (!fields.has(label)) fields.set(label, m[2].trim());
+  }
+  return fields;
+}
+
+// 통보문 하나 (여러 개면 빈 줄 두 개 이상 또는 "=====" 로 구분)
+export function parseKmaNotice(text: string): BulletinParseResult {
+  const result: BulletinParseResult = { bulletins: [], skipped: [], errors: [] };
+  const blocks = text
+    .split(/\r?\n(?:[ \t]*={3,}[ \t]*|[ \t]*\r?\n[ \t]*)\r?\n/)
+    .map((b) => b.trim())
+    .filter(Boolean);
+
+  blocks.forEach((block, i) => {
+    const label = `통보문 ${i + 1}`;
+    const fields = noticeFields(block);
+    const title = block.split(/\r?\n/)[0];
+    const pick = (...names: string[]) => names.map((n) => fields.get(n)).find((v) => v != null);
+
+    if (/국외/.test(title)) {
+      result.skipped.push(`${label}: 국외지진`);
+      return;
+    }
+    const kind = NOTICE_KIND_PATTERNS.find(([re]) => re.test(title))?.[1] ?? 'info';
+
+    const issuedRaw = pick('발표시각', '발표시간', '통보시각');
+    const occurredRaw = pick('발생시각', '발생시간', '진앙시');
+    const issuedAt = issuedRaw ? parseKstText(issuedRaw) : null;
+    const occurredAt = occurredRaw ? parseKstText(occurredRaw) : null;
+
+    // 위치 줄 안의 "(위도 38.20 N, 경도 127.07 E)" 또는 별도 위도/경도 줄
+    const locationRaw = pick('발생위치', '진앙', '위치') ?? '';
+    const inline = locationRaw.match(/위도\s*([\d.]+)\s*°?\s*N?\s*,\s*경도\s*([\d.]+)/);
+    const lat = toNumber(inline?.[1] ?? pick('위도'));
+    const lon = toNumber(inline?.[2] ?? pick('경도'));
+    const location = locationRaw.replace(/\(\s*위도[^)]*\)/, '').trim();
+
+    const magnitude = toNumber(pick('규모'));
+    const depth = toNumber(pick('발생깊이', '깊이'));
+
+    if (!issuedAt || !occurredAt || lat == null || lon == null || magnitude == null) {
+      result.errors.push(`${label}: 필수 항목(발표시각/발생시각/위경도/규모)이 없습니다.`);
+      return;
+    }
+
+    // 통보번호가 없으면 발표시각으로 식별
+    const bulletinId = pick('통보번호', '발표번호') ?? issuedAt;
+    const { bulletin, error } = buildBulletin({
+      source: 'kma_notice',
+      bulletinId,
+      kind,
+      issuedAt,
+      occurredAt,
+      lat,
+      lon,
+      location: location || '위치 정보 없음',
+      magnitude,
+      depth,
+    });
+    if (error) result.errors.push(`${label}: ${error}`);
+    if (bulletin) result.bulletins.push(bulletin);
+  });
+
+  return result;
+}
@@ -0,0 +1,15 @@
+// api/_lib/supabaseAdmin.ts
+// 서버 전용 Supabase 클라이언트 (service role – RLS 우회, 브라우저 번들에 넣지 말 것)
+// 수집 작업(ingest-earthquakes)처럼 쓰기 권한이 필요한 곳에만 사용 – 공개 조회는 supabasePublic.ts
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../../src/lib/database.types';
+
+export function createServiceClient() {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY 환경변수가 필요합니다.');
+
+  return createClient<Database>(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,15 @@
+// api/_lib/supabasePublic.ts
+// 서버에서 쓰는 anon Supabase 클라이언트 (RLS 적용 – 공개 조회만 가능)
+// 누구나 부를 수 있는 엔드포인트(/api/chat 도구 등)는 service role 대신 이 클라이언트를 씀
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../../src/lib/database.types';
+
+export function createAnonClient() {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_ANON_KEY ?? process.env.VITE_SUPABASE_ANON_KEY;
+  if (!url || !key) throw new Error('SUPABASE_URL / SUPABASE_ANON_KEY 환경변수가 필요합니다.');
+
+  return createClient<Database>(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -1,43 +1,179 @@
-// import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
 import Groq from 'groq-sdk';
+import type { ChatCompletionMessageParam } from 'groq-sdk/resources/chat/completions';
+import {
+  fallbackSummary,
+  splitHistory,
+  SUMMARY_SYSTEM_PROMPT,
+  summaryMessage,
+  transcriptForSummary,
+  validateMessages,
+  type ChatMessage,
+} from './_lib/chatHistory';
+import { guidanceMessage, retrieveGuidance } from './_lib/guidance';
+import { CHAT_TOOLS, runChatTool, TOOLS_SYSTEM_PROMPT } from './_lib/chatTools';
+import { createAnonClient } from './_lib/supabasePublic';
 
 const groq = new Groq({
   apiKey: process.env.GROQ_API_KEY, // Vercel 환경변수에서 가져옴
 });
 
-export default async function handler(req: any, res: any) {
+const MODEL = 'llama-3.1-8b-instant';
+
+// 도구 호출 → 결과 → 재호출을 반복하는 최대 횟수
+// (마지막 호출은 tool_choice 'none' 으로 답하게 하고, 그래도 도구를 요청하면 실행하지 않고 끝냄)
+const MAX_TOOL_ROUNDS = 2;
+
+// 안전 가이드 역할을 고정하는 system 메시지
+const systemMessage = {
+  role: 'system' as const,
+  content:
+    '너는 한국 파주시 기준의 지진 대피 안전 가이드야. ' +
+    '최대한 간단하고 실질적인 행동요령을 한국어로 설명하고, 불필요하게 겁을 주지 말고 침착하게 안내해.',
+};
+
+// SSE 이벤트
+// - sources: 답변 근거로 넣은 행동요령 문단 { sources } (답변보다 먼저)
+// - tool: 도구 조회 결과 ChatToolResult (대피소 카드 등으로 표시)
+// - delta: 답변 조각 { text }
+// - done: 정상 종료 { finishReason }
+// - error: 스트림 도중 실패 { error } (그때까지 받은 조각은 클라이언트가 보존)
+function sendEvent(res: VercelResponse, event: 'sources' | 'tool' | 'delta' | 'done' | 'error', data: object) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// 도구는 공개 조회만 하므로 anon 키 (RLS 적용) – 환경변수가 없으면 도구 없이 답변만
+function toolClient() {
+  try {
+    return createAnonClient();
+  } catch (err) {
+    console.error('[chat] tools disabled', err);
+    return null;
+  }
+}
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// 예산을 넘긴 오래된 턴 → 요약문 (요약 호출이 실패해도 질문 목록은 남김)
+async function summarize(older: ChatMessage[]): Promise<string> {
+  try {
+    const completion = await groq.chat.completions.create({
+      model: MODEL,
+      messages: [
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        { role: 'user', content: transcriptForSummary(older) },
+      ],
+      temperature: 0,
+      max_tokens: 200,
+    });
+    return completion.choices[0]?.message?.content?.trim() || fallbackSummary(older);
+  } catch (err) {
+    console.error('[chat] summary failed', err);
+    return fallbackSummary(older);
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     res.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
+  const validated = validateMessages((req.body as { messages?: unknown } | undefined)?.messages);
+  if (!validated.ok) {
+    res.status(400).json({ error: validated.error });
+    return;
+  }
+
+  // 클라이언트가 답변을 중단(연결 종료)하면 Groq 스트림도 끊음
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
   try {
-    const { messages } = req.body as {
-      messages: { role: 'user' | 'assistant' | 'system'; content: string }[];
-    };
-
-    // 안전 가이드 역할을 고정하는 system 메시지
-    const systemMessage = {
-      role: 'system' as const,
-      content:
-        '너는 한국 파주시 기준의 지진 대피 안전 가이드야. ' +
-        '최대한 간단하고 실질적인 행동요령을 한국어로 설명하고, 불필요하게 겁을 주지 말고 침착하게 안내해.',
-    };
+    const guidance = retrieveGuidance(validated.messages);
+    sendEvent(res, 'sources', { sources: guidance.sources });
 
-    const completion = await groq.chat.completions.create({
-      model: 'llama-3.1-8b-instant',
-      messages: [systemMessage, ...messages],
-      temperature: 0.3,
-      max_tokens: 512,
-    });
+    const { older, recent } = splitHistory(validated.messages);
+    const history = older.length > 0 ? [summaryMessage(await summarize(older)), ...recent] : recent;
+
+    const supabase = toolClient();
+    const messages: ChatCompletionMessageParam[] = [
+      systemMessage,
+      ...(supabase ? [{ role: 'system' as const, content: TOOLS_SYSTEM_PROMPT }] : []),
+      guidanceMessage(guidance),
+      ...history,
+    ];
+
+    let finishReason: string | null = null;
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const stream = await groq.chat.completions.create(
+        {
+          model: MODEL,
+          messages,
+          temperature: 0.3,
+          max_tokens: 512,
+          stream: true,
+          ...(supabase ? { tools: CHAT_TOOLS, tool_choice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none' } : {}),
+        },
+        { signal: abort.signal },
+      );
+
+      let content = '';
+      const calls: PendingToolCall[] = [];
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        if (choice?.delta?.content) {
+          content += choice.delta.content;
+          sendEvent(res, 'delta', { text: choice.delta.content });
+        }
+        // 도구 호출은 index 별로 이름/인자가 조각나서 옴
+        for (const part of choice?.delta?.tool_calls ?? []) {
+          const call = (calls[part.index] ??= { id: '', name: '', arguments: '' });
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.name += part.function.name;
+          if (part.function?.arguments) call.arguments += part.function.arguments;
+        }
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+      }
 
-    const reply =
-      completion.choices[0]?.message?.content ??
-      '지금은 답변을 생성하지 못했습니다. 잠시 후 다시 시도해주세요.';
+      const pending = calls.filter(Boolean);
+      if (!supabase || pending.length === 0 || round >= MAX_TOOL_ROUNDS) break;
 
-    res.status(200).json({ reply });
-  } catch (err: any) {
-    console.error(err);
-    res.status(500).json({ error: 'Groq 요청 중 오류가 발생했습니다.' });
+      messages.push({
+        role: 'assistant',
+        content: content || null,
+        tool_calls: pending.map((c) => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } })),
+      });
+      for (const call of pending) {
+        const result = await runChatTool(supabase, call.name, call.arguments);
+        if (result) sendEvent(res, 'tool', result);
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify(result ?? { error: `알 수 없는 도구입니다: ${call.name}` }),
+        });
+      }
+    }
+    sendEvent(res, 'done', { finishReason });
+  } catch (err) {
+    if (!abort.signal.aborted) {
+      console.error(err);
+      sendEvent(res, 'error', { error: 'Groq 요청 중 오류가 발생했습니다.' });
+    }
+  } finally {
+    res.end();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,89 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  parseKmaApiResponse,
+  parseKmaNotice,
+  type BulletinParseResult,
+} from './_lib/kmaEarthquake';
+import { storeBulletins } from './_lib/earthquakeStore';
+import { createServiceClient } from './_lib/supabaseAdmin';
+
+// 기상청 지진정보 조회서비스 (공공데이터포털)
+const KMA_EQK_URL = 'https://apis.data.go.kr/1360000/EqkInfoService/getEqkMsg';
+
+// 조회 기간 (서비스 제한: 최대 3일)
+const LOOKBACK_DAYS = 2;
+
+// KST 기준 YYYYMMDD
+function kstDate(offsetDays: number) {
+  const d = new Date(Date.now() + 9 * 3600_000 + offsetDays * 86400_000);
+  return d.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+async function fetchKmaBulletins(): Promise<BulletinParseResult> {
+  const apiKey = process.env.KMA_API_KEY;
+  if (!apiKey) throw new Error('KMA_API_KEY 환경변수가 필요합니다.');
+
+  const params = new URLSearchParams({
+    serviceKey: apiKey,
+    pageNo: '1',
+    numOfRows: '100',
+    dataType: 'JSON',
+    fromTmFc: kstDate(-LOOKBACK_DAYS),
+    toTmFc: kstDate(0),
+  });
+  const res = await fetch(`${KMA_EQK_URL}?${params}`);
+  if (!res.ok) throw new Error(`EqkInfoService HTTP ${res.status}`);
+  return parseKmaApiResponse(await res.json());
+}
+
+// POST 본문: EqkInfoService JSON 응답 또는 통보문 텍스트
+function parseBody(body: unknown): BulletinParseResult {
+  if (typeof body === 'string') {
+    const text = body.trim();
+    if (text.startsWith('{')) {
+      try {
+        return parseKmaApiResponse(JSON.parse(text));
+      } catch {
+        return { bulletins: [], skipped: [], errors: ['JSON 형식이 올바르지 않습니다.'] };
+      }
+    }
+    return parseKmaNotice(text);
+  }
+  return parseKmaApiResponse(body);
+}
+
+// GET: Vercel Cron 이 주기적으로 호출 → 최근 기상청 통보 수집
+// POST: 통보문/JSON 을 직접 넣어 수집 (수동 보정용)
+// ?dryRun=1 이면 DB 에 쓰지 않고 결과만 반환
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  // Vercel Cron 은 Authorization: Bearer $CRON_SECRET 를 붙여 호출
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  const dryRun = req.query.dryRun === '1';
+
+  try {
+    const parsed = req.method === 'GET' ? await fetchKmaBulletins() : parseBody(req.body);
+    const report = await storeBulletins(createServiceClient(), parsed.bulletins, { dryRun });
+
+    res.status(200).json({
+      dryRun,
+      parsed: parsed.bulletins.length,
+      inserted: report.inserted,
+      revised: report.revised,
+      skipped: [...parsed.skipped, ...report.skipped.map((s) => `${s.bulletinId}: ${s.reason}`)],
+      errors: parsed.errors,
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: '지진 통보 수집 중 오류가 발생했습니다.' });
+  }
+}
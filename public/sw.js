@@ -0,0 +1,129 @@
+// public/sw.js
+// 앱 셸 / 정적 자산 캐시용 서비스 워커
+// - 설치 시 앱 셸 + 빌드 매니페스트(asset-manifest.json)의 /assets/* + 오프라인 데이터(/data/*) 미리 저장
+//   → 첫 방문 직후 오프라인이 되어도 지연 로딩 청크까지 열림
+// - 페이지 이동(navigation): 네트워크 우선, 실패 시 캐시된 index.html (SPA 라우팅 유지)
+// - /assets/* (Vite 해시 파일): 캐시 우선 – 파일명이 바뀌면 새로 받음
+// - 그 외 같은 출처 GET: stale-while-revalidate
+// - Supabase / 네이버 지도 등 외부 요청은 건드리지 않음 (대피소 데이터는 IndexedDB에 저장)
+
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `paju-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `paju-runtime-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', '/logo.jpg', '/image.png', '/charater.jpg'];
+
+// vite.config.ts 의 build.manifest 로 생성되는 파일
+const ASSET_MANIFEST_URL = '/asset-manifest.json';
+
+// 오프라인 경로 탐색 / 주소 검색용 데이터 (src/lib/routing.ts, src/lib/geocoder/offline.ts)
+const DATA_URLS = ['/data/paju-roads.json', '/data/paju-addresses.json'];
+
+// 매니페스트 항목의 JS/CSS/정적 자산 경로 수집
+async function fetchAssetUrls() {
+  const response = await fetch(ASSET_MANIFEST_URL, { cache: 'no-cache' });
+  if (!response.ok) return [];
+
+  const manifest = await response.json();
+  const urls = new Set();
+  for (const chunk of Object.values(manifest)) {
+    urls.add(`/${chunk.file}`);
+    for (const file of chunk.css ?? []) urls.add(`/${file}`);
+    for (const file of chunk.assets ?? []) urls.add(`/${file}`);
+  }
+  return [...urls];
+}
+
+async function precache() {
+  const cache = await caches.open(SHELL_CACHE);
+  // 셸은 하나라도 실패하면 설치 실패 (반쯤 저장된 셸로 오프라인 진입 방지)
+  await cache.addAll(SHELL_URLS);
+
+  const assetUrls = await fetchAssetUrls().catch(() => []);
+  await cache.addAll(assetUrls);
+
+  // 데이터 파일은 배포에 없을 수 있으므로 개별 실패는 무시 (앱이 직선거리 / 온라인 검색으로 대체)
+  await Promise.all(DATA_URLS.map((url) => cache.add(url).catch(() => undefined)));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function networkFirstShell(request) {
+  try {
+    const response = await fetch(request);
+    // 오류 페이지 / 리다이렉트 응답으로 캐시된 셸을 덮어쓰지 않음
+    if (response.ok && response.type === 'basic') {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match('/index.html');
+    return cached ?? Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+
+  return cached ?? network;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  // 서버리스 API 응답은 캐시하지 않음
+  if (url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  event.respondWith(staleWhileRevalidate(request));
+});
@@ -0,0 +1,157 @@
+// scripts/build-address-index.ts
+// 도로명주소 위치정보요약DB(entrc_*.txt) → 오프라인 지오코더 색인(public/data/paju-addresses.json)
+//
+// 사용법:
+//   juso.go.kr > 주소정보 제공 > 위치정보요약DB (경기도) 내려받기
+//   npm run build:address-index -- entrc_gyunggi.txt [출력 경로]
+//
+// 원본은 파이프(|) 구분, CP949 인코딩, 좌표계는 UTM-K(EPSG:5179)
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import proj4 from 'proj4';
+import {
+  ADDRESS_INDEX_FORMAT_VERSION,
+  type AddressEntry,
+  type AddressIndexFile,
+} from '../src/lib/geocoder/addressIndex';
+import { isInPaju } from '../src/lib/pajuBoundary';
+
+// 파주시 시군구코드
+const PAJU_SIG_CODE = '41480';
+
+// 위치정보요약DB 컬럼 위치 (0부터)
+const COL = {
+  sigCode: 0,
+  emdName: 5,
+  roadName: 7,
+  underground: 8,
+  mainNo: 9,
+  subNo: 10,
+  buildingName: 11,
+  x: 16,
+  y: 17,
+} as const;
+
+const UTMK =
+  '+proj=tmerc +lat_0=38 +lon_0=127.5 +k=0.9996 +x_0=1000000 +y_0=2000000 +ellps=GRS80 +units=m +no_defs';
+const toWgs84 = proj4(UTMK, 'WGS84');
+
+interface BuildingRows {
+  road: number;
+  mainNo: number;
+  subNo: number;
+  emd: number;
+  name: string | null;
+  xs: number[];
+  ys: number[];
+}
+
+function main() {
+  const [input, output = 'public/data/paju-addresses.json'] = process.argv.slice(2);
+  if (!input) {
+    console.error('usage: build-address-index <entrc_*.txt> [output.json]');
+    process.exit(1);
+  }
+
+  const text = new TextDecoder('euc-kr').decode(readFileSync(input));
+
+  const roads: string[] = [];
+  const roadIds = new Map<string, number>();
+  const emds: string[] = [];
+  const emdIds = new Map<string, number>();
+
+  const intern = (table: string[], ids: Map<string, number>, value: string) => {
+    let id = ids.get(value);
+    if (id === undefined) {
+      id = table.length;
+      ids.set(value, id);
+      table.push(value);
+    }
+    return id;
+  };
+
+  // 한 건물에 출입구가 여러 개면 좌표 평균
+  const buildings = new Map<string, BuildingRows>();
+
+  let skipped = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const cols = line.split('|');
+    if (cols[COL.sigCode] !== PAJU_SIG_CODE) continue;
+
+    const x = Number(cols[COL.x]);
+    const y = Number(cols[COL.y]);
+    const mainNo = Number(cols[COL.mainNo]);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !mainNo) {
+      skipped++;
+      continue;
+    }
+
+    // 지하 건물은 같은 번호의 지상 주소와 구분하지 않음
+    const roadName = cols[COL.roadName].trim();
+    const subNo = Number(cols[COL.subNo]) || 0;
+    const key = `${roadName}|${mainNo}|${subNo}`;
+
+    let building = buildings.get(key);
+    if (!building) {
+      building = {
+        road: intern(roads, roadIds, roadName),
+        mainNo,
+        subNo,
+        emd: intern(emds, emdIds, cols[COL.emdName].trim()),
+        name: cols[COL.buildingName].trim() || null,
+        xs: [],
+        ys: [],
+      };
+      buildings.set(key, building);
+    }
+    building.xs.push(x);
+    building.ys.push(y);
+  }
+
+  const entries: AddressEntry[] = [];
+  let outside = 0;
+
+  for (const b of buildings.values()) {
+    const x = b.xs.reduce((s, v) => s + v, 0) / b.xs.length;
+    const y = b.ys.reduce((s, v) => s + v, 0) / b.ys.length;
+    const [lon, lat] = toWgs84.forward([x, y]);
+
+    // 좌표 오류(경계 밖) 행은 제외
+    if (!isInPaju(lat, lon)) {
+      outside++;
+      continue;
+    }
+
+    entries.push([
+      b.road,
+      b.mainNo,
+      b.subNo,
+      b.emd,
+      Number(lon.toFixed(6)),
+      Number(lat.toFixed(6)),
+      b.name,
+    ]);
+  }
+
+  const index: AddressIndexFile = {
+    format: ADDRESS_INDEX_FORMAT_VERSION,
+    builtAt: new Date().toISOString(),
+    source: input,
+    roads,
+    emds,
+    entries,
+  };
+
+  mkdirSync(dirname(output), { recursive: true });
+  writeFileSync(output, JSON.stringify(index));
+
+  console.log(
+    `buildings: ${entries.length}, roads: ${roads.length}, ` +
+      `skipped rows: ${skipped}, outside boundary: ${outside}`,
+  );
+  console.log(`written: ${output}`);
+}
+
+main();
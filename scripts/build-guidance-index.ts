@@ -0,0 +1,151 @@
+// scripts/build-guidance-index.ts
+// 공식 지진 행동요령 문서(scripts/data/guidance/*.md) → AI 가이드 검색 색인(api/_lib/guidanceIndex.ts)
+//
+// 사용법:
+//   npm run build:guidance-index -- [문서 폴더] [출력 경로]
+//   npm run check:guidance-index   (커밋된 색인이 문서와 같은지만 확인, npm run build 전에 prebuild 로 실행)
+//
+// 색인은 저장소에 커밋해 두고 문서를 고치면 함께 다시 만들어 커밋할 것
+//
+// 문서 형식: 맨 위 --- 사이에 title / source / url, 본문은 "## 소제목" 단위로 나눔
+// 국민재난안전포털·파주시 누리집의 안내문을 옮겨 적은 것이므로 원문이 바뀌면 함께 고칠 것
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import {
+  countTerms,
+  GUIDANCE_INDEX_FORMAT_VERSION,
+  tokenize,
+  type GuidanceChunk,
+  type GuidanceIndexFile,
+} from '../api/_lib/guidanceSearch';
+
+// 조각 하나의 최대 글자 수 – 넘으면 줄 단위로 나눔 (프롬프트에 3개까지 넣음)
+const MAX_CHUNK_CHARS = 500;
+
+interface GuidanceDoc {
+  id: string;
+  title: string;
+  source: string;
+  url: string;
+  sections: { heading: string; body: string }[];
+}
+
+function parseDoc(path: string): GuidanceDoc {
+  const text = readFileSync(path, 'utf8').replace(/\r\n/g, '\n');
+  const match = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/.exec(text);
+  if (!match) throw new Error(`${path}: 머리말(---)이 없습니다.`);
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const i = line.indexOf(':');
+    if (i > 0) meta[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+  }
+  for (const key of ['title', 'source', 'url']) {
+    if (!meta[key]) throw new Error(`${path}: 머리말에 ${key} 가 없습니다.`);
+  }
+
+  const sections: GuidanceDoc['sections'] = [];
+  for (const part of match[2].split(/^## /m).slice(1)) {
+    const [heading, ...rest] = part.split('\n');
+    const body = rest.join('\n').trim();
+    if (body) sections.push({ heading: heading.trim(), body });
+  }
+
+  return { id: basename(path, '.md'), title: meta.title, source: meta.source, url: meta.url, sections };
+}
+
+// 긴 소제목 본문은 줄(문장) 경계에서 나눔
+function splitBody(body: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const line of body.split('\n').filter((l) => l.trim())) {
+    if (current && current.length + line.length + 1 > MAX_CHUNK_CHARS) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const check = args.includes('--check');
+  const [input = 'scripts/data/guidance', output = 'api/_lib/guidanceIndex.ts'] = args.filter((a) => a !== '--check');
+
+  const files = readdirSync(input)
+    .filter((f) => f.endsWith('.md'))
+    .sort();
+  if (files.length === 0) {
+    console.error(`usage: build-guidance-index [문서 폴더] [output.ts] – ${input} 에 .md 문서가 없습니다.`);
+    process.exit(1);
+  }
+
+  const chunks: GuidanceChunk[] = [];
+  for (const file of files) {
+    const doc = parseDoc(join(input, file));
+    let seq = 0;
+    for (const { heading, body } of doc.sections) {
+      for (const text of splitBody(body)) {
+        const tokens = tokenize(`${doc.title} ${heading} ${text}`);
+        chunks.push({
+          id: `${doc.id}#${++seq}`,
+          title: doc.title,
+          source: doc.source,
+          url: doc.url,
+          section: heading,
+          text,
+          terms: countTerms(tokens),
+          length: tokens.length,
+        });
+      }
+    }
+  }
+
+  const docFreq: Record<string, number> = {};
+  for (const chunk of chunks) {
+    for (const t of Object.keys(chunk.terms)) docFreq[t] = (docFreq[t] ?? 0) + 1;
+  }
+
+  const index: GuidanceIndexFile = {
+    version: GUIDANCE_INDEX_FORMAT_VERSION,
+    chunks,
+    docFreq,
+    avgLength: Number((chunks.reduce((sum, c) => sum + c.length, 0) / chunks.length).toFixed(2)),
+  };
+
+  // 서버리스 함수에 그대로 번들되도록 TS 모듈로 저장 (한 줄에 한 조각)
+  const lines = [
+    '// api/_lib/guidanceIndex.ts',
+    '// 자동 생성 파일 – scripts/build-guidance-index.ts 로 다시 만들고 직접 고치지 말 것',
+    "import type { GuidanceIndexFile } from './guidanceSearch';",
+    '',
+    'export const GUIDANCE_INDEX: GuidanceIndexFile = {',
+    `  version: ${index.version},`,
+    `  avgLength: ${index.avgLength},`,
+    '  chunks: [',
+    ...index.chunks.map((c) => `    ${JSON.stringify(c)},`),
+    '  ],',
+    `  docFreq: ${JSON.stringify(index.docFreq)},`,
+    '};',
+    '',
+  ];
+  const content = lines.join('\n');
+
+  if (check) {
+    if (!existsSync(output) || readFileSync(output, 'utf8') !== content) {
+      console.error(`${output} 가 ${input} 문서와 다릅니다. npm run build:guidance-index 로 다시 만들어 커밋해 주세요.`);
+      process.exit(1);
+    }
+    console.log(`up to date: ${output}`);
+    return;
+  }
+
+  writeFileSync(output, content);
+
+  console.log(`documents: ${files.length}, chunks: ${chunks.length}, terms: ${Object.keys(docFreq).length}`);
+  console.log(`written: ${output}`);
+}
+
+main();
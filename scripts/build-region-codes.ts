@@ -0,0 +1,69 @@
+// scripts/build-region-codes.ts
+// 법정동코드 전체자료 → 파주시 지역 코드 표(src/data/pajuRegions.json)
+//
+// 사용법:
+//   code.go.kr > 법정동코드 목록조회 > 법정동코드 전체자료 내려받기 (법정동코드 전체자료.txt)
+//   npm run build:region-codes -- "법정동코드 전체자료.txt" [출력 경로]
+//
+// 원본은 탭 구분(법정동코드, 법정동명, 폐지여부), CP949 인코딩, 첫 줄은 헤더
+import { readFileSync, writeFileSync } from 'node:fs';
+import type { RegionCode, RegionLevel } from '../src/lib/regions';
+
+// 파주시 시군구코드
+const PAJU_SIG_CODE = '41480';
+
+// 10자리 코드 구조: 시도(2) + 시군구(3) + 읍면동(3) + 리(2)
+// 읍면동 3자리가 1xx 면 동, 2xx/3xx 면 읍/면
+function levelOf(code: string): RegionLevel {
+  if (code.slice(5) === '00000') return 'si';
+  if (code.slice(8) !== '00') return 'ri';
+  return code[5] === '1' ? 'dong' : 'eupmyeon';
+}
+
+function parentOf(code: string, level: RegionLevel): string | null {
+  if (level === 'si') return null;
+  if (level === 'ri') return `${code.slice(0, 8)}00`;
+  return `${code.slice(0, 5)}00000`;
+}
+
+function main() {
+  const [input, output = 'src/data/pajuRegions.json'] = process.argv.slice(2);
+  if (!input) {
+    console.error('usage: build-region-codes <법정동코드 전체자료.txt> [output.json]');
+    process.exit(1);
+  }
+
+  const text = new TextDecoder('euc-kr').decode(readFileSync(input));
+  const regions: RegionCode[] = [];
+  let abolished = 0;
+
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const [code, fullName, status] = line.split('\t').map((c) => c?.trim());
+    if (!code || !code.startsWith(PAJU_SIG_CODE)) continue;
+
+    if (status !== '존재') {
+      abolished++;
+      continue;
+    }
+
+    const level = levelOf(code);
+    // "경기도 파주시 문산읍 선유리" → "선유리"
+    const name = fullName.split(/\s+/).pop() ?? fullName;
+    regions.push({ code, name, level, parent: parentOf(code, level) });
+  }
+
+  regions.sort((a, b) => a.code.localeCompare(b.code));
+
+  // 저장소의 다른 데이터 파일처럼 한 줄에 한 지역
+  const lines = regions.map((r) => JSON.stringify(r));
+  const header = `{"source":${JSON.stringify(input)},"builtAt":"${new Date().toISOString()}","regions":[`;
+  writeFileSync(output, `${header}\n${lines.join(',\n')}\n]}\n`);
+
+  const count = (level: RegionLevel) => regions.filter((r) => r.level === level).length;
+  console.log(
+    `읍/면: ${count('eupmyeon')}, 동: ${count('dong')}, 리: ${count('ri')}, 폐지 코드 제외: ${abolished}`,
+  );
+  console.log(`written: ${output}`);
+}
+
+main();
@@ -0,0 +1,136 @@
+// scripts/build-road-graph.ts
+// OSM 추출본(GeoJSON) → 경로 탐색용 도로/보행로 그래프(public/data/paju-roads.json)
+//
+// 사용법:
+//   osmium tags-filter paju.osm.pbf w/highway -o paju-highways.osm.pbf
+//   osmium export paju-highways.osm.pbf -f geojson -o paju-highways.geojson
+//   npm run build:road-graph -- paju-highways.geojson [출력 경로]
+//
+// scripts/fixtures/osm/paju-arterials.geojson 은 좌표를 손으로 찍은 확인용 표본 – 실제 도로와 다르므로
+// public/ 밖으로 출력할 것 (예: npm run build:road-graph -- scripts/fixtures/osm/paju-arterials.geojson /tmp/roads.json)
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { calcDistanceKm } from '../src/lib/geo';
+import {
+  EDGE_STRIDE,
+  ROAD_CLASSES,
+  ROAD_GRAPH_FORMAT_VERSION,
+  type RoadGraphFile,
+} from '../src/lib/roadGraph';
+
+// 파주시 경계 + 여유(약 2km) – 경계 근처에서 고양/양주 도로를 거쳐 가는 경로도 허용
+const BBOX = { latMin: 37.66, latMax: 38.0, lonMin: 126.63, lonMax: 127.0 };
+
+type Position = [number, number];
+
+interface OsmFeature {
+  type: 'Feature';
+  properties: Record<string, string | undefined>;
+  geometry:
+    | { type: 'LineString'; coordinates: Position[] }
+    | { type: 'MultiLineString'; coordinates: Position[][] }
+    | { type: string; coordinates: unknown };
+}
+
+function inBbox([lon, lat]: Position) {
+  return lat >= BBOX.latMin && lat <= BBOX.latMax && lon >= BBOX.lonMin && lon <= BBOX.lonMax;
+}
+
+function lineStrings(feature: OsmFeature): Position[][] {
+  const { geometry } = feature;
+  if (geometry.type === 'LineString') return [geometry.coordinates as Position[]];
+  if (geometry.type === 'MultiLineString') return geometry.coordinates as Position[][];
+  return [];
+}
+
+function main() {
+  const [input, output = 'public/data/paju-roads.json'] = process.argv.slice(2);
+  if (!input) {
+    console.error('usage: build-road-graph <osm-highways.geojson> [output.json]');
+    process.exit(1);
+  }
+
+  const collection = JSON.parse(readFileSync(input, 'utf8')) as { features: OsmFeature[] };
+  const classIndex = new Map(ROAD_CLASSES.map((c, i) => [c.highway, i]));
+
+  const nodeIds = new Map<string, number>();
+  const nodes: number[] = [];
+  const names: string[] = [];
+  const nameIds = new Map<string, number>();
+  const edges: number[] = [];
+
+  // 같은 좌표(소수점 6자리 ≈ 0.1m)는 같은 교차점으로 본다
+  const nodeId = ([lon, lat]: Position) => {
+    const key = `${lon.toFixed(6)},${lat.toFixed(6)}`;
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = nodes.length / 2;
+      nodeIds.set(key, id);
+      nodes.push(Number(lon.toFixed(6)), Number(lat.toFixed(6)));
+    }
+    return id;
+  };
+
+  const nameId = (name: string | undefined) => {
+    if (!name) return -1;
+    let id = nameIds.get(name);
+    if (id === undefined) {
+      id = names.length;
+      nameIds.set(name, id);
+      names.push(name);
+    }
+    return id;
+  };
+
+  let skipped = 0;
+
+  for (const feature of collection.features) {
+    const props = feature.properties ?? {};
+    const classIdx = classIndex.get(props.highway ?? '');
+    if (classIdx === undefined) {
+      skipped++;
+      continue;
+    }
+
+    // oneway=-1 은 그려진 방향의 반대로만 통행
+    const reverse = props.oneway === '-1';
+    const oneway =
+      reverse || props.oneway === 'yes' || props.oneway === '1' || props.junction === 'roundabout';
+    const name = nameId(props.name);
+
+    for (const line of lineStrings(feature)) {
+      for (let i = 0; i + 1 < line.length; i++) {
+        const a = line[i];
+        const b = line[i + 1];
+        if (!inBbox(a) && !inBbox(b)) continue;
+
+        const lengthM = calcDistanceKm(a[1], a[0], b[1], b[0]) * 1000;
+        const [from, to] = reverse ? [nodeId(b), nodeId(a)] : [nodeId(a), nodeId(b)];
+        if (from === to) continue;
+
+        edges.push(from, to, Number(lengthM.toFixed(1)), classIdx, name, oneway ? 1 : 0);
+      }
+    }
+  }
+
+  const graph: RoadGraphFile = {
+    format: ROAD_GRAPH_FORMAT_VERSION,
+    builtAt: new Date().toISOString(),
+    source: input,
+    classes: ROAD_CLASSES.map((c) => c.highway),
+    names,
+    nodes,
+    edges,
+  };
+
+  mkdirSync(dirname(output), { recursive: true });
+  writeFileSync(output, JSON.stringify(graph));
+
+  console.log(
+    `nodes: ${nodes.length / 2}, edges: ${edges.length / EDGE_STRIDE}, ` +
+      `road names: ${names.length}, skipped features: ${skipped}`,
+  );
+  console.log(`written: ${output}`);
+}
+
+main();
@@ -0,0 +1,62 @@
+// scripts/ingest-earthquakes.ts
+// 기상청 지진 통보 파일(EqkInfoService JSON / 통보문 텍스트) → earthquakes 반영
+// /api/ingest-earthquakes 와 같은 파서·중복 처리 사용
+//
+// 사용법:
+//   npm run ingest:earthquakes -- <파일...> [--dry-run]
+//
+//   --dry-run   DB 없이 빈 테이블 기준으로 파싱/중복 처리 결과만 출력 (픽스처 확인용)
+//
+// 예: npm run ingest:earthquakes -- scripts/fixtures/kma/eqk-msg.json scripts/fixtures/kma/notice.txt --dry-run
+//
+// --dry-run 이 아니면 SUPABASE_URL(또는 VITE_SUPABASE_URL) / SUPABASE_SERVICE_ROLE_KEY 필요
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseKmaApiResponse, parseKmaNotice, type BulletinParseResult } from '../api/_lib/kmaEarthquake';
+import { planIngest, storeBulletins } from '../api/_lib/earthquakeStore';
+import { createServiceClient } from '../api/_lib/supabaseAdmin';
+
+function parseFile(path: string): BulletinParseResult {
+  const text = readFileSync(path, 'utf8');
+  return extname(path).toLowerCase() === '.json' ? parseKmaApiResponse(JSON.parse(text)) : parseKmaNotice(text);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const files = args.filter((a) => !a.startsWith('--'));
+  if (files.length === 0) {
+    console.error('사용법: npm run ingest:earthquakes -- <파일...> [--dry-run]');
+    process.exit(1);
+  }
+
+  const bulletins: BulletinParseResult['bulletins'] = [];
+  for (const file of files) {
+    const parsed = parseFile(file);
+    console.log(`${file}: 통보 ${parsed.bulletins.length}건, 건너뜀 ${parsed.skipped.length}건, 오류 ${parsed.errors.length}건`);
+    parsed.skipped.forEach((s) => console.log(`  - 건너뜀 ${s}`));
+    parsed.errors.forEach((e) => console.log(`  ! ${e}`));
+    bulletins.push(...parsed.bulletins);
+  }
+
+  if (dryRun) {
+    const plan = planIngest([], bulletins);
+    for (const e of plan.events) {
+      const b = e.bulletin;
+      console.log(
+        `[${e.row ? '갱신' : '추가'}] ${b.occurredAt} ${b.location} M${b.magnitude} ` +
+          `(파주에서 ${b.distanceFromPaju}km, ${b.source} ${b.bulletinId}, revision ${e.revision})`,
+      );
+    }
+    plan.skipped.forEach((s) => console.log(`[건너뜀] ${s.bulletinId}: ${s.reason}`));
+    return;
+  }
+
+  const report = await storeBulletins(createServiceClient(), bulletins);
+  console.log(`추가 ${report.inserted}건, 갱신 ${report.revised}건, 건너뜀 ${report.skipped.length}건`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -4,8 +4,12 @@ import HomePage from './components/HomePage'
 import ShelterSearch from './components/ShelterSearch'
 import AIGuide from './components/AIGuide'
 import EvacuationSimulation from './components/EvacuationSimulation'
+import AdminConsole from './components/AdminConsole'
+import RiskPage from './components/RiskPage'
+import EarthquakeHistory from './components/EarthquakeHistory'
+import EarlyWarningOverlay from './components/EarlyWarningOverlay'
 
-type Page = 'home' | 'search' | 'guide' | 'risk' | 'simulation'
+type Page = 'home' | 'search' | 'guide' | 'risk' | 'history' | 'simulation' | 'admin'
 
 // URL <-> Page 매핑
 const pageToPath: Record<Page, string> = {
@@ -13,7 +17,9 @@ const pageToPath: Record<Page, string> = {
   search: '/search',
   guide: '/guide',
   risk: '/risk',
+  history: '/history',
   simulation: '/simulation',
+  admin: '/admin',
 }
 const pathToPage = (pathname: string): Page => {
   switch (pathname) {
@@ -21,7 +27,9 @@ const pathToPage = (pathname: string): Page => {
     case '/search': return 'search'
     case '/guide': return 'guide'
     case '/risk': return 'risk'
+    case '/history': return 'history'
     case '/simulation': return 'simulation'
+    case '/admin': return 'admin'
     default: return 'home'
   }
 }
@@ -47,11 +55,17 @@ export default function App() {
       <Routes>
         <Route path="/" element={<HomePage onNavigate={handleNavigate} />} />
         <Route path="/search" element={<ShelterSearch onNavigate={handleNavigate} />} />
-        <Route path="/guide" element={<AIGuide />} />
+        <Route path="/guide" element={<AIGuide onNavigate={handleNavigate} />} />
+        <Route path="/risk" element={<RiskPage />} />
+        <Route path="/history" element={<EarthquakeHistory />} />
         <Route path="/simulation" element={<EvacuationSimulation />} />
+        <Route path="/admin" element={<AdminConsole />} />
         {/* 존재하지 않는 경로는 홈으로 */}
         <Route path="*" element={<HomePage onNavigate={handleNavigate} />} />
       </Routes>
+
+      {/* 큰 지진 통보 시 전체 화면 카운트다운 (모든 화면 위) */}
+      <EarlyWarningOverlay onNavigate={handleNavigate} />
     </div>
   )
 }
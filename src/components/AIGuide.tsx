@@ -1,27 +1,99 @@
 import { useState, useEffect, useRef } from 'react';
-import { Send, User, AlertTriangle, Package, Home, Navigation } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import {
+  Send,
+  Square,
+  RotateCcw,
+  BookOpen,
+  Plus,
+  User,
+  AlertTriangle,
+  Package,
+  Home,
+  Navigation,
+} from 'lucide-react';
+import {
+  ChatStreamError,
+  streamChat,
+  type ChatSource,
+  type ChatToolResult,
+  type ChatToolShelter,
+} from '../lib/chatStream';
+import {
+  createChatSession,
+  fetchChatTurns,
+  getActiveSessionId,
+  listChatSessions,
+  saveChatTurn,
+  setActiveSessionId,
+  type ChatSession,
+  type ChatTurn,
+} from '../lib/chatSessions';
+import ChatToolResults from './ChatToolResults';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  // 인사말/오류 안내처럼 모델이 만든 답이 아닌 메시지 (대화 기록으로 보내지 않음)
+  local?: boolean;
+  // 답변 수신 상태 (완료되면 없음)
+  status?: 'streaming' | 'canceled' | 'error';
+  // 답변 아래에 덧붙이는 안내 (중단/오류/잘림)
+  notice?: string;
+  // 답변 근거로 쓰인 공식 행동요령 (답변 속 [1] 번호와 대응)
+  sources?: ChatSource[];
+  // 대피소·지진 조회 결과 (카드로 표시)
+  toolResults?: ChatToolResult[];
 }
 
-export default function AIGuide() {
-  const [messages, setMessages] = useState<Message[]>([
+interface AIGuideProps {
+  onNavigate: (page: string) => void;
+}
+
+// api/chat 이 받는 최대 메시지 수 (api/_lib/chatHistory MAX_MESSAGES) – 오래된 기록 요약은 서버에서
+const HISTORY_LIMIT = 60;
+
+function greetingMessage(): Message {
+  return {
+    id: 'greeting',
+    role: 'assistant',
+    content:
+      '안녕하세요! 지진 대피 AI 가이드입니다. 지진 발생 시 행동 요령, 대피 준비물, 대피소 정보 등에 대해 질문해주세요.',
+    timestamp: new Date(),
+    local: true,
+  };
+}
+
+// 저장된 질문/답변 → 화면 메시지
+function turnMessages(turn: ChatTurn): Message[] {
+  const timestamp = new Date(turn.createdAt);
+  return [
+    { id: `${turn.id}-q`, role: 'user', content: turn.question, timestamp },
     {
-      id: '1',
+      id: `${turn.id}-a`,
       role: 'assistant',
-      content:
-        '안녕하세요! 지진 대피 AI 가이드입니다. 지진 발생 시 행동 요령, 대피 준비물, 대피소 정보 등에 대해 질문해주세요.',
-      timestamp: new Date(),
+      content: turn.answer,
+      timestamp,
+      sources: turn.sources,
+      toolResults: turn.toolResults.length > 0 ? turn.toolResults : undefined,
     },
-  ]);
+  ];
+}
+
+export default function AIGuide({ onNavigate }: AIGuideProps) {
+  const [messages, setMessages] = useState<Message[]>(() => [greetingMessage()]);
 
   const [input, setInput] = useState('');
-  const [sessionId] = useState(() => crypto.randomUUID());
+  // 현재 대화 (null 이면 아직 저장 전인 새 대화 – 첫 답변을 저장할 때 생성)
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  // unavailable: 익명 로그인/조회 실패 → 대화는 되지만 저장하지 않음
+  const [historyStatus, setHistoryStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+  const [openingSessionId, setOpeningSessionId] = useState<string | null>(null);
+  // 답변을 받는 중인 assistant 메시지 (그동안 입력 잠금)
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const quickQuestions = [
@@ -29,6 +101,7 @@ export default function AIGuide() {
     '집에서 나갈 때 무엇을 챙겨야 하나요?',
     '여진이 계속되는데 언제까지 대피소에 있어야 하나요?',
     '가족과 연락이 안 될 때는 어떻게 하나요?',
+    '금촌동에서 제일 가까운 대피소가 어디야?',
   ];
 
   useEffect(() => {
@@ -39,61 +112,202 @@ export default function AIGuide() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  /** 🔥 서버리스 API 호출 */
-  const getAIResponse = async (userMessage: string): Promise<string> => {
+  // 화면을 떠나면 진행 중인 답변 중단
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // 지난 대화 목록을 불러오고, 새로고침 전에 보던 대화가 있으면 이어서 표시
+  useEffect(() => {
+    let canceled = false;
+    (async () => {
+      try {
+        const list = await listChatSessions();
+        if (canceled) return;
+        setSessions(list);
+        setHistoryStatus('ready');
+
+        const activeId = getActiveSessionId();
+        if (!activeId || !list.some((s) => s.id === activeId)) return;
+        const turns = await fetchChatTurns(activeId);
+        if (canceled) return;
+        setSessionId(activeId);
+        setMessages([greetingMessage(), ...turns.flatMap(turnMessages)]);
+      } catch (e) {
+        console.error('[AIGuide] chat history unavailable', e);
+        if (!canceled) setHistoryStatus('unavailable');
+      }
+    })();
+    return () => {
+      canceled = true;
+    };
+  }, []);
+
+  const refreshSessions = async () => {
     try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: [{ role: 'user', content: userMessage }],
-        }),
-      });
+      setSessions(await listChatSessions());
+    } catch (e) {
+      console.error('[AIGuide] failed to refresh chat sessions', e);
+    }
+  };
+
+  // 완료된 질문/답변 저장 (새 대화면 이때 대화를 만듦) – 실패하면 false
+  const persistTurn = async (turn: Omit<ChatTurn, 'id' | 'createdAt'>): Promise<boolean> => {
+    if (historyStatus !== 'ready') return false;
+    try {
+      let id = sessionId;
+      if (!id) {
+        id = (await createChatSession(turn.question)).id;
+        setSessionId(id);
+        setActiveSessionId(id);
+      }
+      await saveChatTurn(id, turn);
+      await refreshSessions();
+      return true;
+    } catch (e) {
+      console.error('[AIGuide] failed to save chat turn', e);
+      return false;
+    }
+  };
+
+  const updateMessage = (id: string, patch: Partial<Message>) => {
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+  };
 
-      if (!response.ok) throw new Error('API error');
+  /** 🔥 서버리스 API 호출 (스트리밍) */
+  // 이전 대화 전체를 함께 보내 후속 질문("그럼 아파트에서는?")도 맥락을 이어가게 함
+  const runAssistant = async (history: Message[]) => {
+    const question = [...history].reverse().find((m) => m.role === 'user');
+    if (!question) return;
+
+    const assistantId = crypto.randomUUID();
+    setMessages([
+      ...history,
+      { id: assistantId, role: 'assistant', content: '', timestamp: new Date(), status: 'streaming' },
+    ]);
+    setStreamingId(assistantId);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      const data = await response.json();
-      return data.reply as string;
+    try {
+      const result = await streamChat(
+        history
+          .filter((m) => !m.local)
+          .slice(-HISTORY_LIMIT)
+          .map(({ role, content }) => ({ role, content })),
+        {
+          signal: controller.signal,
+          onDelta: (text) => updateMessage(assistantId, { content: text }),
+          onSources: (sources) => updateMessage(assistantId, { sources }),
+          onTool: (toolResults) => updateMessage(assistantId, { toolResults }),
+        },
+      );
+
+      if (result.canceled) {
+        updateMessage(assistantId, {
+          content: result.text,
+          status: 'canceled',
+          notice: '답변을 중단했습니다.',
+          local: !result.text.trim(),
+        });
+        return;
+      }
+
+      const reply = result.text || '지금은 답변을 생성하지 못했습니다. 잠시 후 다시 시도해주세요.';
+      const notice = result.finishReason === 'length' ? '답변이 길어 일부만 표시했습니다.' : undefined;
+      updateMessage(assistantId, {
+        content: reply,
+        status: undefined,
+        notice,
+        local: !result.text,
+      });
+
+      if (!result.text) return;
+      const saved = await persistTurn({
+        question: question.content,
+        answer: result.text,
+        sources: result.sources,
+        toolResults: result.tools,
+      });
+      if (!saved && historyStatus === 'ready') {
+        updateMessage(assistantId, {
+          notice: [notice, '대화 기록을 저장하지 못했습니다.'].filter(Boolean).join(' '),
+        });
+      }
     } catch (e) {
       console.error(e);
-      return '죄송합니다. 현재 AI 서버에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.';
+      // 중간에 끊겨도 받은 부분은 남기고 다시 시도할 수 있게
+      updateMessage(assistantId, {
+        content: e instanceof ChatStreamError ? e.partial : '',
+        status: 'error',
+        notice:
+          e instanceof ChatStreamError && e.partial
+            ? '연결이 끊겨 답변이 중간에 멈췄습니다.'
+            : '죄송합니다. 현재 AI 서버에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.',
+        local: true,
+      });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStreamingId(null);
     }
   };
 
   /** 🔥 메시지 전송 */
-  const handleSend = async () => {
-    if (!input.trim()) return;
-
-    const userInput = input;
+  const handleSend = () => {
+    if (!input.trim() || streamingId) return;
 
     const userMessage: Message = {
       id: crypto.randomUUID(),
       role: 'user',
-      content: userInput,
+      content: input,
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
     setInput('');
+    runAssistant([...messages, userMessage]);
+  };
 
-    // AI 응답 가져오기
-    const aiReply = await getAIResponse(userInput);
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
 
-    const assistantMessage: Message = {
-      id: crypto.randomUUID(),
-      role: 'assistant',
-      content: aiReply,
-      timestamp: new Date(),
-    };
+  // 실패한 답변을 지우고 같은 질문으로 다시 요청
+  const handleRetry = (assistantId: string) => {
+    if (streamingId) return;
+    const index = messages.findIndex((m) => m.id === assistantId);
+    if (index < 0) return;
+    runAssistant(messages.slice(0, index));
+  };
+
+  // 대피소 카드 → 검색 화면에서 해당 대피소 상세를 바로 열기 (ShelterSearch 가 마운트 시 읽음)
+  const handleOpenShelter = (shelter: ChatToolShelter, origin: ChatToolResult['origin']) => {
+    window.sessionStorage.setItem(
+      'quake_openShelter',
+      JSON.stringify({ facilitySerial: shelter.facilitySerial, origin: origin ?? null }),
+    );
+    onNavigate('search');
+  };
 
-    setMessages((prev) => [...prev, assistantMessage]);
+  // 사이드바에서 지난 대화 열기
+  const handleOpenSession = async (id: string) => {
+    if (streamingId || openingSessionId || id === sessionId) return;
+    setOpeningSessionId(id);
+    try {
+      const turns = await fetchChatTurns(id);
+      setSessionId(id);
+      setActiveSessionId(id);
+      setMessages([greetingMessage(), ...turns.flatMap(turnMessages)]);
+    } catch (e) {
+      console.error('[AIGuide] failed to load chat session', e);
+    } finally {
+      setOpeningSessionId(null);
+    }
+  };
 
-    // Supabase 저장
-    supabase.from('chatbot_conversations').insert({
-      session_id: sessionId,
-      user_message: userInput,
-      bot_response: aiReply,
-    });
+  const handleNewConversation = () => {
+    if (streamingId) return;
+    setSessionId(null);
+    setActiveSessionId(null);
+    setMessages([greetingMessage()]);
+    setInput('');
   };
 
   /** 빠른 질문 버튼 */
@@ -122,7 +336,9 @@ export default function AIGuide() {
                   </div>
                   <div>
                     <h3 className="font-semibold text-sm">AI 안전 가이드</h3>
-                    <p className="text-xs text-green-600">온라인</p>
+                    <p className="text-xs text-green-600">
+                      {streamingId ? '답변 작성 중...' : '온라인'}
+                    </p>
                   </div>
                 </div>
               </div>
@@ -158,7 +374,64 @@ export default function AIGuide() {
                             : 'bg-gray-100 text-gray-900'
                         }`}
                       >
-                        <div className="whitespace-pre-line">{message.content}</div>
+                        {message.status === 'streaming' && !message.content && !message.toolResults ? (
+                          <div className="flex items-center space-x-1 py-1" aria-label="답변 작성 중">
+                            <span className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" />
+                            <span className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce [animation-delay:150ms]" />
+                            <span className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce [animation-delay:300ms]" />
+                          </div>
+                        ) : (
+                          <div className="whitespace-pre-line">
+                            {message.content}
+                            {message.status === 'streaming' && (
+                              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                            )}
+                          </div>
+                        )}
+                        {message.toolResults && (
+                          <ChatToolResults results={message.toolResults} onOpenShelter={handleOpenShelter} />
+                        )}
+                        {message.content && message.sources && message.sources.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-gray-200 text-xs text-gray-600">
+                            <div className="flex items-center space-x-1 font-medium mb-1">
+                              <BookOpen className="w-3 h-3" />
+                              <span>출처</span>
+                            </div>
+                            <ol className="space-y-0.5">
+                              {message.sources.map((source) => (
+                                <li key={source.id}>
+                                  <a
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="hover:text-blue-600 hover:underline"
+                                  >
+                                    [{source.id}] {source.title} · {source.section} ({source.source})
+                                  </a>
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        )}
+                        {message.notice && (
+                          <div
+                            className={`mt-2 text-xs ${
+                              message.status === 'error' ? 'text-red-600' : 'text-gray-500'
+                            }`}
+                          >
+                            {message.notice}
+                          </div>
+                        )}
+                        {message.status === 'error' && (
+                          <button
+                            onClick={() => handleRetry(message.id)}
+                            disabled={streamingId != null}
+                            className="mt-1 flex items-center space-x-1 text-xs text-blue-600 hover:underline disabled:opacity-50"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            <span>다시 시도</span>
+                          </button>
+                        )}
                         <div
                           className={`text-xs mt-1 ${
                             message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
@@ -185,15 +458,28 @@ export default function AIGuide() {
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                    placeholder="질문을 입력하세요..."
-                    className="flex-1 px-3 py-2 text-sm border rounded-lg focus:ring focus:ring-blue-500"
+                    disabled={streamingId != null}
+                    placeholder={streamingId ? '답변을 받는 중입니다...' : '질문을 입력하세요...'}
+                    className="flex-1 px-3 py-2 text-sm border rounded-lg focus:ring focus:ring-blue-500 disabled:bg-gray-50"
                   />
-                  <button
-                    onClick={handleSend}
-                    className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                  >
-                    <Send className="w-5 h-5" />
-                  </button>
+                  {streamingId ? (
+                    <button
+                      onClick={handleCancel}
+                      className="p-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800"
+                      aria-label="답변 중단"
+                    >
+                      <Square className="w-5 h-5" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSend}
+                      disabled={!input.trim()}
+                      className="p-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+                      aria-label="보내기"
+                    >
+                      <Send className="w-5 h-5" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -201,6 +487,55 @@ export default function AIGuide() {
 
           {/* ------------------ 우측 패널 ------------------ */}
           <div className="space-y-6">
+            {/* 대화 기록 */}
+            <div className="bg-white rounded-xl shadow-sm border p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-sm">대화 기록</h3>
+                <button
+                  onClick={handleNewConversation}
+                  disabled={streamingId != null}
+                  className="flex items-center space-x-1 text-xs text-blue-600 hover:underline disabled:opacity-50"
+                >
+                  <Plus className="w-3 h-3" />
+                  <span>새 대화</span>
+                </button>
+              </div>
+
+              {historyStatus === 'loading' ? (
+                <p className="text-xs text-gray-500">대화 기록을 불러오는 중...</p>
+              ) : historyStatus === 'unavailable' ? (
+                <p className="text-xs text-gray-500">대화 기록을 사용할 수 없어 이번 대화는 저장되지 않습니다.</p>
+              ) : sessions.length === 0 ? (
+                <p className="text-xs text-gray-500">아직 저장된 대화가 없습니다.</p>
+              ) : (
+                <ul className="space-y-1 max-h-60 overflow-y-auto">
+                  {sessions.map((session) => (
+                    <li key={session.id}>
+                      <button
+                        onClick={() => handleOpenSession(session.id)}
+                        disabled={streamingId != null || openingSessionId != null}
+                        className={`w-full text-left px-3 py-2 rounded-lg text-xs disabled:opacity-60 ${
+                          session.id === sessionId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="truncate font-medium">{session.title}</div>
+                        <div className="text-[11px] text-gray-400">
+                          {openingSessionId === session.id
+                            ? '불러오는 중...'
+                            : new Date(session.updated_at).toLocaleString('ko-KR', {
+                                month: 'numeric',
+                                day: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit',
+                              })}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
             {/* FAQ */}
             <div className="bg-white rounded-xl shadow-sm border p-4">
               <h3 className="font-semibold text-sm mb-3">자주 묻는 질문</h3>
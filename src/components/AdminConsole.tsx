@@ -0,0 +1,231 @@
+// src/components/AdminConsole.tsx
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { LogOut, RefreshCw, Search, ShieldAlert } from 'lucide-react';
+import { supabase, type Shelter } from '../lib/supabase';
+import { useAuthSession } from '../hooks/useAuthSession';
+import {
+  fetchAdminRole,
+  fetchAllShelters,
+  refreshPublicDataset,
+  updateShelter,
+  type AdminRole,
+  type ShelterPatch,
+} from '../lib/adminShelters';
+import { fetchStaffAssignments } from '../lib/occupancy';
+import AdminLogin from './AdminLogin';
+import AdminShelterRow from './AdminShelterRow';
+import AdminCsvPanel from './AdminCsvPanel';
+import ShelterLocationEditor from './ShelterLocationEditor';
+import StaffCheckinPanel from './StaffCheckinPanel';
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  admin: '관리자',
+  editor: '편집자',
+};
+
+// /admin – 로그인 + 역할 확인 후 대피소 관리 (실제 권한 검사는 RLS)
+// 관리 역할 없이 담당 대피소만 있는 직원은 입실/퇴실 기록 화면만 봄
+export default function AdminConsole() {
+  const { session: authSession, loading } = useAuthSession();
+  // AI 가이드 대화 기록용 익명 로그인은 관리 콘솔에서는 로그인하지 않은 것으로 봄
+  const session = authSession && !authSession.user.is_anonymous ? authSession : null;
+  const userId = session?.user.id ?? null;
+
+  // undefined: 확인 중
+  const [role, setRole] = useState<AdminRole | null | undefined>(undefined);
+  // 담당 직원으로 지정된 대피소 일련번호 (undefined: 확인 중)
+  const [staffSerials, setStaffSerials] = useState<number[] | undefined>(undefined);
+  const [shelters, setShelters] = useState<Shelter[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedSerial, setSelectedSerial] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let canceled = false;
+    setRole(undefined);
+    setStaffSerials(undefined);
+    fetchAdminRole(userId)
+      .then((r) => !canceled && setRole(r))
+      .catch(() => !canceled && setRole(null));
+    fetchStaffAssignments(userId)
+      .then((serials) => !canceled && setStaffSerials(serials))
+      .catch(() => !canceled && setStaffSerials([]));
+    return () => {
+      canceled = true;
+    };
+  }, [userId]);
+
+  const reload = useCallback(async () => {
+    setLoadError(null);
+    try {
+      setShelters(await fetchAllShelters());
+    } catch {
+      setLoadError('대피소 목록을 불러오지 못했습니다.');
+    }
+  }, []);
+
+  const isStaff = (staffSerials?.length ?? 0) > 0;
+
+  useEffect(() => {
+    if (role || isStaff) reload();
+  }, [role, isStaff, reload]);
+
+  const visible = useMemo(() => {
+    const q = query.trim();
+    if (!q) return shelters;
+    return shelters.filter(
+      (s) => s.name.includes(q) || (s.road_addr ?? '').includes(q) || String(s.facility_serial) === q,
+    );
+  }, [shelters, query]);
+
+  const selected = shelters.find((s) => s.facility_serial === selectedSerial) ?? null;
+
+  const staffShelters = useMemo(
+    () => shelters.filter((s) => staffSerials?.includes(s.facility_serial)),
+    [shelters, staffSerials],
+  );
+
+  // 저장 결과(서버 값)로 목록 갱신
+  const applyPatch = async (serial: number, patch: ShelterPatch) => {
+    const saved = await updateShelter(serial, patch);
+    setShelters((list) => list.map((s) => (s.facility_serial === serial ? saved : s)));
+  };
+
+  // 공개 데이터셋 재동기화는 실패해도 관리 화면에는 영향 없음
+  const refreshDataset = () => refreshPublicDataset().catch(() => {});
+
+  const saveOne = async (serial: number, patch: ShelterPatch) => {
+    await applyPatch(serial, patch);
+    refreshDataset();
+  };
+
+  if (loading || (userId && (role === undefined || staffSerials === undefined))) {
+    return <div className="p-8 text-center text-sm text-gray-500">확인 중...</div>;
+  }
+
+  if (!session) return <AdminLogin guestSession={!!authSession} />;
+
+  if (!role && isStaff) {
+    return (
+      <div className="max-w-md mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">대피소 입실 기록</h1>
+            <p className="text-xs text-gray-500">{session.user.email} · 담당 직원</p>
+          </div>
+          <button
+            onClick={() => supabase.auth.signOut()}
+            className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50"
+          >
+            <LogOut className="w-3.5 h-3.5" />
+            <span>로그아웃</span>
+          </button>
+        </div>
+        {loadError && <p className="text-xs text-red-600">{loadError}</p>}
+        {staffShelters.length > 0 && <StaffCheckinPanel shelters={staffShelters} />}
+      </div>
+    );
+  }
+
+  if (!role) {
+    return (
+      <div className="max-w-sm mx-auto mt-24 bg-white rounded-xl border border-gray-200 p-6 text-center space-y-3">
+        <ShieldAlert className="w-8 h-8 text-red-500 mx-auto" />
+        <p className="text-sm text-gray-800">{session.user.email} 계정에는 대피소 관리 권한이 없습니다.</p>
+        <button
+          onClick={() => supabase.auth.signOut()}
+          className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+        >
+          로그아웃
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">대피소 관리</h1>
+          <p className="text-xs text-gray-500">
+            {session.user.email} · {ROLE_LABELS[role]}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={reload}
+            className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+            <span>새로고침</span>
+          </button>
+          <button
+            onClick={() => supabase.auth.signOut()}
+            className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50"
+          >
+            <LogOut className="w-3.5 h-3.5" />
+            <span>로그아웃</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <div className="p-3 border-b border-gray-200 flex items-center space-x-2">
+            <Search className="w-4 h-4 text-gray-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="시설명, 주소, 시설일련번호"
+              className="flex-1 text-sm outline-none"
+            />
+            <span className="text-xs text-gray-500">{visible.length}곳</span>
+          </div>
+          {loadError && <p className="p-3 text-xs text-red-600">{loadError}</p>}
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">번호</th>
+                  <th className="px-3 py-2 font-medium">시설명 / 주소</th>
+                  <th className="px-3 py-2 font-medium text-right">수용 인원</th>
+                  <th className="px-3 py-2 font-medium text-right">면적(㎡)</th>
+                  <th className="px-3 py-2 font-medium">시설</th>
+                  <th className="px-3 py-2 font-medium">상태</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((s) => (
+                  <AdminShelterRow
+                    key={s.facility_serial}
+                    shelter={s}
+                    selected={s.facility_serial === selectedSerial}
+                    onSelect={() => setSelectedSerial(s.facility_serial)}
+                    onSave={(patch) => saveOne(s.facility_serial, patch)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {selected ? (
+            <ShelterLocationEditor
+              shelter={selected}
+              onSave={(pos) => saveOne(selected.facility_serial, pos)}
+            />
+          ) : (
+            <div className="bg-white rounded-xl border border-dashed border-gray-300 p-6 text-center text-xs text-gray-500">
+              목록에서 위치 아이콘을 누르면 지도에서 위치를 옮길 수 있습니다.
+            </div>
+          )}
+          {staffShelters.length > 0 && <StaffCheckinPanel shelters={staffShelters} />}
+          <AdminCsvPanel shelters={shelters} onApply={applyPatch} onDone={refreshDataset} />
+        </div>
+      </div>
+    </div>
+  );
+}
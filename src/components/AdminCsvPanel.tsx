@@ -0,0 +1,118 @@
+// src/components/AdminCsvPanel.tsx
+import { useState, type ChangeEvent } from 'react';
+import { Download, Upload } from 'lucide-react';
+import type { Shelter } from '../lib/supabase';
+import { downloadCsv } from '../lib/csv';
+import { parseShelterCsv, sheltersToCsv, type CsvParseResult, type ShelterPatch } from '../lib/adminShelters';
+
+interface AdminCsvPanelProps {
+  shelters: Shelter[];
+  // 한 건씩 반영 (실패하면 throw)
+  onApply: (serial: number, patch: ShelterPatch) => Promise<void>;
+  onDone: () => Promise<void>;
+}
+
+// CSV 내려받기 → 엑셀 등에서 수정 → 올려서 바뀐 칸만 반영
+export default function AdminCsvPanel({ shelters, onApply, onDone }: AdminCsvPanelProps) {
+  const [preview, setPreview] = useState<CsvParseResult | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [failures, setFailures] = useState<string[]>([]);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFailures([]);
+    setPreview(parseShelterCsv(await file.text(), shelters));
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setApplying(true);
+    setProgress(0);
+    const failed: string[] = [];
+
+    for (const [i, p] of preview.patches.entries()) {
+      try {
+        await onApply(p.serial, p.patch);
+      } catch (err) {
+        failed.push(`${p.name}: ${err instanceof Error ? err.message : '저장 실패'}`);
+      }
+      setProgress(i + 1);
+    }
+
+    await onDone();
+    setFailures(failed);
+    setPreview(null);
+    setApplying(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+      <h3 className="font-semibold text-sm text-gray-900">CSV 일괄 수정</h3>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => downloadCsv('paju-shelters.csv', sheltersToCsv(shelters))}
+          className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50"
+        >
+          <Download className="w-3.5 h-3.5" />
+          <span>내려받기</span>
+        </button>
+        <label className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50 cursor-pointer">
+          <Upload className="w-3.5 h-3.5" />
+          <span>올리기</span>
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} disabled={applying} className="hidden" />
+        </label>
+      </div>
+
+      {preview && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-700">
+            변경 {preview.patches.length}건{preview.errors.length > 0 && `, 오류 ${preview.errors.length}건`}
+          </p>
+          {preview.patches.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto text-xs text-gray-600 space-y-0.5">
+              {preview.patches.map((p) => (
+                <li key={p.serial}>
+                  {p.name} — {p.changed.join(', ')}
+                </li>
+              ))}
+            </ul>
+          )}
+          {preview.errors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto text-xs text-red-600 space-y-0.5">
+              {preview.errors.map((msg) => (
+                <li key={msg}>{msg}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex space-x-2">
+            <button
+              onClick={handleApply}
+              disabled={applying || preview.patches.length === 0}
+              className="px-3 py-1.5 bg-blue-600 text-white text-xs rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {applying ? `반영 중... (${progress}/${preview.patches.length})` : '변경 반영'}
+            </button>
+            <button
+              onClick={() => setPreview(null)}
+              disabled={applying}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              취소
+            </button>
+          </div>
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {failures.map((msg) => (
+            <li key={msg}>{msg}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
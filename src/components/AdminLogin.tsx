@@ -0,0 +1,73 @@
+// src/components/AdminLogin.tsx
+import { useState, type FormEvent } from 'react';
+import { Lock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+interface AdminLoginProps {
+  // AI 가이드 대화 기록용 익명 로그인 상태 (관리자 로그인하면 그 세션을 대신함)
+  guestSession?: boolean;
+}
+
+export default function AdminLogin({ guestSession = false }: AdminLoginProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+    if (signInError) {
+      setError('이메일 또는 비밀번호가 올바르지 않습니다.');
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="max-w-sm mx-auto mt-24 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h1 className="text-lg font-bold text-gray-900 mb-1 flex items-center space-x-2">
+        <Lock className="w-5 h-5 text-blue-600" />
+        <span>대피소 관리자 로그인</span>
+      </h1>
+      <p className="text-xs text-gray-500 mb-4">관리 권한이 있는 계정만 사용할 수 있습니다.</p>
+      {guestSession && (
+        <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2 mb-4">
+          로그인하면 이 브라우저의 AI 가이드 대화 기록 대신 관리자 계정의 기록이 보입니다. 로그아웃하면 새 대화
+          기록으로 시작합니다.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="email"
+          required
+          autoComplete="username"
+          placeholder="이메일"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        <input
+          type="password"
+          required
+          autoComplete="current-password"
+          placeholder="비밀번호"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {submitting ? '로그인 중...' : '로그인'}
+        </button>
+      </form>
+    </div>
+  );
+}
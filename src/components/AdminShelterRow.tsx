@@ -0,0 +1,210 @@
+// src/components/AdminShelterRow.tsx
+import { useState } from 'react';
+import { Check, MapPin, Pencil, X } from 'lucide-react';
+import type { Shelter, ShelterFacilities } from '../lib/supabase';
+import { FACILITY_LABELS, type ShelterPatch } from '../lib/adminShelters';
+
+interface AdminShelterRowProps {
+  shelter: Shelter;
+  selected: boolean;
+  onSelect: () => void;
+  onSave: (patch: ShelterPatch) => Promise<void>;
+}
+
+const FACILITY_KEYS = Object.keys(FACILITY_LABELS) as (keyof ShelterFacilities)[];
+
+const INPUT_CLASS =
+  'w-full px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 outline-none';
+
+interface Draft {
+  name: string;
+  road_addr: string;
+  capacity: string;
+  area_sqm: string;
+  is_open: boolean;
+  is_24h_open: boolean;
+  facilities: ShelterFacilities;
+}
+
+function toDraft(s: Shelter): Draft {
+  return {
+    name: s.name,
+    road_addr: s.road_addr ?? '',
+    capacity: s.capacity != null ? String(s.capacity) : '',
+    area_sqm: s.area_sqm != null ? String(s.area_sqm) : '',
+    is_open: s.is_open,
+    is_24h_open: s.is_24h_open,
+    facilities: { ...s.facilities },
+  };
+}
+
+// 빈 칸 → null, 숫자가 아니거나 음수면 undefined
+function parseCount(value: string, integer: boolean): number | null | undefined {
+  const v = value.replace(/,/g, '').trim();
+  if (!v) return null;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0 || (integer && !Number.isInteger(n))) return undefined;
+  return n;
+}
+
+// 표 한 줄: 보기 ↔ 수정
+export default function AdminShelterRow({ shelter, selected, onSelect, onSave }: AdminShelterRowProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const capacity = parseCount(draft.capacity, true);
+    const area = parseCount(draft.area_sqm, false);
+    if (!draft.name.trim()) return setError('시설명을 입력하세요.');
+    if (capacity === undefined) return setError('수용 인원은 0 이상의 정수여야 합니다.');
+    if (area === undefined) return setError('면적은 0 이상의 숫자여야 합니다.');
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        name: draft.name.trim(),
+        road_addr: draft.road_addr.trim() || null,
+        capacity,
+        area_sqm: area,
+        is_open: draft.is_open,
+        is_24h_open: draft.is_24h_open,
+        facilities: draft.facilities,
+      });
+      setDraft(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '저장하지 못했습니다.');
+    }
+    setSaving(false);
+  };
+
+  const rowClass = `border-b border-gray-100 align-top ${selected ? 'bg-blue-50' : ''}`;
+
+  if (!draft) {
+    const facilityNames = FACILITY_KEYS.filter((k) => shelter.facilities[k]).map((k) => FACILITY_LABELS[k]);
+    return (
+      <tr className={rowClass}>
+        <td className="px-3 py-2 text-xs text-gray-500">{shelter.facility_serial}</td>
+        <td className="px-3 py-2">
+          <div className="text-sm text-gray-900">{shelter.name}</div>
+          <div className="text-xs text-gray-500">{shelter.road_addr ?? '주소 없음'}</div>
+        </td>
+        <td className="px-3 py-2 text-xs text-right">{shelter.capacity?.toLocaleString() ?? '-'}</td>
+        <td className="px-3 py-2 text-xs text-right">{shelter.area_sqm?.toLocaleString() ?? '-'}</td>
+        <td className="px-3 py-2 text-xs text-gray-600">
+          {[shelter.is_24h_open ? '24시간' : null, ...facilityNames].filter(Boolean).join(', ') || '-'}
+        </td>
+        <td className="px-3 py-2 text-xs">
+          <span className={shelter.is_open ? 'text-green-600' : 'text-red-600'}>
+            {shelter.is_open ? '운영' : '중지'}
+          </span>
+        </td>
+        <td className="px-3 py-2">
+          <div className="flex space-x-1">
+            <button
+              onClick={() => setDraft(toDraft(shelter))}
+              title="수정"
+              className="p-1 rounded hover:bg-gray-100 text-gray-600"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button onClick={onSelect} title="위치 수정" className="p-1 rounded hover:bg-gray-100 text-gray-600">
+              <MapPin className="w-4 h-4" />
+            </button>
+          </div>
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <tr className={rowClass}>
+      <td className="px-3 py-2 text-xs text-gray-500">{shelter.facility_serial}</td>
+      <td className="px-3 py-2 space-y-1">
+        <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={INPUT_CLASS} />
+        <input
+          value={draft.road_addr}
+          placeholder="도로명 주소"
+          onChange={(e) => update({ road_addr: e.target.value })}
+          className={INPUT_CLASS}
+        />
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </td>
+      <td className="px-3 py-2 w-24">
+        <input
+          inputMode="numeric"
+          value={draft.capacity}
+          onChange={(e) => update({ capacity: e.target.value })}
+          className={`${INPUT_CLASS} text-right`}
+        />
+      </td>
+      <td className="px-3 py-2 w-24">
+        <input
+          inputMode="decimal"
+          value={draft.area_sqm}
+          onChange={(e) => update({ area_sqm: e.target.value })}
+          className={`${INPUT_CLASS} text-right`}
+        />
+      </td>
+      <td className="px-3 py-2">
+        <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+          <label className="flex items-center space-x-1 text-xs">
+            <input
+              type="checkbox"
+              checked={draft.is_24h_open}
+              onChange={(e) => update({ is_24h_open: e.target.checked })}
+            />
+            <span>24시간</span>
+          </label>
+          {FACILITY_KEYS.map((k) => (
+            <label key={k} className="flex items-center space-x-1 text-xs">
+              <input
+                type="checkbox"
+                checked={draft.facilities[k]}
+                onChange={(e) => update({ facilities: { ...draft.facilities, [k]: e.target.checked } })}
+              />
+              <span>{FACILITY_LABELS[k]}</span>
+            </label>
+          ))}
+        </div>
+      </td>
+      <td className="px-3 py-2">
+        <select
+          value={draft.is_open ? 'open' : 'closed'}
+          onChange={(e) => update({ is_open: e.target.value === 'open' })}
+          className="text-xs border border-gray-300 rounded px-1 py-1"
+        >
+          <option value="open">운영</option>
+          <option value="closed">중지</option>
+        </select>
+      </td>
+      <td className="px-3 py-2">
+        <div className="flex space-x-1">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            title="저장"
+            className="p-1 rounded hover:bg-green-50 text-green-600 disabled:opacity-50"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => {
+              setDraft(null);
+              setError(null);
+            }}
+            disabled={saving}
+            title="취소"
+            className="p-1 rounded hover:bg-gray-100 text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+}
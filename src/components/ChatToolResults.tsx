@@ -0,0 +1,94 @@
+// src/components/ChatToolResults.tsx
+import { Activity, ChevronRight, Clock, MapPin, Users } from 'lucide-react';
+import type { ChatToolResult, ChatToolShelter } from '../lib/chatStream';
+
+interface ChatToolResultsProps {
+  results: ChatToolResult[];
+  // 카드를 누르면 대피소 상세 화면으로 (origin 이 있으면 그 위치 기준 거리/경로 표시)
+  onOpenShelter: (shelter: ChatToolShelter, origin: ChatToolResult['origin']) => void;
+}
+
+// AI 가이드 답변 아래에 도구 조회 결과(대피소 카드, 최근 지진 목록) 표시
+export default function ChatToolResults({ results, onOpenShelter }: ChatToolResultsProps) {
+  const visible = results.filter((r) => !r.error && ((r.shelters?.length ?? 0) > 0 || (r.earthquakes?.length ?? 0) > 0));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {visible.map((result, i) => (
+        <div key={`${result.tool}-${i}`} className="space-y-1.5">
+          {result.origin && (
+            <p className="flex items-center space-x-1 text-xs text-gray-500">
+              <MapPin className="w-3 h-3" />
+              <span>{result.origin.label} 기준 가까운 대피소</span>
+            </p>
+          )}
+
+          {result.shelters?.map((shelter) => (
+            <button
+              key={shelter.facilitySerial}
+              onClick={() => onOpenShelter(shelter, result.origin)}
+              className="w-full text-left bg-white border border-gray-200 rounded-lg px-3 py-2 hover:border-blue-400 hover:bg-blue-50 transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-sm text-gray-900">{shelter.name}</span>
+                <span className="flex items-center text-xs text-blue-600">
+                  {shelter.distanceKm != null && <span className="mr-1">{shelter.distanceKm.toFixed(1)}km</span>}
+                  <ChevronRight className="w-3 h-3" />
+                </span>
+              </div>
+              <p className="text-xs text-gray-600 mt-0.5">{shelter.address ?? '주소 정보 없음'}</p>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-[11px] text-gray-500">
+                {shelter.capacity != null && (
+                  <span className="flex items-center space-x-1">
+                    <Users className="w-3 h-3" />
+                    <span>
+                      {shelter.occupants != null && `${shelter.occupants.toLocaleString()} / `}
+                      {shelter.capacity.toLocaleString()}명
+                    </span>
+                  </span>
+                )}
+                {shelter.is24hOpen && (
+                  <span className="flex items-center space-x-1">
+                    <Clock className="w-3 h-3" />
+                    <span>24시간</span>
+                  </span>
+                )}
+                {!shelter.isOpen && <span className="text-red-600">운영 중단</span>}
+                {shelter.facilities.map((f) => (
+                  <span key={f} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                    {f}
+                  </span>
+                ))}
+              </div>
+            </button>
+          ))}
+
+          {result.earthquakes && result.earthquakes.length > 0 && (
+            <ul className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {result.earthquakes.map((eq) => (
+                <li key={`${eq.occurredAt}-${eq.location}`} className="flex items-center justify-between px-3 py-1.5 text-xs">
+                  <span className="flex items-center space-x-1.5 text-gray-700">
+                    <Activity className="w-3 h-3 text-orange-500" />
+                    <span>{eq.location}</span>
+                    <span className="text-gray-400">
+                      {new Date(eq.occurredAt).toLocaleString('ko-KR', {
+                        month: 'numeric',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </span>
+                  <span className="text-gray-600">
+                    M{eq.magnitude.toFixed(1)} · 파주 진도 {eq.pajuIntensity}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
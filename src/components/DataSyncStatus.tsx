@@ -0,0 +1,47 @@
+// src/components/DataSyncStatus.tsx
+import { WifiOff, RefreshCw } from 'lucide-react';
+
+interface DataSyncStatusProps {
+  syncedAt: string | null;
+  offline: boolean;
+  className?: string;
+}
+
+// "3분 전" / "2시간 전" / 날짜 형식으로 마지막 업데이트 시각 표시
+function formatSyncedAt(iso: string): string {
+  const diffMin = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (diffMin < 1) return '방금 전';
+  if (diffMin < 60) return `${diffMin}분 전`;
+  if (diffMin < 60 * 24) return `${Math.floor(diffMin / 60)}시간 전`;
+  return new Date(iso).toLocaleString('ko-KR', {
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function DataSyncStatus({ syncedAt, offline, className = '' }: DataSyncStatusProps) {
+  if (!syncedAt) {
+    return (
+      <span className={`text-[11px] text-gray-400 ${className}`}>
+        {offline ? '오프라인 – 저장된 대피소 정보가 없습니다' : '대피소 정보 동기화 중...'}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 text-[11px] ${
+        offline ? 'text-orange-600' : 'text-gray-500'
+      } ${className}`}
+      title={new Date(syncedAt).toLocaleString('ko-KR')}
+    >
+      {offline ? <WifiOff className="w-3 h-3" /> : <RefreshCw className="w-3 h-3" />}
+      <span>
+        마지막 업데이트: {formatSyncedAt(syncedAt)}
+        {offline && ' (오프라인 – 저장된 정보)'}
+      </span>
+    </span>
+  );
+}
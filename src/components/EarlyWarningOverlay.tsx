@@ -0,0 +1,131 @@
+// src/components/EarlyWarningOverlay.tsx
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, MapPin, X } from 'lucide-react';
+import { useEarlyWarning } from '../hooks/useEarlyWarning';
+import { useWatchPosition } from '../hooks/useWatchPosition';
+import { isSignificant, warningCountdown, warningIntensity, waveArrivals } from '../lib/earlyWarning';
+import { dismissEarlyWarning, replayEarlyWarning } from '../lib/earlyWarningStore';
+import { intensityClass, scenarioForIntensity } from '../lib/intensity';
+import { SCENARIOS } from '../data/safetyGuidance';
+import { EARLY_WARNING_FIXTURE, EARLY_WARNING_REPLAY_DELAY_MS } from '../data/earlyWarningFixture';
+
+// 위치 권한이 없을 때 기준 (파주시청)
+const FALLBACK_POSITION = { lat: 37.7599, lon: 126.78 };
+
+// 카운트다운 갱신 주기(ms)
+const TICK_MS = 100;
+
+interface EarlyWarningOverlayProps {
+  onNavigate: (page: string) => void;
+}
+
+// 큰 지진 통보를 받으면 S파(강한 흔들림) 도착까지 남은 시간을 전체 화면으로 표시
+// ?eew=replay 로 열면 가상 지진(EARLY_WARNING_FIXTURE)을 재생
+export default function EarlyWarningOverlay({ onNavigate }: EarlyWarningOverlayProps) {
+  const { event, clock, replay } = useEarlyWarning();
+  const { position } = useWatchPosition(event != null);
+  const [now, setNow] = useState(() => clock.now());
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('eew') === 'replay') {
+      replayEarlyWarning(EARLY_WARNING_FIXTURE, EARLY_WARNING_REPLAY_DELAY_MS);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!event) return;
+    setNow(clock.now());
+    const timer = window.setInterval(() => setNow(clock.now()), TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [event, clock]);
+
+  const lat = position?.lat ?? FALLBACK_POSITION.lat;
+  const lon = position?.lon ?? FALLBACK_POSITION.lon;
+  const arrivals = useMemo(() => (event ? waveArrivals(event, { lat, lon }) : null), [event, lat, lon]);
+
+  if (!event || !arrivals || !isSignificant(event, arrivals)) return null;
+
+  const { phase, secondsToP, secondsToS } = warningCountdown(arrivals, now);
+  const level = warningIntensity(event, arrivals);
+  const intensity = intensityClass(level);
+  const actions = SCENARIOS[scenarioForIntensity(level)].actions.slice(0, 3);
+
+  const headline =
+    phase === 'before_p' || phase === 'before_s'
+      ? '강한 흔들림까지'
+      : phase === 'shaking'
+        ? '지금 강한 흔들림이 옵니다'
+        : '흔들림이 멈추면 대피소로 이동하세요';
+
+  return (
+    <div
+      role="alertdialog"
+      aria-live="assertive"
+      aria-label="지진 조기경보"
+      className={`fixed inset-0 z-[100] flex flex-col text-white ${phase === 'ended' ? 'bg-gray-900' : 'bg-red-700'}`}
+    >
+      <div className="flex items-center justify-between px-6 py-4">
+        <div className="flex items-center space-x-2 font-bold">
+          <AlertTriangle className="w-6 h-6" />
+          <span>지진 조기경보</span>
+          {replay && <span className="ml-2 px-2 py-0.5 rounded-full bg-white/20 text-xs">재생 중 · 가상 지진</span>}
+        </div>
+        <button onClick={dismissEarlyWarning} className="p-2 rounded-full hover:bg-white/10" aria-label="닫기">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+        <p className="text-xl font-semibold mb-2">{headline}</p>
+        {(phase === 'before_p' || phase === 'before_s') && (
+          <p className="text-[8rem] leading-none font-black tabular-nums">
+            {Math.ceil(secondsToS)}
+            <span className="text-4xl font-bold ml-2">초</span>
+          </p>
+        )}
+        <p className="mt-4 text-sm text-white/80">
+          {phase === 'before_p' ? `P파(초기 미동) 도착까지 ${Math.ceil(secondsToP)}초` : 'P파 도착'} · 예상 진도{' '}
+          {intensity.roman} ({intensity.summary})
+        </p>
+
+        <ol className="mt-8 w-full max-w-md space-y-3 text-left">
+          {actions.map((action, i) => (
+            <li key={action} className="flex items-center space-x-3 bg-white/10 rounded-xl px-4 py-3 text-lg font-bold">
+              <span className="w-8 h-8 flex items-center justify-center rounded-full bg-white text-red-700">
+                {i + 1}
+              </span>
+              <span>{action}</span>
+            </li>
+          ))}
+        </ol>
+
+        {(phase === 'shaking' || phase === 'ended') && (
+          <button
+            onClick={() => {
+              dismissEarlyWarning();
+              onNavigate('search');
+            }}
+            className="mt-8 px-6 py-3 bg-white text-red-700 font-bold rounded-xl hover:bg-red-50"
+          >
+            가까운 대피소 찾기
+          </button>
+        )}
+      </div>
+
+      <div className="px-6 py-4 text-xs text-white/80 space-y-1">
+        <p>
+          {event.location} · 규모 {event.magnitude}
+          {event.depthKm != null && ` · 깊이 ${event.depthKm}km`} ·{' '}
+          {new Date(event.occurredAt).toLocaleTimeString('ko-KR')} 발생
+        </p>
+        <p className="flex items-center space-x-1">
+          <MapPin className="w-3 h-3" />
+          <span>
+            {position ? '현재 위치' : '파주시청'} 기준 진앙 거리 {arrivals.epicentralKm.toFixed(0)}km · 도착 시간은 평균
+            전파 속도(P파 6.0km/s, S파 3.5km/s)로 계산한 추정치입니다.
+          </span>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+// src/components/EarthquakeHistory.tsx
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { ChevronLeft, ChevronRight, Download, History } from 'lucide-react';
+import type { Earthquake } from '../lib/supabase';
+import { downloadCsv } from '../lib/csv';
+import {
+  earthquakesToCsv,
+  EMPTY_HISTORY_FILTERS,
+  fetchEarthquakePage,
+  fetchEarthquakeSeries,
+  HISTORY_SERIES_LIMIT,
+  magnitudeHistogram,
+  type HistoryFilters,
+} from '../lib/earthquakeHistory';
+import MagnitudeTimelineChart from './MagnitudeTimelineChart';
+import MagnitudeHistogram from './MagnitudeHistogram';
+
+const PAGE_SIZE = 20;
+
+const DISTANCE_OPTIONS = [50, 100, 200, 500];
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+function toNumberOrNull(value: string): number | null {
+  if (!value.trim()) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// /history – 지진 기록 (필터 + 페이지 + 차트 + CSV)
+export default function EarthquakeHistory() {
+  // 입력 중인 값과 실제 조회에 쓰는 값을 분리 ("적용"을 눌러야 조회)
+  const [draft, setDraft] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [page, setPage] = useState(0);
+
+  const [rows, setRows] = useState<Earthquake[]>([]);
+  const [total, setTotal] = useState(0);
+  const [series, setSeries] = useState<Earthquake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let canceled = false;
+    setLoading(true);
+    fetchEarthquakePage(filters, page, PAGE_SIZE)
+      .then((result) => {
+        if (canceled) return;
+        setRows(result.rows);
+        setTotal(result.total);
+        setError(null);
+      })
+      .catch(() => !canceled && setError('지진 기록을 불러오지 못했습니다.'))
+      .finally(() => !canceled && setLoading(false));
+    return () => {
+      canceled = true;
+    };
+  }, [filters, page]);
+
+  // 차트/CSV 용 전체 목록은 필터가 바뀔 때만
+  useEffect(() => {
+    let canceled = false;
+    fetchEarthquakeSeries(filters)
+      .then((list) => !canceled && setSeries(list))
+      .catch(() => !canceled && setSeries([]));
+    return () => {
+      canceled = true;
+    };
+  }, [filters]);
+
+  const bins = useMemo(() => magnitudeHistogram(series), [series]);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const handleApply = (e: FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+    setPage(0);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_HISTORY_FILTERS);
+    setFilters(EMPTY_HISTORY_FILTERS);
+    setPage(0);
+  };
+
+  const handleExport = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    downloadCsv(`paju-earthquakes-${today}.csv`, earthquakesToCsv(series));
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center space-x-2">
+          <History className="w-6 h-6 text-blue-600" />
+          <span>지진 기록</span>
+        </h1>
+        <p className="text-sm text-gray-600">기간, 규모, 파주와의 거리로 지진 기록을 찾아볼 수 있습니다.</p>
+      </div>
+
+      {/* 필터 */}
+      <form onSubmit={handleApply} className="bg-white rounded-xl border border-gray-200 p-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <label className="text-xs text-gray-600 space-y-1">
+            <span>시작일</span>
+            <input
+              type="date"
+              value={draft.from}
+              max={draft.to || undefined}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs text-gray-600 space-y-1">
+            <span>종료일</span>
+            <input
+              type="date"
+              value={draft.to}
+              min={draft.from || undefined}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs text-gray-600 space-y-1">
+            <span>최소 규모</span>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              placeholder="전체"
+              value={draft.minMagnitude ?? ''}
+              onChange={(e) => setDraft({ ...draft, minMagnitude: toNumberOrNull(e.target.value) })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs text-gray-600 space-y-1">
+            <span>최대 규모</span>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              placeholder="전체"
+              value={draft.maxMagnitude ?? ''}
+              onChange={(e) => setDraft({ ...draft, maxMagnitude: toNumberOrNull(e.target.value) })}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="text-xs text-gray-600 space-y-1">
+            <span>파주와의 거리</span>
+            <select
+              value={draft.maxDistanceKm ?? ''}
+              onChange={(e) => setDraft({ ...draft, maxDistanceKm: toNumberOrNull(e.target.value) })}
+              className={INPUT_CLASS}
+            >
+              <option value="">전체</option>
+              {DISTANCE_OPTIONS.map((km) => (
+                <option key={km} value={km}>
+                  {km}km 이내
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex justify-end space-x-2 mt-3">
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50"
+          >
+            초기화
+          </button>
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+            적용
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* 차트 */}
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">시간에 따른 규모</h2>
+          <MagnitudeTimelineChart rows={series} />
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">규모별 발생 빈도</h2>
+          <MagnitudeHistogram bins={bins} />
+        </div>
+      </div>
+      {series.length >= HISTORY_SERIES_LIMIT && (
+        <p className="text-xs text-gray-500">
+          차트와 CSV 는 최근 {HISTORY_SERIES_LIMIT.toLocaleString()}건까지만 포함합니다.
+        </p>
+      )}
+
+      {/* 목록 */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <span className="text-sm text-gray-700">총 {total.toLocaleString()}건</span>
+          <button
+            onClick={handleExport}
+            disabled={series.length === 0}
+            className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" />
+            <span>CSV 내보내기</span>
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-4 py-2 font-medium">발생 시각</th>
+                <th className="px-4 py-2 font-medium">위치</th>
+                <th className="px-4 py-2 font-medium text-right">규모</th>
+                <th className="px-4 py-2 font-medium text-right">깊이</th>
+                <th className="px-4 py-2 font-medium text-right">파주와의 거리</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((e) => (
+                <tr key={e.id} className="border-b border-gray-100 last:border-0">
+                  <td className="px-4 py-2 text-gray-700">{new Date(e.occurred_at).toLocaleString('ko-KR')}</td>
+                  <td className="px-4 py-2 text-gray-900">{e.location}</td>
+                  <td
+                    className={`px-4 py-2 text-right font-semibold ${
+                      e.magnitude >= 3.0 ? 'text-red-600' : 'text-yellow-600'
+                    }`}
+                  >
+                    {e.magnitude}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-600">{e.depth != null ? `${e.depth}km` : '-'}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{e.distance_from_paju}km</td>
+                </tr>
+              ))}
+              {!loading && rows.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                    조건에 맞는 지진이 없습니다.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-center space-x-4 px-4 py-3 border-t border-gray-200">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page === 0 || loading}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="이전 페이지"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm text-gray-700">
+            {page + 1} / {pageCount}
+          </span>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page + 1 >= pageCount || loading}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="다음 페이지"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
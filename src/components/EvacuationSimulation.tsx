@@ -9,200 +9,151 @@ import {
   Users,
   Package,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { geocodeWithNaver } from '../lib/naverGeocode';
+import { fetchNearestShelters } from '../lib/shelterRepository';
+import { geocodeWithPajuFallback } from '../lib/pajuGeocode';
+import { SCENARIO_MAGNITUDES, SCENARIOS, type Magnitude } from '../data/safetyGuidance';
+import { computeRoute, type RouteResult } from '../lib/routing';
+import type { LatLon } from '../lib/geo';
+import { useShelterOccupancy } from '../hooks/useShelterOccupancy';
+import { CONGESTION_LABELS, CONGESTION_STYLES, congestionLevel } from '../lib/occupancy';
+import RegionRiskCard from './RegionRiskCard';
+import {
+  DEFAULT_DEPTH_KM,
+  estimateIntensity,
+  intensityClass,
+  intensityLevel,
+  intensityStyle,
+  scenarioForIntensity,
+} from '../lib/intensity';
 
 type HousingType = 'apartment' | 'house' | null;
 type FamilySize = 'alone' | 'couple' | 'family' | null;
-type Magnitude = '3-4' | '4-5' | '5+' | null;
 
 type NearestShelter = {
+  facility_serial: number;
   name: string;
   address: string;
   capacity: number | null;
+  lat: number;
+  lon: number;
 };
 
-type ShelterRow = {
-  facility_serial: number;
-  name: string;
-  road_addr: string | null;
-  capacity: number | null;
-  lat: number | null;
-  lon: number | null;
+type RouteStepView = {
+  step: number;
+  action: string;
+  detail: string;
+  time: string;
 };
 
-// ----------------- 공통 유틸 -----------------
-const PAJU_LAT_MIN = 37.6;
-const PAJU_LAT_MAX = 37.95;
-const PAJU_LON_MIN = 126.6;
-const PAJU_LON_MAX = 127.1;
-
-function calcDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-function isInPaju(lat: number, lon: number): boolean {
-  return (
-    lat >= PAJU_LAT_MIN &&
-    lat <= PAJU_LAT_MAX &&
-    lon >= PAJU_LON_MIN &&
-    lon <= PAJU_LON_MAX
-  );
-}
-
-type SimplePoint = { lat: number; lon: number };
-
-async function geocodeWithPajuFallback(rawQuery: string): Promise<SimplePoint | null> {
-  const clean = rawQuery.trim();
-  if (!clean) return null;
-
-  try {
-    const first = await geocodeWithNaver(clean);
-    if (first && isInPaju(first.lat, first.lon)) {
-      return first;
-    }
-  } catch (e) {
-    console.error('[EvacSimulation] 1차 지오코딩 오류', e);
-  }
-
-  if (!clean.includes('파주')) {
-    try {
-      const second = await geocodeWithNaver(`파주시 ${clean}`);
-      if (second && isInPaju(second.lat, second.lon)) {
-        return second;
-      }
-    } catch (e) {
-      console.error('[EvacSimulation] 2차 지오코딩 오류', e);
-    }
-  }
-
-  return null;
-}
-
-async function findNearestShelter(address: string): Promise<NearestShelter | null> {
-  const geo = await geocodeWithPajuFallback(address);
-
-  const { data, error } = await supabase
-    .from<ShelterRow>('shelter_facilities')
-    .select('facility_serial,name,road_addr,capacity,lat,lon');
+// 집 밖으로 나오기까지 걸리는 시간(분) – 아파트는 계단 이용 기준
+const EXIT_MINUTES: Record<Exclude<HousingType, null>, number> = {
+  apartment: 3,
+  house: 1,
+};
 
-  if (error) {
-    console.error('[EvacSimulation] shelter_facilities 조회 오류', error);
-    return null;
-  }
-  if (!data || data.length === 0) return null;
-
-  // 지오코딩 실패 시: 첫 번째 대피소 사용
-  if (!geo) {
-    const s = data[0];
-    return {
-      name: s.name,
-      address: s.road_addr ?? '',
-      capacity: s.capacity ?? null,
-    };
-  }
+// 가상 진앙까지의 거리 선택지
+const EPICENTER_OPTIONS = [
+  { km: 10, hint: '파주 인근 단층 (임진강단층 등)' },
+  { km: 30, hint: '경기 북부·개성 일대' },
+  { km: 100, hint: '멀리서 발생한 지진' },
+];
 
-  let best = data[0];
-  let bestDist = Number.MAX_VALUE;
+// 경로 안내에 보여줄 최대 도로 구간 수 (나머지는 마지막 구간에 합침)
+const MAX_ROUTE_STEPS = 5;
 
-  for (const row of data) {
-    if (row.lat == null || row.lon == null) continue;
-    const d = calcDistanceKm(geo.lat, geo.lon, row.lat, row.lon);
-    if (d < bestDist) {
-      bestDist = d;
-      best = row;
-    }
-  }
+// ----------------- 공통 유틸 -----------------
+// 최근접 대피소는 서버 RPC로 조회 (실패 시 오프라인 캐시(IndexedDB)로 계산, 운영 중지·만원 대피소 제외)
+// 주소 좌표를 못 찾았거나 조건에 맞는 대피소가 없으면 shelter 는 null (임의의 대피소로 대신하지 않음)
+async function findNearestShelter(
+  address: string,
+): Promise<{ shelter: NearestShelter | null; origin: LatLon | null }> {
+  // 주소 검색을 쓸 수 없으면(오프라인 등) 좌표 없이 진행
+  const geocoded = await geocodeWithPajuFallback(address).catch(() => null);
+  const geo = geocoded?.point ?? null;
+  if (!geo) return { shelter: null, origin: null };
+
+  const best = (await fetchNearestShelters(geo, { limit: 1 }))[0]?.shelter;
+  if (!best) return { shelter: null, origin: geo };
 
   return {
-    name: best.name,
-    address: best.road_addr ?? '',
-    capacity: best.capacity ?? null,
+    shelter: {
+      facility_serial: best.facility_serial,
+      name: best.name,
+      address: best.road_addr ?? '',
+      capacity: best.capacity ?? null,
+      lat: best.lat,
+      lon: best.lon,
+    },
+    origin: geo,
   };
 }
 
+function formatDistance(m: number) {
+  return m >= 1000 ? `${(m / 1000).toFixed(1)}km` : `${Math.round(m / 10) * 10}m`;
+}
+
 // ----------------- 컴포넌트 -----------------
 export default function EvacuationSimulation() {
   const [step, setStep] = useState(1);
   const [address, setAddress] = useState('');
   const [housingType, setHousingType] = useState<HousingType>(null);
   const [familySize, setFamilySize] = useState<FamilySize>(null);
-  const [magnitude, setMagnitude] = useState<Magnitude>(null);
+  const [magnitude, setMagnitude] = useState<Magnitude | null>(null);
+  const [epicentralKm, setEpicentralKm] = useState(EPICENTER_OPTIONS[0].km);
   const [showResults, setShowResults] = useState(false);
   const [targetShelter, setTargetShelter] = useState<NearestShelter | null>(null);
+  const [evacRoute, setEvacRoute] = useState<RouteResult | null>(null);
   const [loadingShelter, setLoadingShelter] = useState(false);
+  // 입력한 주소의 좌표 (읍/면/동 위험도 표시용)
+  const [origin, setOrigin] = useState<LatLon | null>(null);
+  // 추천 대피소의 실시간 인원
+  const occupancy = useShelterOccupancy();
+  const congestion = targetShelter
+    ? congestionLevel(occupancy.bySerial.get(targetShelter.facility_serial), targetShelter.capacity)
+    : 'unknown';
 
   const handleStartSimulation = async () => {
     if (!(address && housingType && familySize && magnitude)) return;
 
     setLoadingShelter(true);
-    const shelter = await findNearestShelter(address);
-    setTargetShelter(shelter);
+    const found = await findNearestShelter(address);
+    setTargetShelter(found.shelter);
+    setOrigin(found.origin);
+
+    // 주소 좌표와 대피소를 모두 찾은 경우에만 실제 도보 경로 계산
+    const route =
+      found.origin && found.shelter
+        ? await computeRoute(
+            found.origin,
+            { lat: found.shelter.lat, lon: found.shelter.lon },
+            'walk',
+          )
+        : null;
+    setEvacRoute(route);
+
     setLoadingShelter(false);
     setShowResults(true);
   };
 
-  const getScenarioInfo = () => {
+  // 선택한 규모 구간 + 진앙 거리로 주소지 예상 진도 → 그에 맞는 행동 요령
+  const getShaking = () => {
     if (!magnitude) return null;
 
-    const scenarios = {
-      '3-4': {
-        title: '규모 3.0-4.0: 실내 대피',
-        description: '약한 흔들림이 느껴지지만 구조물 피해는 적습니다.',
-        actions: [
-          '튼튼한 탁자나 책상 아래로 대피',
-          '머리와 목을 보호',
-          '창문과 유리에서 멀리 떨어지기',
-          '가스와 전기 차단',
-          '문을 열어 탈출로 확보',
-        ],
-        color: 'yellow',
-      },
-      '4-5': {
-        title: '규모 4.0-5.0: 옥외 대피소 이동',
-        description: '강한 흔들림으로 건물 내부에 균열이 발생할 수 있습니다.',
-        actions: [
-          '즉시 건물 밖으로 대피',
-          '엘리베이터 사용 금지 (계단 이용)',
-          '낙하물 주의하며 이동',
-          '넓은 공터나 지정 대피소로 이동',
-          '비상 물품 가방 휴대',
-          '가족과 연락처 공유',
-        ],
-        color: 'orange',
-      },
-      '5+': {
-        title: '규모 5.0 이상: 긴급 대피',
-        description: '건물 붕괴 위험이 높습니다. 즉시 대피해야 합니다.',
-        actions: [
-          '즉시 건물에서 탈출',
-          '지정된 긴급 대피소로 이동',
-          '가족 비상 연락망 가동',
-          '구호물품 지원 장소 확인',
-          '여진에 대비하여 장기 체류 준비',
-          '정부 재난 문자 확인',
-        ],
-        color: 'red',
-      },
-    };
-
-    return scenarios[magnitude];
+    const level = intensityLevel(
+      estimateIntensity({ magnitude: SCENARIO_MAGNITUDES[magnitude], depthKm: null, epicentralKm }),
+    );
+    return { level, intensity: intensityClass(level), scenario: SCENARIOS[scenarioForIntensity(level)] };
   };
 
-  const getEvacuationRoute = (shelterName: string) => {
+  // 집에서 나오는 시간 + 경로 소요시간
+  const totalMinutes =
+    evacRoute && housingType ? EXIT_MINUTES[housingType] + evacRoute.minutes : null;
+
+  const getEvacuationRoute = (shelterName: string): RouteStepView[] => {
     const finalName = shelterName || '가장 가까운 대피소';
+    const exitMinutes = housingType ? EXIT_MINUTES[housingType] : 2;
 
-    const routes = [
+    const routes: RouteStepView[] = [
       {
         step: 1,
         action: '현재 위치에서 출발',
@@ -216,22 +167,57 @@ export default function EvacuationSimulation() {
           housingType === 'apartment'
             ? '엘리베이터 사용하지 않고 계단으로 이동'
             : '대문을 통해 안전하게 나가기',
-        time: '2-3분',
-      },
-      {
-        step: 3,
-        action: '주요 도로로 이동',
-        detail: '건물과 전봇대에서 멀리 떨어져 중앙으로 이동',
-        time: '5-7분',
-      },
-      {
-        step: 4,
-        action: `${finalName} 도착`,
-        detail: '대피소 입구에서 등록 후 지정된 장소로 이동',
-        time: '15분',
+        time: `${exitMinutes}분`,
       },
     ];
 
+    let elapsed = exitMinutes;
+
+    if (evacRoute && evacRoute.source === 'graph' && evacRoute.steps.length > 0) {
+      // 실제 경로의 도로 구간을 순서대로 안내
+      const shown = evacRoute.steps.slice(0, MAX_ROUTE_STEPS);
+      const rest = evacRoute.steps.slice(MAX_ROUTE_STEPS);
+      if (rest.length > 0) {
+        const last = shown[shown.length - 1];
+        shown[shown.length - 1] = {
+          name: last.name,
+          distanceM: last.distanceM + rest.reduce((sum, r) => sum + r.distanceM, 0),
+          minutes: last.minutes + rest.reduce((sum, r) => sum + r.minutes, 0),
+        };
+      }
+
+      shown.forEach((seg, i) => {
+        elapsed += seg.minutes;
+        const isLast = i === shown.length - 1 && rest.length > 0;
+        routes.push({
+          step: routes.length + 1,
+          action: seg.name ? `${seg.name} 따라 이동` : '골목길로 이동',
+          detail: isLast
+            ? `${formatDistance(seg.distanceM)} 이동 후 대피소 방향으로 계속 이동`
+            : `${formatDistance(seg.distanceM)} 이동 · 건물과 전봇대에서 멀리 떨어져 걷기`,
+          time: `${Math.round(elapsed)}분`,
+        });
+      });
+    } else {
+      // 도로 정보가 없으면 직선거리 기준 추정
+      elapsed += evacRoute ? evacRoute.minutes : 0;
+      routes.push({
+        step: routes.length + 1,
+        action: '대피소 방향으로 이동',
+        detail: evacRoute
+          ? `건물과 전봇대에서 멀리 떨어져 이동 (직선거리 약 ${evacRoute.distanceKm.toFixed(1)}km)`
+          : '건물과 전봇대에서 멀리 떨어져 중앙으로 이동',
+        time: evacRoute ? `${Math.round(elapsed)}분` : '-',
+      });
+    }
+
+    routes.push({
+      step: routes.length + 1,
+      action: `${finalName} 도착`,
+      detail: '대피소 입구에서 등록 후 지정된 장소로 이동',
+      time: totalMinutes != null ? `${totalMinutes}분` : '-',
+    });
+
     return routes;
   };
 
@@ -260,7 +246,8 @@ export default function EvacuationSimulation() {
   };
 
   if (showResults) {
-    const scenario = getScenarioInfo();
+    const shaking = getShaking();
+    const scenario = shaking?.scenario ?? null;
     const routes = getEvacuationRoute(targetShelter?.name ?? '');
     const items = getPreparationItems();
 
@@ -276,7 +263,10 @@ export default function EvacuationSimulation() {
                 setHousingType(null);
                 setFamilySize(null);
                 setMagnitude(null);
+                setEpicentralKm(EPICENTER_OPTIONS[0].km);
                 setTargetShelter(null);
+                setEvacRoute(null);
+                setOrigin(null);
               }}
               className="text-blue-600 hover:text-blue-700 font-medium mb-4"
             >
@@ -290,7 +280,7 @@ export default function EvacuationSimulation() {
 
           <div className="grid lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2 space-y-6">
-              {scenario && (
+              {scenario && shaking && magnitude && (
                 <div
                   className={`bg-gradient-to-br from-${scenario.color}-50 to-${scenario.color}-100 border-2 border-${scenario.color}-300 rounded-xl p-6`}
                 >
@@ -301,6 +291,22 @@ export default function EvacuationSimulation() {
                       <AlertTriangle className="w-6 h-6 text-white" />
                     </div>
                     <div>
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <span
+                          className={`px-2.5 py-1 rounded-full text-sm font-bold ${intensityStyle(shaking.level)}`}
+                        >
+                          예상 진도 {shaking.intensity.roman}
+                        </span>
+                        <span className="text-sm text-gray-700">{shaking.intensity.summary}</span>
+                      </div>
+                      <p className="text-sm text-gray-700 mb-1">
+                        {address}에서는 진도 {shaking.intensity.roman} 정도의 흔들림을 느꼈을 가능성이
+                        높습니다. {shaking.intensity.description}
+                      </p>
+                      <p className="text-xs text-gray-500 mb-4">
+                        규모 {SCENARIO_MAGNITUDES[magnitude]} · 진앙 거리 {epicentralKm}km · 깊이{' '}
+                        {DEFAULT_DEPTH_KM}km 가정 (지반·건물 층수에 따라 ±1 정도 차이)
+                      </p>
                       <h2 className="text-xl font-bold text-gray-900 mb-2">
                         {scenario.title}
                       </h2>
@@ -356,13 +362,31 @@ export default function EvacuationSimulation() {
                   <div className="flex items-center justify-between">
                     <div>
                       <div className="text-sm text-gray-600 mb-1">예상 소요시간</div>
-                      <div className="text-2xl font-bold text-blue-600">약 15분</div>
+                      <div className="text-2xl font-bold text-blue-600">
+                        {totalMinutes != null ? `약 ${totalMinutes}분` : '정보 없음'}
+                      </div>
                     </div>
                     <div>
-                      <div className="text-sm text-gray-600 mb-1">이동 거리</div>
-                      <div className="text-2xl font-bold text-gray-900">1.2km</div>
+                      <div className="text-sm text-gray-600 mb-1">
+                        {evacRoute?.source === 'estimate' ? '직선거리' : '이동 거리'}
+                      </div>
+                      <div className="text-2xl font-bold text-gray-900">
+                        {evacRoute ? `${evacRoute.distanceKm.toFixed(1)}km` : '정보 없음'}
+                      </div>
                     </div>
                   </div>
+                  {evacRoute?.source === 'estimate' && (
+                    <p className="text-xs text-amber-700 mt-2">
+                      이 위치는 도로 경로 정보가 없어 실제 경로가 아닌 직선거리로 추정했습니다.
+                    </p>
+                  )}
+                  {!evacRoute && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      {origin && !targetShelter
+                        ? '안내할 수 있는 대피소가 없어 경로를 계산하지 못했습니다.'
+                        : '입력한 주소의 위치를 찾지 못해 경로를 계산하지 못했습니다.'}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -374,29 +398,44 @@ export default function EvacuationSimulation() {
                 </h2>
 
                 <div className="space-y-4">
-                  <div>
-                    <h3 className="font-bold text-gray-900 mb-2">
-                      {targetShelter?.name ?? '가까운 대피소'}
-                    </h3>
-                    <p className="text-gray-600 text-sm mb-3">
-                      {targetShelter?.address || '주소 정보 없음'}
-                    </p>
-                  </div>
+                  {targetShelter ? (
+                    <>
+                      <div>
+                        <h3 className="font-bold text-gray-900 mb-2">{targetShelter.name}</h3>
+                        <p className="text-gray-600 text-sm mb-3">
+                          {targetShelter.address || '주소 정보 없음'}
+                        </p>
+                      </div>
 
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="p-4 bg-gray-50 rounded-lg">
-                      <div className="text-sm text-gray-600 mb-1">수용 인원</div>
-                      <div className="text-xl font-bold text-gray-900">
-                        {targetShelter?.capacity != null
-                          ? `${targetShelter.capacity.toLocaleString()}명`
-                          : '정보 없음'}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="p-4 bg-gray-50 rounded-lg">
+                          <div className="text-sm text-gray-600 mb-1">수용 인원</div>
+                          <div className="text-xl font-bold text-gray-900">
+                            {targetShelter.capacity != null
+                              ? `${targetShelter.capacity.toLocaleString()}명`
+                              : '정보 없음'}
+                          </div>
+                        </div>
+                        <div className={`p-4 rounded-lg ${CONGESTION_STYLES[congestion].bg}`}>
+                          <div className="text-sm text-gray-600 mb-1">현재 혼잡도</div>
+                          <div className={`text-xl font-bold ${CONGESTION_STYLES[congestion].text}`}>
+                            {CONGESTION_LABELS[congestion]}
+                          </div>
+                        </div>
                       </div>
+                    </>
+                  ) : (
+                    // 주소 좌표를 못 찾았거나 운영 중이고 자리가 남은 대피소가 없음 – 임의의 대피소를 추천하지 않음
+                    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                      <h3 className="font-bold text-gray-900 mb-1">안내할 수 있는 대피소가 없습니다</h3>
+                      <p className="text-sm text-gray-700">
+                        {origin
+                          ? '입력한 위치 근처에 지금 운영 중이고 수용 여유가 있는 대피소를 찾지 못했습니다.'
+                          : '입력한 주소의 위치를 찾지 못해 가까운 대피소를 고를 수 없습니다.'}{' '}
+                        대피소 검색 화면에서 읍/면/동 이름이나 현재 위치로 다시 찾아 주세요.
+                      </p>
                     </div>
-                    <div className="p-4 bg-gray-50 rounded-lg">
-                      <div className="text-sm text-gray-600 mb-1">현재 예상 혼잡도</div>
-                      <div className="text-xl font-bold text-green-600">여유</div>
-                    </div>
-                  </div>
+                  )}
 
                   {/* ✅ 시설 정보 블록 삭제됨 */}
 
@@ -418,6 +457,8 @@ export default function EvacuationSimulation() {
 
             {/* 오른쪽 사이드 패널 그대로 */}
             <div className="space-y-6">
+              {origin && <RegionRiskCard point={origin} defaultExpanded className="shadow-sm" />}
+
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
                 <h3 className="font-bold text-gray-900 mb-4 flex items-center space-x-2">
                   <Package className="w-5 h-5 text-blue-600" />
@@ -744,6 +785,29 @@ export default function EvacuationSimulation() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-bold text-gray-900 mb-3">진앙까지의 거리</label>
+                <div className="grid grid-cols-3 gap-3">
+                  {EPICENTER_OPTIONS.map((option) => (
+                    <button
+                      key={option.km}
+                      onClick={() => setEpicentralKm(option.km)}
+                      className={`p-3 border-2 rounded-lg transition-colors text-left ${
+                        epicentralKm === option.km
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="font-bold text-gray-900 mb-1">{option.km}km</div>
+                      <div className="text-xs text-gray-600">{option.hint}</div>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  같은 규모라도 진앙에서 멀수록 흔들림(진도)이 약해집니다.
+                </p>
+              </div>
+
               <div className="flex space-x-3">
                 <button
                   onClick={() => setStep(3)}
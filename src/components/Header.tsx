@@ -29,6 +29,14 @@ export default function Header({ currentPage, onNavigate }: HeaderProps) {
             >
               대피소 찾기
             </button>
+            <button
+              onClick={() => onNavigate('risk')}
+              className={`text-sm font-medium transition-colors ${
+                currentPage === 'risk' ? 'text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              위험도 지도
+            </button>
             <button
               onClick={() => onNavigate('guide')}
               className={`text-sm font-medium transition-colors ${
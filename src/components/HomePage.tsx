@@ -6,8 +6,17 @@ import {
   AlertTriangle,
   CheckCircle2,
   Navigation as NavigationIcon,
+  LocateFixed,
 } from 'lucide-react';
 import { supabase, type Earthquake } from '../lib/supabase';
+import { useShelterDataset } from '../hooks/useShelterDataset';
+import DataSyncStatus from './DataSyncStatus';
+import SearchAutocomplete from './SearchAutocomplete';
+import type { Suggestion } from '../lib/suggest';
+import { earthquakeIntensityAt, intensityClass, intensityStyle } from '../lib/intensity';
+
+// 최근 지진 목록의 예상 진도 기준 지점 (파주시청)
+const PAJU_CITY_HALL = { lat: 37.7599, lon: 126.78 };
 
 interface HomePageProps {
   onNavigate: (page: string) => void;
@@ -15,8 +24,10 @@ interface HomePageProps {
 
 export default function HomePage({ onNavigate }: HomePageProps) {
   const [searchAddress, setSearchAddress] = useState('');
-  const [shelterCount, setShelterCount] = useState(0);
-  const [totalCapacity, setTotalCapacity] = useState(0);
+  // 대피소 통계는 오프라인 캐시된 데이터셋 기준
+  const dataset = useShelterDataset();
+  const shelterCount = dataset.shelters.length;
+  const totalCapacity = dataset.shelters.reduce((sum, s) => sum + (s.capacity ?? 0), 0);
   const [recentEarthquakes, setRecentEarthquakes] = useState<Earthquake[]>([]);
   const [riskScore, setRiskScore] = useState<number | null>(null); // DB risk_score 그대로
 
@@ -25,22 +36,7 @@ export default function HomePage({ onNavigate }: HomePageProps) {
   }, []);
 
   const loadStats = async () => {
-    // 1) 대피소 통계 (public.shelter_facilities)
-    const { data: shelters } = await supabase
-      .from('shelter_facilities')
-      .select('capacity');
-
-    if (shelters) {
-      setShelterCount(shelters.length);
-      setTotalCapacity(
-        shelters.reduce(
-          (sum: number, s: { capacity: number | null }) => sum + (s.capacity ?? 0),
-          0,
-        ),
-      );
-    }
-
-    // 2) 최근 지진 정보
+    // 1) 최근 지진 정보
     const { data: earthquakes } = await supabase
       .from('earthquakes')
       .select('*')
@@ -51,10 +47,11 @@ export default function HomePage({ onNavigate }: HomePageProps) {
       setRecentEarthquakes(earthquakes);
     }
 
-    // 3) 파주 위험도 (public.earthquakerisk_paju)
+    // 2) 파주 위험도 (public.earthquakerisk_paju, 가장 최근 계산값)
     const { data: riskData, error: riskError } = await supabase
       .from('earthquakerisk_paju')
       .select('risk_score')
+      .order('computed_at', { ascending: false })
       .limit(1)
       .single();
 
@@ -72,6 +69,18 @@ export default function HomePage({ onNavigate }: HomePageProps) {
     onNavigate('search');
   };
 
+  // 자동완성 후보 선택 → search 화면에서 해당 종류(행정구역/도로명/대피소)로 바로 검색
+  const handleSelectSuggestion = (s: Suggestion) => {
+    window.sessionStorage.setItem('quake_lastSuggestion', JSON.stringify(s));
+    onNavigate('search');
+  };
+
+  // 현재 위치 기준으로 바로 대피소 찾기 (search 화면에서 GPS 모드로 시작)
+  const handleSearchNearMe = () => {
+    window.sessionStorage.setItem('quake_useGps', '1');
+    onNavigate('search');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
       {/* 히어로 섹션 */}
@@ -95,13 +104,15 @@ export default function HomePage({ onNavigate }: HomePageProps) {
             {/* 검색 입력 */}
             <div className="flex items-center space-x-2 mb-4">
               <Search className="w-5 h-5 text-gray-400" />
-              <input
-                type="text"
-                placeholder="주소 또는 동네 입력"
+              <SearchAutocomplete
+                placeholder="주소, 동네 또는 대피소 이름 입력"
                 value={searchAddress}
-                onChange={(e) => setSearchAddress(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                className="flex-1 outline-none text-gray-900 placeholder-gray-400"
+                onChange={setSearchAddress}
+                onSubmit={handleSearch}
+                onSelectSuggestion={handleSelectSuggestion}
+                shelters={dataset.shelters}
+                className="flex-1"
+                inputClassName="w-full outline-none text-gray-900 placeholder-gray-400"
               />
               <button
                 onClick={handleSearch}
@@ -111,6 +122,15 @@ export default function HomePage({ onNavigate }: HomePageProps) {
               </button>
             </div>
 
+            {/* 현재 위치로 바로 찾기 */}
+            <button
+              onClick={handleSearchNearMe}
+              className="w-full mb-4 px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium flex items-center justify-center space-x-2"
+            >
+              <LocateFixed className="w-5 h-5" />
+              <span>내 위치에서 가장 가까운 대피소 찾기</span>
+            </button>
+
             {/* 주요 버튼 */}
             <div className="flex items-center justify-center space-x-4">
               <button
@@ -192,7 +212,10 @@ export default function HomePage({ onNavigate }: HomePageProps) {
         </div>
 
         {/* 현황판 */}
-        <h2 className="text-2xl font-bold text-gray-900 mb-8">현황판</h2>
+        <div className="flex items-end justify-between mb-8">
+          <h2 className="text-2xl font-bold text-gray-900">현황판</h2>
+          <DataSyncStatus syncedAt={dataset.syncedAt} offline={dataset.offline} />
+        </div>
 
         <div className="grid md:grid-cols-3 gap-6 mb-16">
           <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-100">
@@ -231,42 +254,56 @@ export default function HomePage({ onNavigate }: HomePageProps) {
             </div>
           ) : (
             <div className="space-y-4">
-              {recentEarthquakes.map((eq) => (
-                <div
-                  key={eq.id}
-                  className="flex items-center justify-between py-3 border-b border-gray-100 last:border-0"
-                >
-                  <div>
-                    <div className="text-sm text-gray-600 mb-1">발생 위치 및 시간</div>
-                    <div className="font-medium text-gray-900">
-                      {new Date(eq.occurred_at).toLocaleString('ko-KR')}
+              {recentEarthquakes.map((eq) => {
+                const level = earthquakeIntensityAt(eq, PAJU_CITY_HALL);
+                const intensity = intensityClass(level);
+                return (
+                  <div
+                    key={eq.id}
+                    className="flex items-center justify-between py-3 border-b border-gray-100 last:border-0"
+                  >
+                    <div>
+                      <div className="text-sm text-gray-600 mb-1">발생 위치 및 시간</div>
+                      <div className="font-medium text-gray-900">
+                        {new Date(eq.occurred_at).toLocaleString('ko-KR')}
+                      </div>
                     </div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-sm text-gray-600 mb-1">위치</div>
-                    <div className="font-medium text-gray-900">{eq.location}</div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm text-gray-600 mb-1">규모</div>
-                    <div
-                      className={`text-2xl font-bold ${
-                        eq.magnitude >= 3.0 ? 'text-red-600' : 'text-yellow-600'
-                      }`}
-                    >
-                      {eq.magnitude}
+                    <div className="text-center">
+                      <div className="text-sm text-gray-600 mb-1">위치</div>
+                      <div className="font-medium text-gray-900">{eq.location}</div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm text-gray-600 mb-1">규모</div>
+                      <div
+                        className={`text-2xl font-bold ${
+                          eq.magnitude >= 3.0 ? 'text-red-600' : 'text-yellow-600'
+                        }`}
+                      >
+                        {eq.magnitude}
+                      </div>
+                    </div>
+                    <div className="text-right" title={intensity.description}>
+                      <div className="text-sm text-gray-600 mb-1">파주 예상 진도</div>
+                      <span className={`px-2 py-0.5 rounded-full text-sm font-bold ${intensityStyle(level)}`}>
+                        {intensity.roman}
+                      </span>
+                      <div className="text-xs text-gray-500 mt-1">{intensity.summary}</div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
 
               <div className="flex items-center justify-between pt-4">
                 <button
-                  onClick={() => onNavigate('risk')}
+                  onClick={() => onNavigate('history')}
                   className="text-blue-600 font-medium hover:text-blue-700 transition-colors"
                 >
                   전체 기록 보기 →
                 </button>
-                <button className="text-blue-600 font-medium hover:text-blue-700 transition-colors">
+                <button
+                  onClick={() => onNavigate('risk')}
+                  className="text-blue-600 font-medium hover:text-blue-700 transition-colors"
+                >
                   지진 위험도 지도 보기 →
                 </button>
               </div>
@@ -0,0 +1,61 @@
+// src/components/MagnitudeHistogram.tsx
+import type { MagnitudeBin } from '../lib/earthquakeHistory';
+
+interface MagnitudeHistogramProps {
+  bins: MagnitudeBin[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 28, left: 36 };
+
+// 규모 구간별 발생 횟수
+export default function MagnitudeHistogram({ bins }: MagnitudeHistogramProps) {
+  if (bins.length === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">표시할 지진이 없습니다.</p>;
+  }
+
+  const maxCount = Math.max(...bins.map((b) => b.count), 1);
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const barW = plotW / bins.length;
+  const h = (c: number) => (c / maxCount) * plotH;
+
+  // 세로 눈금 4칸 (정수)
+  const step = Math.max(1, Math.ceil(maxCount / 4));
+  const yTicks = Array.from({ length: Math.floor(maxCount / step) + 1 }, (_, i) => i * step);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="규모별 발생 빈도">
+      {yTicks.map((c) => (
+        <g key={c}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={PAD.top + plotH - h(c)} y2={PAD.top + plotH - h(c)} stroke="#f3f4f6" />
+          <text x={PAD.left - 6} y={PAD.top + plotH - h(c) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+            {c}
+          </text>
+        </g>
+      ))}
+
+      {bins.map((b, i) => (
+        <g key={b.min}>
+          <rect
+            x={PAD.left + i * barW + 2}
+            y={PAD.top + plotH - h(b.count)}
+            width={Math.max(barW - 4, 1)}
+            height={h(b.count)}
+            fill={b.min >= 3 ? '#dc2626' : '#3b82f6'}
+            fillOpacity={0.75}
+          >
+            <title>
+              규모 {b.min.toFixed(1)}~{b.max.toFixed(1)}: {b.count}건
+            </title>
+          </rect>
+          <text x={PAD.left + i * barW + barW / 2} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+            {b.min.toFixed(1)}
+          </text>
+        </g>
+      ))}
+      <line x1={PAD.left} x2={WIDTH - PAD.right} y1={PAD.top + plotH} y2={PAD.top + plotH} stroke="#d1d5db" />
+    </svg>
+  );
+}
@@ -0,0 +1,70 @@
+// src/components/MagnitudeTimelineChart.tsx
+import type { Earthquake } from '../lib/supabase';
+
+interface MagnitudeTimelineChartProps {
+  rows: Earthquake[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 16, bottom: 28, left: 36 };
+const X_TICKS = 5;
+
+// 시간에 따른 규모 (점 하나 = 지진 하나)
+export default function MagnitudeTimelineChart({ rows }: MagnitudeTimelineChartProps) {
+  if (rows.length === 0) {
+    return <p className="py-12 text-center text-sm text-gray-500">표시할 지진이 없습니다.</p>;
+  }
+
+  const times = rows.map((r) => Date.parse(r.occurred_at));
+  const t0 = Math.min(...times);
+  // 한 건뿐이면 하루 폭으로
+  const t1 = Math.max(Math.max(...times), t0 + 86400_000);
+  const maxMag = Math.max(3, Math.ceil(Math.max(...rows.map((r) => Number(r.magnitude)))));
+
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (t: number) => PAD.left + ((t - t0) / (t1 - t0)) * plotW;
+  const y = (m: number) => PAD.top + plotH - (m / maxMag) * plotH;
+
+  const yTicks = Array.from({ length: maxMag + 1 }, (_, i) => i);
+  const xTicks = Array.from({ length: X_TICKS }, (_, i) => t0 + ((t1 - t0) * i) / (X_TICKS - 1));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="시간에 따른 규모">
+      {yTicks.map((m) => (
+        <g key={m}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(m)} y2={y(m)} stroke="#f3f4f6" />
+          <text x={PAD.left - 6} y={y(m) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+            {m}
+          </text>
+        </g>
+      ))}
+      {xTicks.map((t) => (
+        <text key={t} x={x(t)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+          {new Date(t).toLocaleDateString('ko-KR', { year: '2-digit', month: 'numeric', day: 'numeric' })}
+        </text>
+      ))}
+      <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#d1d5db" />
+
+      {rows.map((r) => {
+        const m = Number(r.magnitude);
+        return (
+          <circle
+            key={r.id}
+            cx={x(Date.parse(r.occurred_at))}
+            cy={y(m)}
+            r={3 + Math.max(m - 2, 0)}
+            fill={m >= 3 ? '#dc2626' : '#f59e0b'}
+            fillOpacity={0.6}
+            stroke="#fff"
+          >
+            <title>
+              {new Date(r.occurred_at).toLocaleString('ko-KR')} · {r.location} · 규모 {m}
+            </title>
+          </circle>
+        );
+      })}
+    </svg>
+  );
+}
@@ -1,89 +1,502 @@
 // src/components/NaverMap.tsx
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import type { Shelter } from '../lib/supabase';
 import { loadNaverMap } from '../lib/loadNaverMap';
+import type { LatLon } from '../lib/geo';
+import type { EmdArea } from '../lib/pajuBoundary';
+import {
+  CONGESTION_LABELS,
+  congestionLevel,
+  type CongestionLevel,
+  type ShelterOccupancy,
+} from '../lib/occupancy';
+
+const NO_OUTLINES: EmdArea[] = [];
+const NO_OCCUPANCY = new Map<number, ShelterOccupancy>();
+
+// 파주시 대략 중심
+const DEFAULT_CENTER = { lat: 37.7599, lon: 126.78 };
+const DEFAULT_ZOOM = 11;
+
+// 이 줌 미만에서는 가까운 마커를 묶어서 표시
+const CLUSTER_MAX_ZOOM = 13;
+// 묶음 격자 한 칸 크기(px)
+const CLUSTER_GRID_PX = 60;
+// 선택한 대피소를 보여줄 최소 줌 (묶음이 풀리는 줌)
+const SELECT_ZOOM = 14;
+
+// 결과에 맞춰 화면을 맞출 때 가장자리 여백(px) / 최대 줌
+const FIT_MARGIN = { top: 48, right: 48, bottom: 48, left: 48 };
+const FIT_MAX_ZOOM = 15;
+
+// ---- 네이버 지도 객체 중 여기서 쓰는 부분만 타입 선언 ----
+interface Overlay {
+  setMap(map: unknown): void;
+}
+
+interface NaverMarker extends Overlay {
+  setIcon(icon: unknown): void;
+  setZIndex(zIndex: number): void;
+  setVisible(visible: boolean): void;
+}
+
+interface NaverInfoWindow {
+  open(map: unknown, anchor: unknown): void;
+  close(): void;
+}
+
+interface NaverMapInstance {
+  getZoom(): number;
+  setZoom(zoom: number, effect?: boolean): void;
+  setCenter(latlng: unknown): void;
+  morph(latlng: unknown, zoom?: number): void;
+  fitBounds(bounds: unknown, margin?: unknown): void;
+  destroy(): void;
+}
+
+type Listener = unknown;
+
+interface MarkerEntry {
+  shelter: Shelter;
+  marker: NaverMarker;
+  listener: Listener;
+}
 
 interface NaverMapProps {
   shelters: Shelter[];
   userPos: { lat: number; lon: number } | null;
+  // 현재 위치(GPS) 정확도 반경(m) – 있으면 기준점 주변에 원으로 표시
+  userAccuracy?: number | null;
   selectedShelter: Shelter | null;
+  // 기준점 → 선택 대피소 경로 (있으면 선으로 표시)
+  routePath?: LatLon[] | null;
+  // 경로가 도로 그래프가 아닌 직선거리 추정이면 점선으로 표시
+  routeIsEstimate?: boolean;
+  // 행정구역 검색 시 해당 지역 경계
+  regionOutlines?: EmdArea[];
+  // 대피소별 실시간 인원 (마커 색 = 혼잡도)
+  occupancy?: Map<number, ShelterOccupancy>;
+  // 마커 클릭 → 선택 (강조 + 정보창)
   onSelectShelter: (s: Shelter) => void;
+  // 정보창의 "상세 보기"
+  onOpenDetail?: (s: Shelter) => void;
+}
+
+// 혼잡도별 마커 색상 (인원 집계가 없는 대피소는 파란색)
+const CONGESTION_COLORS: Record<CongestionLevel, string> = {
+  unknown: '#2563eb',
+  smooth: '#16a34a',
+  normal: '#ca8a04',
+  crowded: '#ea580c',
+  full: '#dc2626',
+};
+
+// 수용 인원 구간별 마커 크기
+type CapacityTier = 'large' | 'medium' | 'small' | 'unknown';
+
+const TIER_SIZES: Record<CapacityTier, number> = {
+  large: 18,
+  medium: 14,
+  small: 11,
+  unknown: 11,
+};
+
+function capacityTier(capacity: number | null): CapacityTier {
+  if (capacity == null) return 'unknown';
+  if (capacity >= 1000) return 'large';
+  if (capacity >= 300) return 'medium';
+  return 'small';
+}
+
+// 마커 모양에 영향을 주는 값이 같으면 같은 마커로 본다 (재조회로 객체만 바뀐 경우 재사용)
+function sameMarkerData(a: Shelter, b: Shelter): boolean {
+  return (
+    a.lat === b.lat &&
+    a.lon === b.lon &&
+    a.name === b.name &&
+    a.capacity === b.capacity &&
+    a.road_addr === b.road_addr
+  );
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function markerIcon(shelter: Shelter, selected: boolean, occupancy: ShelterOccupancy | undefined) {
+  const maps = window.naver.maps;
+  const color = CONGESTION_COLORS[congestionLevel(occupancy, shelter.capacity)];
+  const size = selected ? 22 : TIER_SIZES[capacityTier(shelter.capacity)];
+  // 선택한 마커는 크게 + 빨간 테두리
+  const ring = selected
+    ? 'box-shadow:0 0 0 4px rgba(220,38,38,0.45);'
+    : 'box-shadow:0 0 3px rgba(0,0,0,0.35);';
+  return {
+    content: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${color};border:2px solid #fff;${ring}"></div>`,
+    anchor: new maps.Point(size / 2 + 2, size / 2 + 2),
+  };
+}
+
+function clusterIcon(count: number) {
+  const maps = window.naver.maps;
+  const size = count >= 50 ? 46 : count >= 10 ? 38 : 30;
+  return {
+    content: `<div style="width:${size}px;height:${size}px;line-height:${size}px;border-radius:50%;background:rgba(37,99,235,0.85);color:#fff;font-size:12px;font-weight:600;text-align:center;border:2px solid #fff;box-shadow:0 0 4px rgba(0,0,0,0.3);">${count}</div>`,
+    anchor: new maps.Point(size / 2 + 2, size / 2 + 2),
+  };
+}
+
+// 줌 레벨에 맞춘 위경도 격자로 묶기 (격자 한 칸 ≈ CLUSTER_GRID_PX 픽셀)
+function gridClusters(shelters: Shelter[], zoom: number): Shelter[][] {
+  const cellDeg = (CLUSTER_GRID_PX * 360) / (256 * 2 ** zoom);
+  const cells = new Map<string, Shelter[]>();
+  for (const s of shelters) {
+    const key = `${Math.floor(s.lon / cellDeg)}:${Math.floor(s.lat / cellDeg)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(s);
+    else cells.set(key, [s]);
+  }
+  return [...cells.values()];
+}
+
+function boundsOf(points: LatLon[]) {
+  const maps = window.naver.maps;
+  const bounds = new maps.LatLngBounds(
+    new maps.LatLng(points[0].lat, points[0].lon),
+    new maps.LatLng(points[0].lat, points[0].lon),
+  );
+  points.slice(1).forEach((p) => bounds.extend(new maps.LatLng(p.lat, p.lon)));
+  return bounds;
 }
 
 export default function NaverMap({
   shelters,
   userPos,
+  userAccuracy = null,
   selectedShelter,
+  routePath = null,
+  routeIsEstimate = false,
+  regionOutlines = NO_OUTLINES,
+  occupancy = NO_OCCUPANCY,
   onSelectShelter,
+  onOpenDetail,
 }: NaverMapProps) {
   const mapRef = useRef<HTMLDivElement | null>(null);
-  const mapInstanceRef = useRef<any>(null);
+  const [map, setMap] = useState<NaverMapInstance | null>(null);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+
+  const markersRef = useRef(new Map<number, MarkerEntry>());
+  const clusterMarkersRef = useRef<{ marker: NaverMarker; listener: Listener }[]>([]);
+  const userOverlaysRef = useRef<Overlay[]>([]);
+  const outlineOverlaysRef = useRef<Overlay[]>([]);
+  const routeLineRef = useRef<Overlay | null>(null);
+  const infoWindowRef = useRef<NaverInfoWindow | null>(null);
+  // 정보창의 현재 인원 줄 (인원이 바뀌면 정보창을 다시 열지 않고 글자만 갱신)
+  const occupancyLineRef = useRef<HTMLDivElement | null>(null);
+
+  // 마커 리스너가 항상 최신 콜백을 부르도록 ref 로 보관 (콜백이 바뀌어도 마커 재생성 없음)
+  const onSelectRef = useRef(onSelectShelter);
+  const onOpenDetailRef = useRef(onOpenDetail);
+  useEffect(() => {
+    onSelectRef.current = onSelectShelter;
+    onOpenDetailRef.current = onOpenDetail;
+  }, [onSelectShelter, onOpenDetail]);
+
+  const selectedSerial = selectedShelter?.facility_serial ?? null;
 
-  // 지도 생성 + 마커 표시
+  // 지도는 한 번만 생성
   useEffect(() => {
     let canceled = false;
+    let instance: NaverMapInstance | null = null;
+    let zoomListener: Listener = null;
+    const markers = markersRef.current;
 
     (async () => {
       await loadNaverMap();
       if (canceled || !mapRef.current) return;
 
-      const maps = (window as any).naver.maps;
-      const center = userPos
-        ? new maps.LatLng(userPos.lat, userPos.lon)
-        : new maps.LatLng(37.7599, 126.78); // 파주시 대략 중심
+      const maps = window.naver.maps;
+      instance = new maps.Map(mapRef.current, {
+        center: new maps.LatLng(DEFAULT_CENTER.lat, DEFAULT_CENTER.lon),
+        zoom: DEFAULT_ZOOM,
+      }) as NaverMapInstance;
 
-      const map = new maps.Map(mapRef.current, {
-        center,
-        zoom: 11,
-      });
+      zoomListener = maps.Event.addListener(instance, 'zoom_changed', (z: number) => setZoom(z));
+      setMap(instance);
+    })();
+
+    return () => {
+      canceled = true;
+      if (!instance) return;
+      const maps = window.naver.maps;
+      maps.Event.removeListener(zoomListener);
+      markers.forEach((entry) => maps.Event.removeListener(entry.listener));
+      markers.clear();
+      instance.destroy();
+    };
+  }, []);
+
+  // 기준점(사용자 위치) 마커 + 정확도 원
+  const userLat = userPos?.lat;
+  const userLon = userPos?.lon;
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+
+    userOverlaysRef.current.forEach((o) => o.setMap(null));
+    userOverlaysRef.current = [];
+    if (userLat == null || userLon == null) return;
 
-      mapInstanceRef.current = map;
+    const center = new maps.LatLng(userLat, userLon);
+    userOverlaysRef.current.push(
+      new maps.Marker({
+        position: center,
+        map,
+        zIndex: 200,
+        icon: {
+          content:
+            '<div style="width:14px;height:14px;border-radius:50%;background:#2563eb;border:2px solid #fff;box-shadow:0 0 4px rgba(0,0,0,0.3);"></div>',
+          anchor: new maps.Point(9, 9),
+        },
+      }),
+    );
 
-      // 기준점(사용자 위치) 마커
-      if (userPos) {
-        new maps.Marker({
-          position: center,
+    if (userAccuracy != null && userAccuracy > 0) {
+      userOverlaysRef.current.push(
+        new maps.Circle({
           map,
-          icon: {
-            content:
-              '<div style="width:14px;height:14px;border-radius:50%;background:#2563eb;border:2px solid #fff;box-shadow:0 0 4px rgba(0,0,0,0.3);"></div>',
-          },
-        });
-      }
+          center,
+          radius: userAccuracy,
+          fillColor: '#2563eb',
+          fillOpacity: 0.12,
+          strokeColor: '#2563eb',
+          strokeOpacity: 0.4,
+          strokeWeight: 1,
+        }),
+      );
+    }
+  }, [map, userLat, userLon, userAccuracy]);
+
+  // 행정구역 경계
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
 
-      // 대피소 마커
-      shelters.forEach((shelter) => {
-        if (!shelter.lat || !shelter.lon) return;
-        const marker = new maps.Marker({
-          position: new maps.LatLng(shelter.lat, shelter.lon),
+    outlineOverlaysRef.current.forEach((o) => o.setMap(null));
+    outlineOverlaysRef.current = regionOutlines.map(
+      (area) =>
+        new maps.Polygon({
           map,
-        });
-        maps.Event.addListener(marker, 'click', () => {
-          onSelectShelter(shelter);
-        });
+          paths: area.rings.map((ring) => ring.map(([lon, lat]) => new maps.LatLng(lat, lon))),
+          fillColor: '#2563eb',
+          fillOpacity: 0.06,
+          strokeColor: '#2563eb',
+          strokeOpacity: 0.7,
+          strokeWeight: 2,
+          clickable: false,
+        }),
+    );
+  }, [map, regionOutlines]);
+
+  // 대피소 마커: 목록 변화만 반영 (추가/삭제/변경분만 처리)
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+    const markers = markersRef.current;
+    const next = new Map(
+      shelters.filter((s) => s.lat && s.lon).map((s) => [s.facility_serial, s]),
+    );
+
+    markers.forEach((entry, serial) => {
+      const shelter = next.get(serial);
+      if (shelter && sameMarkerData(shelter, entry.shelter)) {
+        entry.shelter = shelter;
+        return;
+      }
+      // 없어졌거나 데이터가 바뀐 마커는 지우고 새로 만든다
+      entry.marker.setMap(null);
+      maps.Event.removeListener(entry.listener);
+      markers.delete(serial);
+    });
+
+    next.forEach((shelter, serial) => {
+      if (markers.has(serial)) return;
+      const marker = new maps.Marker({
+        position: new maps.LatLng(shelter.lat, shelter.lon),
+        map,
+        // 혼잡도 색/선택 강조는 아래 effect 에서 갱신
+        icon: markerIcon(shelter, false, undefined),
+        title: shelter.name,
+      }) as NaverMarker;
+      const listener = maps.Event.addListener(marker, 'click', () => {
+        onSelectRef.current(markers.get(serial)?.shelter ?? shelter);
       });
-    })();
+      markers.set(serial, { shelter, marker, listener });
+    });
+  }, [map, shelters]);
 
-    return () => {
-      canceled = true;
-    };
-  }, [shelters, userPos, onSelectShelter]);
+  // 선택 강조 + 낮은 줌에서 묶음 표시
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+    const markers = markersRef.current;
+
+    clusterMarkersRef.current.forEach(({ marker, listener }) => {
+      marker.setMap(null);
+      maps.Event.removeListener(listener);
+    });
+    clusterMarkersRef.current = [];
+
+    markers.forEach((entry, serial) => {
+      const selected = serial === selectedSerial;
+      entry.marker.setIcon(markerIcon(entry.shelter, selected, occupancy.get(serial)));
+      entry.marker.setZIndex(selected ? 100 : 10);
+      entry.marker.setVisible(true);
+    });
+
+    if (zoom >= CLUSTER_MAX_ZOOM) return;
 
-  // 선택된 대피소로 중심 이동
+    // 선택한 대피소는 묶지 않고 항상 표시
+    const clusterable = [...markers.values()]
+      .filter((e) => e.shelter.facility_serial !== selectedSerial)
+      .map((e) => e.shelter);
+
+    gridClusters(clusterable, zoom).forEach((group) => {
+      if (group.length < 2) return;
+      group.forEach((s) => markers.get(s.facility_serial)?.marker.setVisible(false));
+
+      const points = group.map((s) => ({ lat: s.lat, lon: s.lon }));
+      const lat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+      const lon = points.reduce((sum, p) => sum + p.lon, 0) / points.length;
+      const marker = new maps.Marker({
+        position: new maps.LatLng(lat, lon),
+        map,
+        icon: clusterIcon(group.length),
+        zIndex: 50,
+      }) as NaverMarker;
+      // 묶음 클릭 → 묶인 대피소들이 보이도록 확대
+      const listener = maps.Event.addListener(marker, 'click', () => {
+        map.fitBounds(boundsOf(points), FIT_MARGIN);
+        if (map.getZoom() < CLUSTER_MAX_ZOOM) map.setZoom(CLUSTER_MAX_ZOOM);
+      });
+      clusterMarkersRef.current.push({ marker, listener });
+    });
+  }, [map, shelters, zoom, selectedSerial, occupancy]);
+
+  // 결과 목록이 바뀌면 결과 전체(+ 기준점, 지역 경계)가 보이도록 화면 맞춤
+  // 목록 구성이 바뀔 때만 맞춤 (GPS 재정렬 등 같은 결과의 재계산은 무시) – 좌표는 ref 로 최신 목록을 읽음
+  const resultKey = shelters.map((s) => s.facility_serial).join(',');
+  const resultSheltersRef = useRef(shelters);
   useEffect(() => {
-    (async () => {
-      if (!selectedShelter || !selectedShelter.lat || !selectedShelter.lon)
-        return;
-      await loadNaverMap();
-      const maps = (window as any).naver.maps;
-      const map = mapInstanceRef.current;
-      if (!map) return;
+    resultSheltersRef.current = shelters;
+  }, [shelters]);
 
-      const latlng = new maps.LatLng(selectedShelter.lat, selectedShelter.lon);
-      map.setCenter(latlng);
-      map.setZoom(13);
-    })();
-  }, [selectedShelter]);
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+
+    const points: LatLon[] = resultSheltersRef.current
+      .filter((s) => s.lat && s.lon)
+      .map((s) => ({ lat: s.lat, lon: s.lon }));
+    if (userLat != null && userLon != null) points.push({ lat: userLat, lon: userLon });
+    regionOutlines.forEach((area) =>
+      area.rings[0].forEach(([lon, lat]) => points.push({ lat, lon })),
+    );
+
+    if (points.length === 0) return;
+    if (points.length === 1) {
+      map.setCenter(new maps.LatLng(points[0].lat, points[0].lon));
+      map.setZoom(FIT_MAX_ZOOM);
+      return;
+    }
+
+    map.fitBounds(boundsOf(points), FIT_MARGIN);
+    if (map.getZoom() > FIT_MAX_ZOOM) map.setZoom(FIT_MAX_ZOOM);
+  }, [map, resultKey, userLat, userLon, regionOutlines]);
+
+  // 선택한 대피소로 이동 + 정보창
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+
+    infoWindowRef.current?.close();
+    infoWindowRef.current = null;
+    if (selectedSerial == null) return;
+
+    const entry = markersRef.current.get(selectedSerial);
+    if (!entry) return;
+    const { shelter } = entry;
+
+    const content = document.createElement('div');
+    content.style.cssText = 'padding:10px 12px;min-width:180px;max-width:240px;font-size:12px;line-height:1.5;';
+    content.innerHTML = `
+      <div style="font-weight:600;font-size:13px;color:#111827;margin-bottom:2px;">${escapeHtml(shelter.name)}</div>
+      <div style="color:#6b7280;">${escapeHtml(shelter.road_addr ?? '주소 정보 없음')}</div>
+      <div style="color:#374151;margin-top:4px;">수용 인원: ${
+        shelter.capacity != null ? `${shelter.capacity.toLocaleString()}명` : '정보 없음'
+      }</div>`;
+
+    const occupancyLine = document.createElement('div');
+    occupancyLine.style.cssText = 'color:#374151;';
+    content.appendChild(occupancyLine);
+    occupancyLineRef.current = occupancyLine;
+
+    if (onOpenDetailRef.current) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = '상세 보기';
+      button.style.cssText =
+        'margin-top:6px;padding:3px 8px;border-radius:6px;background:#2563eb;color:#fff;font-size:12px;';
+      button.addEventListener('click', () => onOpenDetailRef.current?.(shelter));
+      content.appendChild(button);
+    }
+
+    const infoWindow = new maps.InfoWindow({
+      content,
+      borderColor: '#e5e7eb',
+      borderWidth: 1,
+      anchorSize: new maps.Size(10, 8),
+      pixelOffset: new maps.Point(0, -8),
+    }) as NaverInfoWindow;
+
+    map.morph(new maps.LatLng(shelter.lat, shelter.lon), Math.max(map.getZoom(), SELECT_ZOOM));
+    infoWindow.open(map, entry.marker);
+    infoWindowRef.current = infoWindow;
+    // 목록이 바뀌어 마커가 새로 만들어지면 정보창도 새 마커에 다시 연결
+  }, [map, selectedSerial, resultKey]);
+
+  // 정보창의 현재 인원 / 혼잡도
+  const selectedOccupancy = selectedSerial != null ? occupancy.get(selectedSerial) : undefined;
+  const selectedCapacity = selectedShelter?.capacity ?? null;
+  useEffect(() => {
+    const line = occupancyLineRef.current;
+    if (!line) return;
+    const level = congestionLevel(selectedOccupancy, selectedCapacity);
+    line.textContent = selectedOccupancy
+      ? `현재 인원: ${selectedOccupancy.occupants.toLocaleString()}명 (${CONGESTION_LABELS[level]})`
+      : '현재 인원: 집계 없음';
+  }, [map, selectedSerial, resultKey, selectedOccupancy, selectedCapacity]);
+
+  // 경로 선 표시 (이전 경로는 지움)
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+
+    routeLineRef.current?.setMap(null);
+    routeLineRef.current = null;
+    if (!routePath || routePath.length < 2) return;
+
+    routeLineRef.current = new maps.Polyline({
+      map,
+      path: routePath.map((p) => new maps.LatLng(p.lat, p.lon)),
+      strokeColor: '#2563eb',
+      strokeWeight: 5,
+      strokeOpacity: 0.8,
+      strokeStyle: routeIsEstimate ? 'shortdash' : 'solid',
+      strokeLineCap: 'round',
+      strokeLineJoin: 'round',
+    });
+  }, [map, routePath, routeIsEstimate]);
 
   return <div ref={mapRef} className="w-full h-full" />;
 }
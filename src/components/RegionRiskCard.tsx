@@ -0,0 +1,110 @@
+// src/components/RegionRiskCard.tsx
+import { useEffect, useState } from 'react';
+import { Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import type { LatLon } from '../lib/geo';
+import { findEmd } from '../lib/pajuBoundary';
+import { fetchRegionRisks, type RegionRisk } from '../lib/regionRisk';
+import { REGION_RISK_FACTOR_KEYS, REGION_RISK_FACTOR_LABELS } from '../lib/regionRiskModel';
+import { FAULT_RISK_LABELS, riskScoreLevel, type FaultRiskLevel } from '../lib/seismicRisk';
+
+const LEVEL_STYLES: Record<FaultRiskLevel, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-orange-100 text-orange-700',
+  low: 'bg-yellow-100 text-yellow-700',
+};
+
+interface RegionRiskCardProps {
+  point: LatLon;
+  // 요인별 산출 근거를 처음부터 펼칠지
+  defaultExpanded?: boolean;
+  className?: string;
+}
+
+// 지점이 속한 읍/면/동의 지진 위험도 + 요인별 근거 (파주 밖이면 표시하지 않음)
+export default function RegionRiskCard({ point, defaultExpanded = false, className = '' }: RegionRiskCardProps) {
+  const emd = findEmd(point.lat, point.lon);
+  const emdName = emd?.name ?? null;
+  const [risk, setRisk] = useState<RegionRisk | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState(defaultExpanded);
+
+  // GPS 로 위치가 조금씩 바뀌어도 읍/면/동이 같으면 다시 조회하지 않음
+  useEffect(() => {
+    if (!emdName) return;
+    let canceled = false;
+    setLoading(true);
+    fetchRegionRisks()
+      .then((risks) => !canceled && setRisk(risks.get(emdName) ?? null))
+      .catch(() => !canceled && setRisk(null))
+      .finally(() => !canceled && setLoading(false));
+    return () => {
+      canceled = true;
+    };
+  }, [emdName]);
+
+  if (!emd) return null;
+
+  const level = risk ? riskScoreLevel(risk.score) : null;
+  const factors = risk?.factors ?? null;
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1.5 text-xs text-gray-600">
+          <Activity className="w-3.5 h-3.5" />
+          <span>{emd.name} 지진 위험도</span>
+        </div>
+        {risk && level && (
+          <div className="flex items-center space-x-2">
+            <span className="text-sm font-bold text-gray-900">{risk.score.toFixed(2)}</span>
+            <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${LEVEL_STYLES[level]}`}>
+              {FAULT_RISK_LABELS[level]}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-[11px] text-gray-500 mt-1">불러오는 중...</p>
+      ) : !risk ? (
+        <p className="text-[11px] text-gray-500 mt-1">이 지역의 위험도가 아직 계산되지 않았습니다.</p>
+      ) : (
+        factors && (
+          <>
+            <button
+              onClick={() => setExpanded((v) => !v)}
+              className="mt-1 flex items-center space-x-0.5 text-[11px] text-blue-600 hover:underline"
+            >
+              <span>산출 근거</span>
+              {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </button>
+            {expanded && (
+              <div className="mt-2 space-y-2">
+                {REGION_RISK_FACTOR_KEYS.map((key) => {
+                  const f = factors[key];
+                  return (
+                    <div key={key}>
+                      <div className="flex justify-between text-[11px] text-gray-600">
+                        <span>
+                          {REGION_RISK_FACTOR_LABELS[key]} × {f.weight}
+                        </span>
+                        <span>{f.score != null ? f.score.toFixed(2) : '자료 없음'}</span>
+                      </div>
+                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden my-0.5">
+                        <div className="h-full bg-blue-500" style={{ width: `${(f.score ?? 0) * 100}%` }} />
+                      </div>
+                      <p className="text-[11px] text-gray-500">{f.detail}</p>
+                    </div>
+                  );
+                })}
+                <p className="text-[10px] text-gray-400">
+                  0(낮음) ~ 1(높음) · {new Date(risk.computedAt).toLocaleDateString('ko-KR')} 계산 · 참고용 지표
+                </p>
+              </div>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+// src/components/RiskMap.tsx
+import { useEffect, useRef, useState } from 'react';
+import { loadNaverMap } from '../lib/loadNaverMap';
+import { CITY_AREA } from '../lib/pajuBoundary';
+import {
+  FAULT_RISK_COLORS,
+  FAULT_RISK_LABELS,
+  type Epicenter,
+  type FaultLine,
+} from '../lib/seismicRisk';
+
+// 파주 + 주변 단층이 함께 보이는 범위
+const DEFAULT_CENTER = { lat: 37.8, lon: 126.85 };
+const DEFAULT_ZOOM = 9;
+
+interface Overlay {
+  setMap(map: unknown): void;
+}
+
+interface RiskMapInstance {
+  destroy(): void;
+}
+
+interface NaverInfoWindow {
+  setContent(content: string): void;
+  open(map: unknown, anchor: unknown): void;
+}
+
+interface RiskMapProps {
+  faultLines: FaultLine[];
+  epicenters: Epicenter[];
+}
+
+// 규모에 따른 진앙 원 반경(m) – 규모 1 오를 때마다 두 배
+function epicenterRadius(magnitude: number) {
+  return 1500 * 2 ** (magnitude - 2);
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+export default function RiskMap({ faultLines, epicenters }: RiskMapProps) {
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  const [map, setMap] = useState<RiskMapInstance | null>(null);
+  const infoWindowRef = useRef<NaverInfoWindow | null>(null);
+
+  useEffect(() => {
+    let canceled = false;
+    let instance: RiskMapInstance | null = null;
+
+    (async () => {
+      await loadNaverMap();
+      if (canceled || !mapRef.current) return;
+      const maps = window.naver.maps;
+      instance = new maps.Map(mapRef.current, {
+        center: new maps.LatLng(DEFAULT_CENTER.lat, DEFAULT_CENTER.lon),
+        zoom: DEFAULT_ZOOM,
+      }) as RiskMapInstance;
+      infoWindowRef.current = new maps.InfoWindow({
+        content: '',
+        borderColor: '#e5e7eb',
+        borderWidth: 1,
+      }) as NaverInfoWindow;
+
+      // 파주시 경계
+      new maps.Polygon({
+        map: instance,
+        paths: CITY_AREA.rings.map((ring) => ring.map(([lon, lat]) => new maps.LatLng(lat, lon))),
+        fillColor: '#2563eb',
+        fillOpacity: 0.05,
+        strokeColor: '#2563eb',
+        strokeOpacity: 0.6,
+        strokeWeight: 2,
+        clickable: false,
+      });
+      setMap(instance);
+    })();
+
+    return () => {
+      canceled = true;
+      instance?.destroy();
+    };
+  }, []);
+
+  // 단층선 (위험 등급별 색)
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+    const lines: Overlay[] = faultLines.map(
+      (f) =>
+        new maps.Polyline({
+          map,
+          path: f.path.map((p) => new maps.LatLng(p.lat, p.lon)),
+          strokeColor: FAULT_RISK_COLORS[f.riskLevel],
+          strokeWeight: f.riskLevel === 'high' ? 6 : 4,
+          strokeOpacity: 0.85,
+          strokeLineCap: 'round',
+          strokeLineJoin: 'round',
+        }),
+    );
+    const listeners = lines.map((line, i) =>
+      maps.Event.addListener(line, 'click', (e: { coord: unknown }) => {
+        const f = faultLines[i];
+        const info = infoWindowRef.current;
+        if (!info) return;
+        info.setContent(
+          `<div style="padding:8px 10px;font-size:12px;"><b>${escapeHtml(f.name)}</b><br/>위험 등급: ${FAULT_RISK_LABELS[f.riskLevel]}</div>`,
+        );
+        info.open(map, e.coord);
+      }),
+    );
+
+    return () => {
+      maps.Event.removeListener(listeners);
+      lines.forEach((l) => l.setMap(null));
+    };
+  }, [map, faultLines]);
+
+  // 진앙 (규모에 비례한 원)
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+    const circles: Overlay[] = epicenters.map(
+      (e) =>
+        new maps.Circle({
+          map,
+          center: new maps.LatLng(e.latitude, e.longitude),
+          radius: epicenterRadius(e.magnitude),
+          fillColor: e.magnitude >= 3 ? '#dc2626' : '#f59e0b',
+          fillOpacity: 0.35,
+          strokeColor: e.magnitude >= 3 ? '#b91c1c' : '#d97706',
+          strokeOpacity: 0.8,
+          strokeWeight: 1,
+          clickable: true,
+        }),
+    );
+    const listeners = circles.map((circle, i) =>
+      maps.Event.addListener(circle, 'click', () => {
+        const e = epicenters[i];
+        const position = new maps.LatLng(e.latitude, e.longitude);
+        const info = infoWindowRef.current;
+        if (!info) return;
+        info.setContent(
+          `<div style="padding:8px 10px;font-size:12px;line-height:1.5;">` +
+            `<b>규모 ${e.magnitude}</b> · ${escapeHtml(e.location)}<br/>` +
+            `${new Date(e.occurred_at).toLocaleString('ko-KR')}<br/>` +
+            `파주에서 ${e.distance_from_paju}km${e.depth != null ? ` · 깊이 ${e.depth}km` : ''}</div>`,
+        );
+        info.open(map, position);
+      }),
+    );
+
+    return () => {
+      maps.Event.removeListener(listeners);
+      circles.forEach((c) => c.setMap(null));
+    };
+  }, [map, epicenters]);
+
+  return <div ref={mapRef} className="w-full h-full" />;
+}
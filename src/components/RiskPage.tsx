@@ -0,0 +1,193 @@
+// src/components/RiskPage.tsx
+import { useEffect, useState } from 'react';
+import { Activity, AlertTriangle, Info } from 'lucide-react';
+import RiskMap from './RiskMap';
+import {
+  fetchFaultLines,
+  fetchPajuRisk,
+  fetchRecentEpicenters,
+  FAULT_RISK_COLORS,
+  FAULT_RISK_LABELS,
+  riskScoreLevel,
+  type Epicenter,
+  type FaultLine,
+  type FaultRiskLevel,
+  type PajuRisk,
+} from '../lib/seismicRisk';
+
+const LEVEL_STYLES: Record<FaultRiskLevel, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-orange-100 text-orange-700',
+  low: 'bg-yellow-100 text-yellow-700',
+};
+
+const FAULT_LEVELS: FaultRiskLevel[] = ['high', 'medium', 'low'];
+
+function FactorBar({ label, value, weight }: { label: string; value: number; weight: number }) {
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>
+          {label} × {weight}
+        </span>
+        <span>
+          {value.toFixed(3)} → {(value * weight).toFixed(3)}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-500" style={{ width: `${Math.min(value, 1) * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+// /risk – 단층선·최근 진앙 지도 + 파주 위험도와 산출 근거
+export default function RiskPage() {
+  const [faultLines, setFaultLines] = useState<FaultLine[]>([]);
+  const [epicenters, setEpicenters] = useState<Epicenter[]>([]);
+  const [risk, setRisk] = useState<PajuRisk | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let canceled = false;
+    Promise.all([fetchFaultLines(), fetchRecentEpicenters(), fetchPajuRisk()])
+      .then(([lines, quakes, latest]) => {
+        if (canceled) return;
+        setFaultLines(lines);
+        setEpicenters(quakes);
+        setRisk(latest);
+      })
+      .catch(() => !canceled && setError('위험도 정보를 불러오지 못했습니다.'))
+      .finally(() => !canceled && setLoading(false));
+    return () => {
+      canceled = true;
+    };
+  }, []);
+
+  const level = risk ? riskScoreLevel(risk.score) : null;
+  const factors = risk?.factors ?? null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-2">지진 위험도 지도</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        파주 주변 단층선과 최근 지진 진앙, 이를 바탕으로 계산한 파주시 지진 위험도입니다.
+      </p>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-3">
+          <div className="h-[520px] bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <RiskMap faultLines={faultLines} epicenters={epicenters} />
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+            {FAULT_LEVELS.map((l) => (
+              <span key={l} className="flex items-center space-x-1">
+                <span className="inline-block w-6 h-1 rounded" style={{ background: FAULT_RISK_COLORS[l] }} />
+                <span>단층 위험 {FAULT_RISK_LABELS[l]}</span>
+              </span>
+            ))}
+            <span className="flex items-center space-x-1">
+              <span className="inline-block w-3 h-3 rounded-full bg-amber-400/60 border border-amber-600" />
+              <span>진앙 (규모 3 미만)</span>
+            </span>
+            <span className="flex items-center space-x-1">
+              <span className="inline-block w-3 h-3 rounded-full bg-red-500/60 border border-red-700" />
+              <span>진앙 (규모 3 이상)</span>
+            </span>
+            <span>원 크기 ∝ 규모</span>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
+              <Activity className="w-4 h-4" />
+              <span>파주시 지진 위험도</span>
+            </div>
+            {loading ? (
+              <p className="text-sm text-gray-500">불러오는 중...</p>
+            ) : risk && level ? (
+              <>
+                <div className="flex items-end space-x-3">
+                  <span className="text-4xl font-bold text-gray-900">{risk.score.toFixed(3)}</span>
+                  <span className={`mb-1 px-2 py-0.5 rounded-full text-xs font-medium ${LEVEL_STYLES[level]}`}>
+                    {FAULT_RISK_LABELS[level]}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  0(낮음) ~ 1(높음) · {new Date(risk.computedAt).toLocaleString('ko-KR')} 계산
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">계산된 위험도가 없습니다.</p>
+            )}
+          </div>
+
+          {risk && (
+            <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+              <div className="flex items-center space-x-2 text-sm font-semibold text-gray-900">
+                <Info className="w-4 h-4 text-blue-600" />
+                <span>위험도 산출 방법</span>
+              </div>
+
+              {factors ? (
+                <>
+                  <p className="text-xs text-gray-600">
+                    위험도 = {factors.weights.fault} × 단층 근접도 + {factors.weights.seismic} × 최근 지진 활동
+                  </p>
+                  <FactorBar label="단층 근접도" value={factors.faultScore} weight={factors.weights.fault} />
+                  <FactorBar label="최근 지진 활동" value={factors.seismicScore} weight={factors.weights.seismic} />
+
+                  <div className="text-xs text-gray-600 space-y-2">
+                    <p>
+                      <b className="text-gray-800">단층 근접도</b>: 단층선마다 위험 등급 가중치(높음 1.0, 보통 0.6,
+                      낮음 0.3)에 파주시청과의 거리에 따른 감쇠(e<sup>−거리/20km</sup>)를 곱한 값 중 가장 큰 값.
+                      {factors.nearestFault &&
+                        ` 가장 큰 영향: ${factors.nearestFault.name} (${FAULT_RISK_LABELS[factors.nearestFault.riskLevel]}, ${factors.nearestFault.distanceKm}km).`}
+                    </p>
+                    <p>
+                      <b className="text-gray-800">최근 지진 활동</b>: 최근 {factors.windowDays}일 동안 파주 200km
+                      이내 지진마다 10<sup>(규모−3)</sup> × e<sup>−거리/50km</sup> 를 더한 값 (최대 1).
+                      {factors.quakeCount > 0
+                        ? ` 해당 지진 ${factors.quakeCount}건, 최대 규모 ${factors.maxMagnitude}.`
+                        : ' 해당 기간 지진 없음.'}
+                    </p>
+                    <p className="text-gray-500">
+                      새 지진 통보가 수집될 때마다 다시 계산됩니다. 참고용 지표이며 공식 위험 평가가 아닙니다.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <p className="text-xs text-gray-500">이 점수에는 산출 근거가 저장되어 있지 않습니다.</p>
+              )}
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center space-x-2 text-sm font-semibold text-gray-900 mb-3">
+              <AlertTriangle className="w-4 h-4 text-orange-500" />
+              <span>주변 단층</span>
+            </div>
+            {faultLines.length === 0 ? (
+              <p className="text-xs text-gray-500">단층 정보가 없습니다.</p>
+            ) : (
+              <ul className="space-y-2">
+                {faultLines.map((f) => (
+                  <li key={f.id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-800">{f.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${LEVEL_STYLES[f.riskLevel]}`}>
+                      {FAULT_RISK_LABELS[f.riskLevel]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+// src/components/SearchAutocomplete.tsx
+import { useEffect, useId, useMemo, useState, type KeyboardEvent, type ReactNode } from 'react';
+import { Building2, MapPin, Route } from 'lucide-react';
+import type { Shelter } from '../lib/supabase';
+import { loadRoadNames } from '../lib/geocoder/offline';
+import { roadNamesFromShelters, suggest, type Suggestion, type SuggestionKind } from '../lib/suggest';
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  // 후보를 고르지 않고 Enter
+  onSubmit: () => void;
+  onSelectSuggestion: (suggestion: Suggestion) => void;
+  shelters: Shelter[];
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+  // 입력창 옆 아이콘 등
+  children?: ReactNode;
+}
+
+const KIND_ICONS: Record<SuggestionKind, typeof MapPin> = {
+  region: MapPin,
+  road: Route,
+  shelter: Building2,
+};
+
+export default function SearchAutocomplete({
+  value,
+  onChange,
+  onSubmit,
+  onSelectSuggestion,
+  shelters,
+  placeholder,
+  className = '',
+  inputClassName = '',
+  children,
+}: SearchAutocompleteProps) {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [indexRoads, setIndexRoads] = useState<string[]>([]);
+
+  // 오프라인 주소 색인의 도로명 (없으면 대피소 주소의 도로명만 사용)
+  useEffect(() => {
+    let canceled = false;
+    loadRoadNames().then((roads) => {
+      if (!canceled) setIndexRoads(roads);
+    });
+    return () => {
+      canceled = true;
+    };
+  }, []);
+
+  const roads = useMemo(
+    () => (indexRoads.length > 0 ? indexRoads : roadNamesFromShelters(shelters)),
+    [indexRoads, shelters],
+  );
+
+  const suggestions = useMemo(
+    () => (value.trim() ? suggest(value, { shelters, roads }) : []),
+    [value, shelters, roads],
+  );
+
+  const showList = open && suggestions.length > 0;
+
+  const choose = (s: Suggestion) => {
+    setOpen(false);
+    setActiveIndex(-1);
+    onSelectSuggestion(s);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // 한글 조합 중 Enter/방향키는 IME가 처리
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return;
+      e.preventDefault();
+      setOpen(true);
+      // -1(입력창) → 0 → … → 마지막 → -1 순환
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((i) => {
+        const next = i + step;
+        if (next >= suggestions.length) return -1;
+        if (next < -1) return suggestions.length - 1;
+        return next;
+      });
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      setOpen(false);
+      setActiveIndex(-1);
+      return;
+    }
+
+    if (e.key === 'Enter') {
+      if (showList && activeIndex >= 0) {
+        e.preventDefault();
+        choose(suggestions[activeIndex]);
+        return;
+      }
+      setOpen(false);
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <input
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+      />
+      {children}
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-30 bg-white border border-gray-200 rounded-lg shadow-lg max-h-72 overflow-y-auto text-left"
+        >
+          {suggestions.map((s, i) => {
+            const Icon = KIND_ICONS[s.kind];
+            return (
+              <li
+                key={`${s.kind}-${s.facilitySerial ?? s.value}`}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={i === activeIndex}
+                // blur보다 먼저 처리되도록 mousedown에서 선택
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  choose(s);
+                }}
+                onMouseEnter={() => setActiveIndex(i)}
+                className={`px-3 py-2 flex items-start space-x-2 cursor-pointer ${
+                  i === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-900 truncate">{s.label}</div>
+                  {s.detail && <div className="text-xs text-gray-500 truncate">{s.detail}</div>}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
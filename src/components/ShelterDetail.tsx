@@ -7,6 +7,9 @@ import {
   Map as MapIcon,
   Star,
 } from 'lucide-react';
+import type { Shelter } from '../lib/supabase';
+import { useShelterOccupancy } from '../hooks/useShelterOccupancy';
+import { CONGESTION_LABELS, CONGESTION_STYLES, congestionLevel } from '../lib/occupancy';
 
 // 네이버 지도 타입 선언 (window.naver 사용을 위해)
 declare global {
@@ -15,20 +18,8 @@ declare global {
   }
 }
 
-// Supabase의 quake.shelter_facilities 테이블 기준 타입
-export type Shelter = {
-  facility_serial: number;
-  name: string;
-  road_addr: string | null;
-  region_code: number | null;
-  area_sqm: number | null;
-  capacity: number | null;
-  lon: number;
-  lat: number;
-};
-
 // 목록 페이지(ShelterSearch)에서 내려줄 검색 컨텍스트
-export type SearchMode = 'DEFAULT' | 'REGION' | 'ADDRESS';
+export type SearchMode = 'DEFAULT' | 'REGION' | 'ADDRESS' | 'GPS';
 
 interface ShelterDetailProps {
   shelter: Shelter;
@@ -38,7 +29,7 @@ interface ShelterDetailProps {
   lastSearchQuery: string | null;
   searchMode: SearchMode;
 
-  // 주소(도로명) 검색 시 기준이 되는 좌표 (행정구역/기본 보기에서는 null)
+  // 주소(도로명) 검색 / 현재 위치 기준 좌표 (행정구역/기본 보기에서는 null)
   userPos: { lat: number; lon: number } | null;
 }
 
@@ -49,9 +40,13 @@ export default function ShelterDetail({
   searchMode,
   userPos,
 }: ShelterDetailProps) {
-  // 주소 검색(도로명) + userPos 있을 때만 길안내 사용
+  // 실시간 인원 → 혼잡도 (집계가 없으면 "정보 없음")
+  const occupancy = useShelterOccupancy().bySerial.get(shelter.facility_serial);
+  const congestion = congestionLevel(occupancy, shelter.capacity);
+
+  // 주소 검색(도로명) / 현재 위치 + userPos 있을 때만 길안내 사용
   const hasDistance =
-    searchMode === 'ADDRESS' &&
+    (searchMode === 'ADDRESS' || searchMode === 'GPS') &&
     userPos &&
     shelter.lat != null &&
     shelter.lon != null;
@@ -74,6 +69,14 @@ export default function ShelterDetail({
       );
     }
 
+    if (searchMode === 'GPS') {
+      return (
+        <span className="text-xs text-gray-500">
+          현재 위치 기준 (GPS)
+        </span>
+      );
+    }
+
     if (searchMode === 'ADDRESS') {
       return (
         <span className="text-xs text-gray-500">
@@ -94,7 +97,7 @@ export default function ShelterDetail({
 
   const handleGuideClick = () => {
     if (!canUseGuide || !userPos) {
-      alert('도로명 주소로 검색한 후에 길안내를 사용할 수 있습니다.');
+      alert('도로명 주소로 검색하거나 현재 위치를 켠 후에 길안내를 사용할 수 있습니다.');
       return;
     }
 
@@ -229,9 +232,20 @@ export default function ShelterDetail({
                   현재 상태
                 </h2>
                 <div className="grid grid-cols-3 gap-4">
-                  <div className="bg-green-50 rounded-lg p-3 text-center">
-                    <div className="text-xs text-gray-600 mb-1">예상 혼잡도</div>
-                    <div className="text-lg font-bold text-green-600">원활</div>
+                  <div className={`${CONGESTION_STYLES[congestion].bg} rounded-lg p-3 text-center`}>
+                    <div className="text-xs text-gray-600 mb-1">현재 혼잡도</div>
+                    <div className={`text-lg font-bold ${CONGESTION_STYLES[congestion].text}`}>
+                      {CONGESTION_LABELS[congestion]}
+                    </div>
+                    {occupancy && (
+                      <div className="text-[11px] text-gray-500 mt-1">
+                        {occupancy.occupants.toLocaleString()}명 입소 ·{' '}
+                        {new Date(occupancy.updated_at).toLocaleTimeString('ko-KR', {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </div>
+                    )}
                   </div>
                   <div className="bg-blue-50 rounded-lg p-3 text-center">
                     <div className="text-xs text-gray-600 mb-1">최대 수용</div>
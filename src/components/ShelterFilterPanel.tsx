@@ -0,0 +1,134 @@
+// src/components/ShelterFilterPanel.tsx
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, SlidersHorizontal } from 'lucide-react';
+import {
+  EMPTY_FILTERS,
+  hasActiveFilters,
+  type FlagFilterKey,
+  type ShelterFilters,
+} from '../lib/shelterFilters';
+
+interface ShelterFilterPanelProps {
+  filters: ShelterFilters;
+  onChange: (filters: ShelterFilters) => void;
+  // 정보가 등록된 대피소가 있는 체크박스 조건 (없으면 전부 선택 가능)
+  available?: Set<FlagFilterKey>;
+}
+
+const CAPACITY_OPTIONS = [100, 300, 500, 1000];
+const AREA_OPTIONS = [500, 1000, 3000];
+
+const CHECKBOXES: { key: FlagFilterKey; label: string }[] = [
+  { key: 'open24h', label: '24시간 개방' },
+  { key: 'petsAllowed', label: '반려동물 동반' },
+  { key: 'generator', label: '발전기' },
+  { key: 'medical', label: '의료 지원' },
+];
+
+// select 값 ('' = 제한 없음) → 숫자
+function parseLimit(value: string): number | null {
+  return value === '' ? null : Number(value);
+}
+
+export default function ShelterFilterPanel({ filters, onChange, available }: ShelterFilterPanelProps) {
+  const [open, setOpen] = useState(false);
+  const active = hasActiveFilters(filters);
+  const missing = available ? CHECKBOXES.filter(({ key }) => !available.has(key)) : [];
+
+  const update = (patch: Partial<ShelterFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+        className="w-full px-3 py-2 flex items-center justify-between text-sm text-gray-700"
+      >
+        <span className="flex items-center space-x-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          <span>시설·수용 조건</span>
+          {active && <span className="w-2 h-2 rounded-full bg-blue-600" />}
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3 border-t border-gray-200 pt-3">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              최소 수용 인원
+              <select
+                value={filters.minCapacity ?? ''}
+                onChange={(e) => update({ minCapacity: parseLimit(e.target.value) })}
+                className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white"
+              >
+                <option value="">제한 없음</option>
+                {CAPACITY_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n.toLocaleString()}명 이상
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              최소 면적
+              <select
+                value={filters.minAreaSqm ?? ''}
+                onChange={(e) => update({ minAreaSqm: parseLimit(e.target.value) })}
+                className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white"
+              >
+                <option value="">제한 없음</option>
+                {AREA_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n.toLocaleString()}㎡ 이상
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {CHECKBOXES.map(({ key, label }) => {
+              // 등록된 정보가 없는 조건은 고르면 항상 결과가 0곳 → 선택 막음 (이미 켜져 있으면 끌 수는 있게)
+              const disabled = !!available && !available.has(key) && !filters[key];
+              return (
+                <label
+                  key={key}
+                  className={`flex items-center space-x-2 text-sm ${disabled ? 'text-gray-400' : 'text-gray-700'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={filters[key]}
+                    disabled={disabled}
+                    onChange={(e) => update({ [key]: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  <span>{label}</span>
+                </label>
+              );
+            })}
+          </div>
+
+          {missing.length > 0 && (
+            <p className="text-xs text-amber-700">
+              {missing.length === CHECKBOXES.length
+                ? '아직 시설·24시간 정보가 등록된 대피소가 없어 해당 조건으로는 거를 수 없습니다.'
+                : `${missing.map((c) => c.label).join(', ')} 정보가 등록된 대피소가 아직 없습니다.`}
+            </p>
+          )}
+
+          {active && (
+            <button
+              type="button"
+              onClick={() => onChange(EMPTY_FILTERS)}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              조건 초기화
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
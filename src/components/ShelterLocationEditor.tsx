@@ -0,0 +1,144 @@
+// src/components/ShelterLocationEditor.tsx
+import { useEffect, useRef, useState } from 'react';
+import type { Shelter } from '../lib/supabase';
+import type { LatLon } from '../lib/geo';
+import { loadNaverMap } from '../lib/loadNaverMap';
+import { isInPaju } from '../lib/pajuBoundary';
+
+// 네이버 지도 객체 중 여기서 쓰는 부분만
+interface NaverLatLng {
+  lat(): number;
+  lng(): number;
+}
+
+interface DraggableMarker {
+  setMap(map: unknown): void;
+  setPosition(latlng: unknown): void;
+  getPosition(): NaverLatLng;
+}
+
+interface EditorMap {
+  setCenter(latlng: unknown): void;
+  destroy(): void;
+}
+
+interface ShelterLocationEditorProps {
+  shelter: Shelter;
+  onSave: (pos: LatLon) => Promise<void>;
+}
+
+const EDIT_ZOOM = 17;
+
+// 마커를 끌어 옮긴 뒤 "위치 저장"
+export default function ShelterLocationEditor({ shelter, onSave }: ShelterLocationEditorProps) {
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  const [map, setMap] = useState<EditorMap | null>(null);
+  const markerRef = useRef<DraggableMarker | null>(null);
+  const [pending, setPending] = useState<LatLon | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // 지도 생성 시 처음 한 번만 쓰는 중심 (대피소 변경은 아래 effect 에서 다시 맞춤)
+  const initialCenterRef = useRef<LatLon>({ lat: shelter.lat, lon: shelter.lon });
+
+  // 지도는 한 번만 생성
+  useEffect(() => {
+    let canceled = false;
+    let instance: EditorMap | null = null;
+
+    (async () => {
+      await loadNaverMap();
+      if (canceled || !mapRef.current) return;
+      const maps = window.naver.maps;
+      instance = new maps.Map(mapRef.current, {
+        center: new maps.LatLng(initialCenterRef.current.lat, initialCenterRef.current.lon),
+        zoom: EDIT_ZOOM,
+      }) as EditorMap;
+      setMap(instance);
+    })();
+
+    return () => {
+      canceled = true;
+      instance?.destroy();
+    };
+  }, []);
+
+  const serial = shelter.facility_serial;
+  const { lat, lon } = shelter;
+  useEffect(() => {
+    if (!map) return;
+    const maps = window.naver.maps;
+    const position = new maps.LatLng(lat, lon);
+
+    setPending(null);
+    setError(null);
+
+    const marker = new maps.Marker({ position, map, draggable: true }) as DraggableMarker;
+    const listener = maps.Event.addListener(marker, 'dragend', () => {
+      const p = marker.getPosition();
+      setPending({ lat: p.lat(), lon: p.lng() });
+    });
+    markerRef.current = marker;
+    map.setCenter(position);
+
+    return () => {
+      maps.Event.removeListener(listener);
+      marker.setMap(null);
+    };
+  }, [map, serial, lat, lon]);
+
+  const outside = pending != null && !isInPaju(pending.lat, pending.lon);
+
+  const handleReset = () => {
+    if (!map) return;
+    markerRef.current?.setPosition(new window.naver.maps.LatLng(lat, lon));
+    setPending(null);
+  };
+
+  const handleSave = async () => {
+    if (!pending || outside) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(pending);
+      setPending(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '위치를 저장하지 못했습니다.');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <h3 className="font-semibold text-sm text-gray-900">{shelter.name} 위치</h3>
+        <p className="text-xs text-gray-500">마커를 끌어서 입구 위치로 옮긴 뒤 저장하세요.</p>
+      </div>
+      <div ref={mapRef} className="h-72" />
+      <div className="px-4 py-3 space-y-2">
+        <p className="text-xs text-gray-600">
+          {pending
+            ? `새 위치: ${pending.lat.toFixed(6)}, ${pending.lon.toFixed(6)}`
+            : `현재 위치: ${lat.toFixed(6)}, ${lon.toFixed(6)}`}
+        </p>
+        {outside && <p className="text-xs text-red-600">파주시 경계 밖입니다.</p>}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            disabled={!pending || outside || saving}
+            className="px-3 py-1.5 bg-blue-600 text-white text-xs rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? '저장 중...' : '위치 저장'}
+          </button>
+          <button
+            onClick={handleReset}
+            disabled={!pending || saving}
+            className="px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            되돌리기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,31 @@
-import { useState, useEffect } from 'react';
-import { Search, MapPin, Home, ChevronRight } from 'lucide-react';
-import { supabase, type Shelter } from '../lib/supabase';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Search, MapPin, Home, ChevronRight, LocateFixed } from 'lucide-react';
+import type { Shelter } from '../lib/supabase';
 import ShelterDetail from './ShelterDetail';
 import NaverMap from './NaverMap';
-import { geocodeWithNaver } from '../lib/naverGeocode';
+import { geocodeWithPajuFallback, GeocodeUnavailableError } from '../lib/pajuGeocode';
+import { findEmd, isInPaju } from '../lib/pajuBoundary';
+import { calcDistanceKm } from '../lib/geo';
+import { useWatchPosition, type GeoStatus } from '../hooks/useWatchPosition';
+import { useShelterDataset } from '../hooks/useShelterDataset';
+import { useShelterOccupancy } from '../hooks/useShelterOccupancy';
+import { CONGESTION_LABELS, CONGESTION_STYLES, congestionLevel } from '../lib/occupancy';
+import { useRoutes } from '../hooks/useRoutes';
+import { fetchNearestShelters } from '../lib/shelterRepository';
+import DataSyncStatus from './DataSyncStatus';
+import SearchAutocomplete from './SearchAutocomplete';
+import type { Suggestion } from '../lib/suggest';
+import { resolveRegion, shelterInRegion, type RegionMatch } from '../lib/regions';
+import ShelterFilterPanel from './ShelterFilterPanel';
+import RegionRiskCard from './RegionRiskCard';
+import {
+  applyShelterFilters,
+  availableFlagFilters,
+  describeFilters,
+  EMPTY_FILTERS,
+  hasActiveFilters,
+  type ShelterFilters,
+} from '../lib/shelterFilters';
 
 interface ShelterSearchProps {
   onNavigate: (page: string) => void;
@@ -13,46 +35,54 @@ interface ShelterSearchProps {
 const USER_LAT = 37.7599;
 const USER_LON = 126.78;
 
-// 파주시 대략 경계(위도/경도 박스)
-const PAJU_LAT_MIN = 37.6;
-const PAJU_LAT_MAX = 37.95;
-const PAJU_LON_MIN = 126.6;
-const PAJU_LON_MAX = 127.1;
-
 // 검색 위치 기준으로 보여줄 최대 대피소 개수
 const NEARBY_LIMIT = 10;
 
+// GPS 모드에서 이 거리(m) 이상 움직였을 때만 목록을 다시 정렬
+const GPS_RESORT_METERS = 50;
+
 // 검색 모드
-type SearchMode = 'DEFAULT' | 'REGION' | 'ADDRESS';
-
-// 하버사인 공식으로 두 점 사이 거리(km) 계산
-function calcDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+type SearchMode = 'DEFAULT' | 'REGION' | 'ADDRESS' | 'GPS';
+
+// 조건을 만족하는 대피소 중 기준 좌표에서 가까운 상위 N개 (서버 RPC, 실패 시 캐시로 계산)
+async function nearestShelters(
+  point: { lat: number; lon: number },
+  filters: ShelterFilters,
+): Promise<Shelter[]> {
+  const nearby = await fetchNearestShelters(point, { limit: NEARBY_LIMIT, filters });
+  return nearby.map((n) => n.shelter);
 }
 
-// DB에서 직접 읽어오는 기본 컬럼 타입
-type ShelterRow = {
-  facility_serial: number;
-  name: string;
-  road_addr: string | null;
-  region_code: number | null;
-  area_sqm: number | null;
-  capacity: number | null;
-  lon: number;
-  lat: number;
+// AI 가이드 대피소 카드 → sessionStorage(quake_openShelter)
+interface OpenShelterRequest {
+  facilitySerial: number;
+  origin: { label: string; lat: number; lon: number } | null;
+}
+
+// 위치 추적 실패 시 결과 라벨에 보여줄 안내 문구
+const GPS_ERROR_LABELS: Partial<Record<GeoStatus, string>> = {
+  denied: '위치 권한이 거부되었습니다. 브라우저 설정에서 위치 접근을 허용하거나 주소로 검색해 주세요.',
+  timeout: '현재 위치를 확인하는 데 시간이 오래 걸리고 있습니다. 잠시 후 다시 시도하거나 주소로 검색해 주세요.',
+  unavailable: '현재 위치를 확인할 수 없습니다. 계속 다시 시도하는 중이니 잠시 기다리거나 주소로 검색해 주세요.',
+  unsupported: '이 브라우저는 위치 정보를 지원하지 않습니다. 주소로 검색해 주세요.',
 };
 
-// 행정구역 스타일(금촌동, 파주시 등)인지 판별
+// 파주시 중심 기준 전체 거리순 정렬
+function sortFromCityCenter(list: Shelter[]): Shelter[] {
+  return [...list].sort((a, b) => {
+    const da =
+      a.lat && a.lon
+        ? calcDistanceKm(USER_LAT, USER_LON, a.lat, a.lon)
+        : Number.MAX_VALUE;
+    const db =
+      b.lat && b.lon
+        ? calcDistanceKm(USER_LAT, USER_LON, b.lat, b.lon)
+        : Number.MAX_VALUE;
+    return da - db;
+  });
+}
+
+// 지역 코드 표에 없는 이름이라도 행정구역 스타일(○○동, ○○리 등)인지 판별
 function isAdministrativeQuery(q: string): boolean {
   const trimmed = q.trim();
   if (!trimmed) return false;
@@ -65,72 +95,123 @@ function isAdministrativeQuery(q: string): boolean {
   return suffixes.some((s) => trimmed.endsWith(s));
 }
 
-// 좌표가 파주시 범위 안인지 확인
-function isInPaju(lat: number, lon: number): boolean {
+// 목록에 보여줄 수용 인원/시설 요약
+function FacilityBadges({ shelter }: { shelter: Shelter }) {
+  const badges = [
+    shelter.capacity != null ? `${shelter.capacity.toLocaleString()}명` : null,
+    shelter.is_24h_open ? '24시간' : null,
+    shelter.facilities.pets_allowed ? '반려동물' : null,
+    shelter.facilities.generator ? '발전기' : null,
+    shelter.facilities.medical ? '의료' : null,
+  ].filter((b): b is string => !!b);
+
+  if (badges.length === 0) return null;
   return (
-    lat >= PAJU_LAT_MIN &&
-    lat <= PAJU_LAT_MAX &&
-    lon >= PAJU_LON_MIN &&
-    lon <= PAJU_LON_MAX
+    <div className="flex flex-wrap gap-1 mb-2">
+      {badges.map((b) => (
+        <span key={b} className="px-1.5 py-0.5 text-[11px] rounded bg-gray-100 text-gray-600">
+          {b}
+        </span>
+      ))}
+    </div>
   );
 }
 
-type SimplePoint = { lat: number; lon: number };
-
-// 지오코딩 시 "파주가 아니면 파주시 붙여서 다시 검색" 로직
-async function geocodeWithPajuFallback(
-  rawQuery: string,
-): Promise<{ point: SimplePoint; usedQuery: string } | null> {
-  const cleanQuery = rawQuery.trim();
-  if (!cleanQuery) return null;
-
-  // 1차: 사용자가 입력한 그대로
-  try {
-    const first = await geocodeWithNaver(cleanQuery);
-    if (first && isInPaju(first.lat, first.lon)) {
-      return { point: first, usedQuery: cleanQuery };
-    }
-  } catch (e) {
-    console.error('[geocodeWithPajuFallback] first geocode error', e);
-  }
-
-  // 이미 "파주"가 들어가 있으면 더 붙이지 않고 종료
-  if (cleanQuery.includes('파주')) {
-    return null;
-  }
-
-  // 2차: "파주시 "를 붙여서 재검색
-  const prefixed = `파주시 ${cleanQuery}`;
-  try {
-    const second = await geocodeWithNaver(prefixed);
-    if (second && isInPaju(second.lat, second.lon)) {
-      return { point: second, usedQuery: prefixed };
-    }
-  } catch (e) {
-    console.error('[geocodeWithPajuFallback] second geocode error', e);
-  }
-
-  // 둘 다 파주시가 아니면 실패 처리
-  return null;
-}
-
 export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
   const [searchAddress, setSearchAddress] = useState(''); // 입력창 값
   const [selectedShelter, setSelectedShelter] = useState<Shelter | null>(null);
   const [viewMode, setViewMode] = useState<'list' | 'detail'>('list');
-  const [shelters, setShelters] = useState<Shelter[]>([]);
   const [filteredShelters, setFilteredShelters] = useState<Shelter[]>([]);
-  const [loading, setLoading] = useState(true);
   const [userPos, setUserPos] = useState<{ lat: number; lon: number } | null>(null); // 검색 기준 좌표
   const [resultLabel, setResultLabel] = useState<string>('파주시 전체 기준, 가까운 순');
   const [searchMode, setSearchMode] = useState<SearchMode>('DEFAULT');
   const [lastSearchQuery, setLastSearchQuery] = useState<string | null>(null);
+  // 행정구역 검색 결과 지역 (지도 경계 표시용)
+  const [regionMatch, setRegionMatch] = useState<RegionMatch | null>(null);
+  // 시설·수용 조건 (모든 검색 모드에 함께 적용)
+  const [filters, setFilters] = useState<ShelterFilters>(EMPTY_FILTERS);
+  // GPS 갱신 effect / 지오코딩 응답 후 조회에서 최신 조건을 읽기 위한 ref
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+
+  // 대피소 데이터셋 (IndexedDB 캐시 + 백그라운드 동기화)
+  const dataset = useShelterDataset();
+  const shelters = dataset.shelters;
+  // GPS 갱신 effect 에서 파주시 밖일 때 보여줄 기본 목록용 (데이터셋 갱신만으로 다시 정렬하지 않음)
+  const sheltersRef = useRef(shelters);
+  sheltersRef.current = shelters;
+  // 불러오기 전(빈 목록)에는 모든 조건을 선택 가능으로 둠
+  const facilityFilterOptions = useMemo(
+    () => (shelters.length > 0 ? availableFlagFilters(shelters) : undefined),
+    [shelters],
+  );
+  const loading = dataset.status === 'loading';
+  // 대피소별 실시간 인원 (realtime)
+  const occupancy = useShelterOccupancy();
+
+  // 현재 위치(GPS) 모드
+  const [gpsEnabled, setGpsEnabled] = useState(false);
+  const { position: gpsPosition, status: gpsStatus } = useWatchPosition(gpsEnabled);
+  // 기준 좌표의 정확도 반경(m) – 목록을 다시 정렬할 때만 갱신 (목록 안내문과 지도 원이 함께 사용)
+  const [userAccuracy, setUserAccuracy] = useState<number | null>(null);
+  // 마지막으로 목록을 정렬한 GPS 좌표와 그때의 정확도
+  const lastSortedPosRef = useRef<{ lat: number; lon: number; accuracy: number } | null>(null);
+
+  // 가까운 대피소 조회 순번 – 검색·GPS·조건 변경이 겹치면 마지막 조회 결과만 목록에 반영
+  const nearestSeqRef = useRef(0);
+  const loadNearest = useCallback(async (point: { lat: number; lon: number }, f: ShelterFilters) => {
+    const seq = ++nearestSeqRef.current;
+    const limited = await nearestShelters(point, f);
+    if (seq === nearestSeqRef.current) setFilteredShelters(limited);
+  }, []);
 
-  // ✅ 홈에서 넘어온 초기 검색어
+  // ✅ 주소 검색(ADDRESS) / 현재 위치(GPS)일 때만 거리/시간 보여주기
+  const showDistanceInfo = searchMode === 'ADDRESS' || searchMode === 'GPS';
+
+  // 기준 좌표 → 선택한 대피소 도보/차량 경로
+  const routes = useRoutes(
+    showDistanceInfo ? userPos : null,
+    selectedShelter ? { lat: selectedShelter.lat, lon: selectedShelter.lon } : null,
+  );
+
+  // ✅ 홈에서 넘어온 초기 검색어 / 자동완성 후보
   const [initialQuery, setInitialQuery] = useState<string | null>(null);
+  const [initialSuggestion, setInitialSuggestion] = useState<Suggestion | null>(null);
+  // AI 가이드의 대피소 카드에서 넘어온 대피소 (바로 상세 화면으로)
+  const [initialShelter, setInitialShelter] = useState<OpenShelterRequest | null>(null);
 
-  // 마운트 시 sessionStorage에서 검색어 읽기
+  // 마운트 시 sessionStorage에서 검색어 / 현재 위치 요청 읽기
   useEffect(() => {
+    const storedShelter = window.sessionStorage.getItem('quake_openShelter');
+    if (storedShelter) {
+      window.sessionStorage.removeItem('quake_openShelter');
+      try {
+        setInitialShelter(JSON.parse(storedShelter) as OpenShelterRequest);
+        return;
+      } catch (e) {
+        console.error('Invalid stored shelter:', e);
+      }
+    }
+
+    if (window.sessionStorage.getItem('quake_useGps') === '1') {
+      window.sessionStorage.removeItem('quake_useGps');
+      setGpsEnabled(true);
+      return;
+    }
+
+    const storedSuggestion = window.sessionStorage.getItem('quake_lastSuggestion');
+    if (storedSuggestion) {
+      window.sessionStorage.removeItem('quake_lastSuggestion');
+      try {
+        const suggestion = JSON.parse(storedSuggestion) as Suggestion;
+        setInitialSuggestion(suggestion);
+        setSearchAddress(suggestion.value);
+        return;
+      } catch (e) {
+        console.error('Invalid stored suggestion:', e);
+      }
+    }
+
     const stored = window.sessionStorage.getItem('quake_lastSearch');
     if (stored && stored.trim().length > 0) {
       setInitialQuery(stored);
@@ -139,113 +220,128 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
     }
   }, []);
 
-  // DB에서 대피소 가져오기
+  // GPS 좌표가 의미 있게 움직였거나 정확도가 크게 좋아졌을 때만 기준 좌표/목록 갱신
   useEffect(() => {
-    const loadShelters = async () => {
-      setLoading(true);
+    if (!gpsEnabled || !gpsPosition) return;
+
+    const last = lastSortedPosRef.current;
+    if (
+      last &&
+      calcDistanceKm(last.lat, last.lon, gpsPosition.lat, gpsPosition.lon) * 1000 <
+        GPS_RESORT_METERS &&
+      gpsPosition.accuracy > last.accuracy / 2
+    ) {
+      return;
+    }
 
-      const { data, error } = await supabase
-        .from<ShelterRow>('shelter_facilities')
-        .select('facility_serial,name,road_addr,region_code,area_sqm,capacity,lon,lat')
-        .order('name');
+    const accuracy = gpsPosition.accuracy;
+    const point = { lat: gpsPosition.lat, lon: gpsPosition.lon, accuracy };
+    lastSortedPosRef.current = point;
 
-      if (error) {
-        console.error('Error loading shelters:', error);
-        setShelters([]);
-        setFilteredShelters([]);
-        setLoading(false);
-        return;
-      }
-
-      const mapped: Shelter[] = (data ?? []).map((row) => ({
-        ...row,
-        address: row.road_addr ?? '',
-        is_24h_open: true,
-        facilities: {
-          medical: true,
-          restroom: true,
-          supplies: true,
-          wifi: false,
-          generator: false,
-          emergency_power: true,
-          pets_allowed: false,
-        },
-      }));
-
-      // 기본: 파주시 중심 기준 전체 거리순 정렬
-      const sorted = [...mapped].sort((a, b) => {
-        const da =
-          a.lat && a.lon
-            ? calcDistanceKm(USER_LAT, USER_LON, a.lat, a.lon)
-            : Number.MAX_VALUE;
-        const db =
-          b.lat && b.lon
-            ? calcDistanceKm(USER_LAT, USER_LON, b.lat, b.lon)
-            : Number.MAX_VALUE;
-        return da - db;
-      });
-
-      setShelters(mapped);
-      setFilteredShelters(sorted);
+    // 파주시 밖이면 "가까운 대피소"가 수십 km 떨어질 수 있으므로 거리순 대신 안내 (주소 검색과 같은 기준)
+    // 추적은 계속해 파주시 안으로 들어오면 다시 정렬
+    if (!isInPaju(point.lat, point.lon)) {
+      setUserPos(null);
+      setUserAccuracy(null);
       setSearchMode('DEFAULT');
       setLastSearchQuery(null);
-      setLoading(false);
-    };
+      nearestSeqRef.current++; // 응답 전인 이전 좌표 조회는 버림
+      setFilteredShelters(sortFromCityCenter(sheltersRef.current));
+      setResultLabel('현재 위치가 파주시 밖입니다. 파주시 전체 기준으로 보여드리니 파주시 안의 주소로 검색해 주세요.');
+      return;
+    }
 
-    loadShelters();
-  }, []);
+    // 기준 좌표/모드를 먼저 바꿔 두어 조회 중 조건을 바꿔도 이 좌표로 다시 조회됨
+    // (응답 전에 위치가 다시 바뀌거나 추적이 꺼지면 이전 결과는 조회 순번으로 버림)
+    const emd = findEmd(point.lat, point.lon);
+
+    setUserPos({ lat: point.lat, lon: point.lon });
+    setUserAccuracy(accuracy);
+    setSearchMode('GPS');
+    setLastSearchQuery('현재 위치');
+    setResultLabel(`현재 위치 기준${emd ? ` · ${emd.name}` : ''}, 가까운 순`);
+    loadNearest(point, filtersRef.current);
+  }, [gpsEnabled, gpsPosition, loadNearest]);
+
+  // 위치 확인 실패 처리
+  // - 권한 거부/미지원: 되돌릴 수 없으므로 GPS 모드 종료
+  // - 타임아웃/일시 불가: watchPosition 이 계속 재시도하므로 추적 유지 (받은 좌표가 있으면 그 좌표로 계속 안내)
+  useEffect(() => {
+    if (!gpsEnabled) return;
+    const message = GPS_ERROR_LABELS[gpsStatus];
+    if (!message) return;
+
+    const retrying = gpsStatus === 'timeout' || gpsStatus === 'unavailable';
+    if (retrying && lastSortedPosRef.current) return;
+
+    setResultLabel(message);
+    if (!retrying) {
+      setGpsEnabled(false);
+    }
+  }, [gpsEnabled, gpsStatus]);
 
-  // shelters 로딩 후 initialQuery 있으면 자동 검색
+  // 데이터셋이 로드/갱신되면 기본 보기 목록 다시 계산
   useEffect(() => {
-    if (!initialQuery) return;
-    if (loading) return;
-    if (shelters.length === 0) return;
+    if (searchMode !== 'DEFAULT') return;
+    setFilteredShelters(sortFromCityCenter(shelters));
+  }, [searchMode, shelters]);
+
+  // 직접 검색하면 현재 위치 추적은 종료
+  const stopGps = useCallback(() => {
+    setGpsEnabled(false);
+    setUserAccuracy(null);
+    lastSortedPosRef.current = null;
+    nearestSeqRef.current++; // 응답 전인 GPS/이전 검색 조회는 버림
+  }, []);
 
-    (async () => {
-      await handleSearchClick(initialQuery);
-      setInitialQuery(null);
-    })();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [initialQuery, loading, shelters]);
+  // 행정구역 검색(금촌동, 파주시 등)
+  const searchRegion = useCallback((q: string) => {
+    setUserPos(null);
+    setSearchMode('REGION');
+    setLastSearchQuery(q);
+
+    // 법정동 코드 표에 있으면 region_code 로, 없으면 주소 문자열로 필터
+    const region = resolveRegion(q);
+    setRegionMatch(region);
+
+    if (!region) {
+      const zoneFiltered = shelters.filter((s) => (s.road_addr ?? '').includes(q));
+      setFilteredShelters(zoneFiltered);
+      setResultLabel(`행정구역 "${q}" 대피소 목록`);
+      return;
+    }
+
+    const zoneFiltered = sortFromCityCenter(shelters.filter((s) => shelterInRegion(s, region)));
+    const childLabel =
+      region.children.length > 0 && region.children[0].level === 'ri'
+        ? ` (${region.children.length}개 리 포함)`
+        : '';
+
+    setFilteredShelters(zoneFiltered);
+    setResultLabel(`행정구역 "${region.label}"${childLabel} 대피소 목록`);
+  }, [shelters]);
 
   // 검색 버튼/엔터 눌렀을 때
   // ✅ forcedQuery 인자로 홈에서 넘겨준 검색어 사용 가능
-  const handleSearchClick = async (forcedQuery?: string) => {
+  const handleSearchClick = useCallback(async (forcedQuery?: string) => {
     const q = (forcedQuery ?? searchAddress).trim();
 
+    stopGps();
+    setRegionMatch(null);
+
     // 검색어가 없으면 기본 파주시 중심 기준으로 리셋
     if (!q) {
       setUserPos(null);
       setSearchMode('DEFAULT');
       setLastSearchQuery(null);
       setResultLabel('파주시 전체 기준, 가까운 순');
-
-      const resetSorted = [...shelters].sort((a, b) => {
-        const da =
-          a.lat && a.lon
-            ? calcDistanceKm(USER_LAT, USER_LON, a.lat, a.lon)
-            : Number.MAX_VALUE;
-        const db =
-          b.lat && b.lon
-            ? calcDistanceKm(USER_LAT, USER_LON, b.lat, b.lon)
-            : Number.MAX_VALUE;
-        return da - db;
-      });
-
-      setFilteredShelters(resetSorted);
+      setFilteredShelters(sortFromCityCenter(shelters));
       return;
     }
 
     // 1) 행정구역 검색(금촌동, 파주시 등)
-    if (isAdministrativeQuery(q)) {
-      setUserPos(null);
-      setSearchMode('REGION');
-      setLastSearchQuery(q);
-
-      const zoneFiltered = shelters.filter((s) => (s.road_addr ?? '').includes(q));
-
-      setFilteredShelters(zoneFiltered);
-      setResultLabel(`행정구역 "${q}" 대피소 목록`);
+    if (resolveRegion(q) || isAdministrativeQuery(q)) {
+      searchRegion(q);
       return;
     }
 
@@ -254,44 +350,38 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
       const fallbackResult = await geocodeWithPajuFallback(q);
 
       if (fallbackResult) {
-        const { point, usedQuery } = fallbackResult;
+        const { point, usedQuery, emd } = fallbackResult;
 
         // 검색 위치 좌표 저장
         setUserPos({ lat: point.lat, lon: point.lon });
         setSearchMode('ADDRESS');
         setLastSearchQuery(usedQuery);
 
-        // 거리 계산
-        const withDistance = shelters.map((s) => {
-          const distance =
-            s.lat && s.lon ? calcDistanceKm(point.lat, point.lon, s.lat, s.lon) : null;
-          return { shelter: s, distance };
-        });
-
-        // 거리순 정렬 후 상위 N개만 사용
-        const sortedByDistance = withDistance
-          .sort((a, b) => {
-            const da = a.distance ?? Number.MAX_VALUE;
-            const db = b.distance ?? Number.MAX_VALUE;
-            return da - db;
-          })
-          .map((item) => item.shelter);
-
-        const limited =
-          sortedByDistance.length > NEARBY_LIMIT
-            ? sortedByDistance.slice(0, NEARBY_LIMIT)
-            : sortedByDistance;
-
-        setFilteredShelters(limited);
+        // 거리순 정렬 후 상위 N개만 사용 (지오코딩 중 바뀐 조건도 반영되도록 최신 조건으로)
+        await loadNearest(point, filtersRef.current);
 
+        // 좌표가 속한 읍/면/동을 함께 표시 (예: "검색 위치 기준 · 금촌2동")
+        const placeLabel = emd ? ` · ${emd.name}` : '';
         const baseLabel =
-          usedQuery === q ? '검색 위치 기준' : `검색 위치 기준 (${usedQuery})`;
+          usedQuery === q
+            ? `검색 위치 기준${placeLabel}`
+            : `검색 위치 기준 (${usedQuery})${placeLabel}`;
 
-        setResultLabel(`${baseLabel}, 가까운 대피소 ${limited.length}곳`);
+        setResultLabel(`${baseLabel}, 가까운 순`);
         return;
       }
     } catch (err) {
       console.error('Error in geocoding with Paju fallback:', err);
+      if (err instanceof GeocodeUnavailableError) {
+        setUserPos(null);
+        setSearchMode('REGION');
+        setLastSearchQuery(q);
+        setFilteredShelters([]);
+        setResultLabel(
+          '지금은 주소 검색을 사용할 수 없습니다. 네트워크 연결을 확인하거나 읍/면/동 이름 또는 현재 위치로 찾아 주세요.',
+        );
+        return;
+      }
     }
 
     // 3) 파주시 내 좌표를 못 찾은 경우
@@ -300,7 +390,80 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
     setLastSearchQuery(q);
     setFilteredShelters([]);
     setResultLabel('검색 결과가 없습니다. 도로명 주소를 다시 확인해 주세요.');
-  };
+  }, [searchAddress, shelters, stopGps, searchRegion, loadNearest]);
+
+  // 자동완성 후보 선택 → 후보 종류에 맞는 검색을 바로 실행
+  const handleSelectSuggestion = useCallback(async (s: Suggestion) => {
+    setSearchAddress(s.value);
+
+    if (s.kind === 'region') {
+      stopGps();
+      searchRegion(s.value);
+      return;
+    }
+
+    if (s.kind === 'shelter') {
+      const shelter = shelters.find((x) => x.facility_serial === s.facilitySerial);
+      if (shelter) {
+        stopGps();
+        setRegionMatch(null);
+        setUserPos(null);
+        setSearchMode('REGION'); // 기준 좌표가 없으므로 거리 정보 숨김
+        setLastSearchQuery(shelter.name);
+        setFilteredShelters([shelter]);
+        setSelectedShelter(shelter);
+        setResultLabel(`대피소 "${shelter.name}"`);
+        return;
+      }
+    }
+
+    // 도로명(또는 목록에서 사라진 대피소 이름)은 주소 검색으로
+    await handleSearchClick(s.value);
+  }, [shelters, stopGps, searchRegion, handleSearchClick]);
+
+  // shelters 로딩 후 initialQuery 있으면 자동 검색 (한 번만 – 먼저 비워서 데이터셋 갱신 시 다시 검색하지 않음)
+  useEffect(() => {
+    if (!initialQuery) return;
+    if (loading) return;
+    if (shelters.length === 0) return;
+
+    setInitialQuery(null);
+    handleSearchClick(initialQuery);
+  }, [initialQuery, loading, shelters, handleSearchClick]);
+
+  // 홈에서 고른 자동완성 후보는 데이터셋 로딩 후 적용
+  useEffect(() => {
+    if (!initialSuggestion) return;
+    if (loading) return;
+
+    setInitialSuggestion(null);
+    handleSelectSuggestion(initialSuggestion);
+  }, [initialSuggestion, loading, handleSelectSuggestion]);
+
+  // AI 가이드에서 고른 대피소는 데이터셋 로딩 후 상세로 열고,
+  // 검색 기준 위치가 함께 오면 그 위치 기준 목록/거리도 채워 둠 (상세에서 뒤로 가기 시 목록)
+  useEffect(() => {
+    if (!initialShelter) return;
+    if (loading) return;
+
+    const { facilitySerial, origin } = initialShelter;
+    setInitialShelter(null);
+
+    if (origin) {
+      setSearchAddress(origin.label);
+      setUserPos({ lat: origin.lat, lon: origin.lon });
+      setSearchMode('ADDRESS');
+      setLastSearchQuery(origin.label);
+      setResultLabel(`검색 위치 기준 (${origin.label}), 가까운 순`);
+      loadNearest(origin, filtersRef.current);
+    }
+
+    const shelter = shelters.find((x) => x.facility_serial === facilitySerial);
+    if (shelter) {
+      setSelectedShelter(shelter);
+      setViewMode('detail');
+    }
+  }, [initialShelter, loading, shelters, loadNearest]);
 
   const getDistanceForShelter = (s: Shelter): number | null => {
     if (s.lat == null || s.lon == null) return null;
@@ -309,10 +472,40 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
     return calcDistanceKm(baseLat, baseLon, s.lat, s.lon);
   };
 
-  const getWalkTime = (d: number) => Math.ceil(d * 12); // km -> 분 (대략)
 
-  // ✅ 주소 검색(ADDRESS)일 때만 거리/시간 보여주기
-  const showDistanceInfo = searchMode === 'ADDRESS';
+  // 현재 위치 버튼: 켜져 있으면 끄고 파주시 전체 보기로 복귀
+  const handleToggleGps = () => {
+    if (gpsEnabled) {
+      handleSearchClick('');
+      return;
+    }
+    lastSortedPosRef.current = null;
+    setGpsEnabled(true);
+    setResultLabel('현재 위치를 확인하는 중입니다...');
+  };
+
+  // 조건이 바뀌면 지금 검색 모드와 기준 좌표로 "조건을 만족하는 가까운 N곳"을 다시 조회
+  const refreshForFilters = (next: ShelterFilters, mode: SearchMode, pos: { lat: number; lon: number } | null) => {
+    // 행정구역/기본 보기(기준 좌표 없음)는 visibleShelters 에서 바로 걸러짐
+    if ((mode !== 'ADDRESS' && mode !== 'GPS') || !pos) return;
+    // GPS 는 마지막으로 정렬한 측위 좌표, 주소는 검색한 좌표 (둘 다 userPos)
+    loadNearest(pos, next);
+  };
+
+  const handleFiltersChange = (next: ShelterFilters) => {
+    setFilters(next);
+    filtersRef.current = next;
+    refreshForFilters(next, searchMode, userPos);
+  };
+
+  const gpsAccuracy = searchMode === 'GPS' ? userAccuracy : null;
+
+  // 검색 결과에 시설·수용 조건을 적용한 목록 (리스트/개수/지도 공통)
+  const visibleShelters = useMemo(
+    () => applyShelterFilters(filteredShelters, filters),
+    [filteredShelters, filters],
+  );
+  const filterSummary = describeFilters(filters);
 
   // 상세 모드일 때는 바로 상세 컴포넌트 렌더
   if (viewMode === 'detail' && selectedShelter) {
@@ -325,8 +518,8 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
         }}
         lastSearchQuery={lastSearchQuery}
         searchMode={searchMode}
-        // 주소 검색(ADDRESS)일 때만 기준 좌표 전달, 나머지는 null
-        userPos={searchMode === 'ADDRESS' ? userPos : null}
+        // 주소 검색(ADDRESS) / 현재 위치(GPS)일 때만 기준 좌표 전달, 나머지는 null
+        userPos={showDistanceInfo ? userPos : null}
       />
     );
   }
@@ -359,17 +552,18 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
                   동/읍/면/시 또는 도로명 주소 검색
                 </label>
                 <div className="flex items-center space-x-2">
-                  <div className="flex-1 relative">
-                    <input
-                      type="text"
-                      placeholder="예: 금촌동, 파주시, 시청로 50"
-                      value={searchAddress}
-                      onChange={(e) => setSearchAddress(e.target.value)}
-                      onKeyDown={(e) => e.key === 'Enter' && handleSearchClick()}
-                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-                    />
-                    <Search className="w-5 h-5 text-gray-400 absolute right-3 top-2.5" />
-                  </div>
+                  <SearchAutocomplete
+                    placeholder="예: 금촌동, 파주시, 시청로 50"
+                    value={searchAddress}
+                    onChange={setSearchAddress}
+                    onSubmit={() => handleSearchClick()}
+                    onSelectSuggestion={handleSelectSuggestion}
+                    shelters={shelters}
+                    className="flex-1"
+                    inputClassName="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  >
+                    <Search className="w-5 h-5 text-gray-400 absolute right-3 top-2.5 pointer-events-none" />
+                  </SearchAutocomplete>
                   <button
                     onClick={() => handleSearchClick()}
                     className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
@@ -378,6 +572,36 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
                   </button>
                 </div>
               </div>
+
+              <button
+                onClick={handleToggleGps}
+                className={`w-full px-3 py-2 text-sm rounded-lg border transition-colors flex items-center justify-center space-x-2 ${
+                  gpsEnabled
+                    ? 'bg-blue-50 border-blue-300 text-blue-700'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <LocateFixed className="w-4 h-4" />
+                <span>
+                  {gpsEnabled
+                    ? gpsStatus === 'locating'
+                      ? '현재 위치 확인 중...'
+                      : '현재 위치 추적 중 (끄기)'
+                    : '내 현재 위치로 찾기'}
+                </span>
+              </button>
+              {gpsAccuracy != null && (
+                <p className="text-[11px] text-gray-500">
+                  위치 정확도 약 ±{Math.round(gpsAccuracy)}m
+                  {(gpsStatus === 'timeout' || gpsStatus === 'unavailable') && ' · 위치 갱신이 지연되고 있습니다'}
+                </p>
+              )}
+
+              <ShelterFilterPanel
+                filters={filters}
+                onChange={handleFiltersChange}
+                available={facilityFilterOptions}
+              />
             </div>
           </div>
 
@@ -385,10 +609,24 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
           <div className="flex flex-col px-6 py-3 border-b border-gray-200 space-y-1">
             <div className="flex items-center justify-between">
               <h3 className="font-semibold text-sm text-gray-900">
-                검색 결과 {filteredShelters.length}곳
+                검색 결과 {visibleShelters.length}곳
               </h3>
+              {hasActiveFilters(filters) && (
+                <button
+                  onClick={() => handleFiltersChange(EMPTY_FILTERS)}
+                  className="text-[11px] text-blue-600 hover:underline"
+                >
+                  조건 해제
+                </button>
+              )}
             </div>
             <p className="text-xs text-gray-500 truncate">{resultLabel}</p>
+            {filterSummary && (
+              <p className="text-xs text-blue-700 truncate">조건: {filterSummary}</p>
+            )}
+            <DataSyncStatus syncedAt={dataset.syncedAt} offline={dataset.offline} />
+            {/* 주소/현재 위치 기준일 때 그 읍/면/동의 지진 위험도 */}
+            {showDistanceInfo && userPos && <RegionRiskCard point={userPos} className="mt-1" />}
           </div>
 
           {/* 결과 리스트 */}
@@ -397,11 +635,27 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
               <div className="p-4 text-sm text-gray-500">대피소 정보를 불러오는 중입니다...</div>
             )}
 
+            {dataset.status === 'error' && (
+              <div className="p-4 text-sm text-red-600">
+                대피소 정보를 불러오지 못했습니다. 네트워크 연결을 확인해 주세요.
+              </div>
+            )}
+
+            {!loading && filterSummary && filteredShelters.length > 0 && visibleShelters.length === 0 && (
+              <div className="p-4 text-sm text-gray-500">
+                조건에 맞는 대피소가 없습니다. 시설·수용 조건을 줄여 보세요.
+              </div>
+            )}
+
             {!loading &&
-              filteredShelters.map((shelter) => {
+              visibleShelters.map((shelter) => {
                 const distance = showDistanceInfo ? getDistanceForShelter(shelter) : null;
                 const distanceText =
                   distance != null ? `${distance.toFixed(1)}km` : '거리 정보 없음';
+                const congestion = congestionLevel(
+                  occupancy.bySerial.get(shelter.facility_serial),
+                  shelter.capacity,
+                );
 
                 return (
                   <div
@@ -413,13 +667,22 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
                         : ''
                     }`}
                   >
-                    <h4 className="font-semibold text-sm text-gray-900 mb-1">
-                      {shelter.name}
-                    </h4>
+                    <div className="flex items-start justify-between mb-1">
+                      <h4 className="font-semibold text-sm text-gray-900">{shelter.name}</h4>
+                      {congestion !== 'unknown' && (
+                        <span
+                          className={`ml-2 flex-shrink-0 px-1.5 py-0.5 text-[11px] rounded ${CONGESTION_STYLES[congestion].bg} ${CONGESTION_STYLES[congestion].text}`}
+                        >
+                          {CONGESTION_LABELS[congestion]}
+                        </span>
+                      )}
+                    </div>
                     <p className="text-xs text-gray-500 mb-2">
                       {shelter.road_addr ?? '주소 정보 없음'}
                     </p>
 
+                    <FacilityBadges shelter={shelter} />
+
                     {showDistanceInfo && (
                       <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
                         <span className="flex items-center space-x-1">
@@ -450,10 +713,16 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
         {/* 오른쪽 네이버 지도 + 선택된 대피소 요약 카드 */}
         <div className="flex-1 relative">
           <NaverMap
-            shelters={filteredShelters}
+            shelters={visibleShelters}
             userPos={userPos}
+            userAccuracy={gpsAccuracy}
+            regionOutlines={searchMode === 'REGION' ? regionMatch?.outlines : undefined}
+            occupancy={occupancy.bySerial}
             selectedShelter={selectedShelter}
-            onSelectShelter={(shelter) => {
+            routePath={selectedShelter && routes.walk ? routes.walk.path : null}
+            routeIsEstimate={routes.walk?.source === 'estimate'}
+            onSelectShelter={setSelectedShelter}
+            onOpenDetail={(shelter) => {
               setSelectedShelter(shelter);
               setViewMode('detail');
             }}
@@ -468,46 +737,58 @@ export default function ShelterSearch({ onNavigate }: ShelterSearchProps) {
                 {selectedShelter.road_addr ?? '주소 정보 없음'}
               </p>
 
-              {(() => {
-                const d = getDistanceForShelter(selectedShelter);
-                if (d == null) return null;
-                const walk = getWalkTime(d);
-                const drive = Math.ceil(d * 3);
+              {routes.loading && !routes.walk && (
+                <p className="text-xs text-gray-500 mb-3">경로를 계산하는 중입니다...</p>
+              )}
 
-                return (
-                  <>
-                    <div className="grid grid-cols-2 gap-3 mb-3">
-                      <div className="bg-gray-50 rounded-lg p-2">
-                        <div className="text-xs text-gray-600 mb-1">현재 거리</div>
-                        <div className="text-xl font-bold text-gray-900">
-                          {d.toFixed(1)}km
-                        </div>
+              {routes.walk && routes.drive && (
+                <>
+                  <div className="grid grid-cols-2 gap-3 mb-3">
+                    <div className="bg-gray-50 rounded-lg p-2">
+                      <div className="text-xs text-gray-600 mb-1">
+                        {routes.walk.source === 'graph' ? '도보 거리' : '도보 거리 (직선)'}
                       </div>
-                      <div className="bg-gray-50 rounded-lg p-2">
-                        <div className="text-xs text-gray-600 mb-1">차량 거리</div>
-                        <div className="text-xl font-bold text-gray-900">
-                          {(d + 0.3).toFixed(1)}km
-                        </div>
+                      <div className="text-xl font-bold text-gray-900">
+                        {routes.walk.distanceKm.toFixed(1)}km
                       </div>
                     </div>
-
-                    <div className="space-y-2 mb-3">
-                      <div className="flex items-center justify_between p-2 bg-blue-50 rounded-lg">
-                        <span className="text-xs text-gray-700">도보 경로</span>
-                        <span className="font-semibold text-sm text-blue-600">
-                          약 {walk}분
-                        </span>
+                    <div className="bg-gray-50 rounded-lg p-2">
+                      <div className="text-xs text-gray-600 mb-1">
+                        {routes.drive.source === 'graph' ? '차량 거리' : '차량 거리 (직선)'}
                       </div>
-                      <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
-                        <span className="text-xs text-gray-700">차량 경로</span>
-                        <span className="font-semibold text-sm text-gray-900">
-                          약 {drive}분
-                        </span>
+                      <div className="text-xl font-bold text-gray-900">
+                        {routes.drive.distanceKm.toFixed(1)}km
                       </div>
                     </div>
-                  </>
-                );
-              })()}
+                  </div>
+
+                  <div className="space-y-2 mb-3">
+                    <div className="flex items-center justify-between p-2 bg-blue-50 rounded-lg">
+                      <span className="text-xs text-gray-700">
+                        {routes.walk.source === 'graph' ? '도보 경로' : '도보 (직선거리 추정)'}
+                      </span>
+                      <span className="font-semibold text-sm text-blue-600">
+                        약 {routes.walk.minutes}분
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                      <span className="text-xs text-gray-700">
+                        {routes.drive.source === 'graph' ? '차량 경로' : '차량 (직선거리 추정)'}
+                      </span>
+                      <span className="font-semibold text-sm text-gray-900">
+                        약 {routes.drive.minutes}분
+                      </span>
+                    </div>
+                  </div>
+
+                  {(routes.walk.source === 'estimate' || routes.drive.source === 'estimate') && (
+                    <p className="text-[11px] text-amber-700">
+                      이 위치는 도로 경로 정보가 없어 직선거리로 추정했습니다. 지도의 점선은
+                      실제 이동 경로가 아닙니다.
+                    </p>
+                  )}
+                </>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,117 @@
+// src/components/StaffCheckinPanel.tsx
+import { useState } from 'react';
+import { LogIn, LogOut, Users } from 'lucide-react';
+import type { Shelter } from '../lib/supabase';
+import { useShelterOccupancy } from '../hooks/useShelterOccupancy';
+import {
+  CONGESTION_LABELS,
+  CONGESTION_STYLES,
+  congestionLevel,
+  recordCheckin,
+} from '../lib/occupancy';
+
+interface StaffCheckinPanelProps {
+  // 로그인한 직원이 담당하는 대피소
+  shelters: Shelter[];
+}
+
+// 한 번에 기록할 수 있는 최대 인원 (오입력 방지)
+const MAX_BATCH = 500;
+
+// 담당 직원 입실/퇴실 기록 (권한 검사는 record_shelter_checkin RPC)
+export default function StaffCheckinPanel({ shelters }: StaffCheckinPanelProps) {
+  const occupancy = useShelterOccupancy();
+  const [serial, setSerial] = useState<number | null>(shelters[0]?.facility_serial ?? null);
+  const [count, setCount] = useState('1');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shelter = shelters.find((s) => s.facility_serial === serial) ?? shelters[0];
+  if (!shelter) return null;
+
+  const current = occupancy.bySerial.get(shelter.facility_serial);
+  const level = congestionLevel(current, shelter.capacity);
+  const amount = Number(count);
+  const validAmount = Number.isInteger(amount) && amount > 0 && amount <= MAX_BATCH;
+
+  const record = async (direction: 1 | -1) => {
+    if (!validAmount) return;
+    setSaving(true);
+    setError(null);
+    try {
+      // 바뀐 인원은 realtime 구독으로 위 카드에 반영됨
+      await recordCheckin(shelter.facility_serial, direction * amount);
+      setCount('1');
+    } catch {
+      setError('기록하지 못했습니다. 담당 대피소인지, 네트워크 연결을 확인해 주세요.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+      <h3 className="font-semibold text-sm text-gray-900">입실/퇴실 기록</h3>
+
+      {shelters.length > 1 && (
+        <select
+          value={shelter.facility_serial}
+          onChange={(e) => setSerial(Number(e.target.value))}
+          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white"
+        >
+          {shelters.map((s) => (
+            <option key={s.facility_serial} value={s.facility_serial}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className={`flex items-center justify-between rounded-lg p-3 ${CONGESTION_STYLES[level].bg}`}>
+        <div>
+          <p className="text-xs text-gray-600">{shelter.name}</p>
+          <p className="flex items-center space-x-1 text-lg font-bold text-gray-900">
+            <Users className="w-4 h-4" />
+            <span>
+              {current ? current.occupants.toLocaleString() : '-'}
+              {shelter.capacity != null && ` / ${shelter.capacity.toLocaleString()}`}명
+            </span>
+          </p>
+        </div>
+        <span className={`text-xs font-medium ${CONGESTION_STYLES[level].text}`}>{CONGESTION_LABELS[level]}</span>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="number"
+          min={1}
+          max={MAX_BATCH}
+          value={count}
+          onChange={(e) => setCount(e.target.value)}
+          className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+          aria-label="인원"
+        />
+        <span className="text-xs text-gray-500">명</span>
+        <button
+          onClick={() => record(1)}
+          disabled={saving || !validAmount}
+          className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 bg-blue-600 text-white text-xs rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          <LogIn className="w-3.5 h-3.5" />
+          <span>입실</span>
+        </button>
+        <button
+          onClick={() => record(-1)}
+          disabled={saving || !validAmount}
+          className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 border border-gray-300 text-gray-700 text-xs rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <LogOut className="w-3.5 h-3.5" />
+          <span>퇴실</span>
+        </button>
+      </div>
+
+      {!validAmount && <p className="text-xs text-red-600">1~{MAX_BATCH}명 사이로 입력해 주세요.</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
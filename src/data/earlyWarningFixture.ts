@@ -0,0 +1,18 @@
+// src/data/earlyWarningFixture.ts
+// 조기경보 화면 재생용 가상 지진 (실제 통보 아님)
+// /?eew=replay 로 열면 이 이벤트를 발생 후 ALERT_DELAY_MS 시점에 받은 것처럼 카운트다운을 보여준다.
+import type { WarningEvent } from '../lib/earlyWarning';
+
+// 기상청 조기경보는 발생 후 5~10초 안에 발표
+export const EARLY_WARNING_REPLAY_DELAY_MS = 5_000;
+
+// 강원 철원 북쪽(평강 부근) 가상 규모 5.6 – 파주시청에서 진앙까지 약 65km, S파 도착까지 약 19초
+export const EARLY_WARNING_FIXTURE: WarningEvent = {
+  id: 'fixture-eew-2026-pyeonggang',
+  occurredAt: Date.parse('2026-03-14T02:17:40+09:00'),
+  lat: 38.25,
+  lon: 127.2,
+  depthKm: 10,
+  magnitude: 5.6,
+  location: '강원 철원군 북쪽 ○○km 지역 (가상)',
+};
@@ -0,0 +1,60 @@
+// src/data/safetyGuidance.ts
+// 흔들림 정도별 행동 요령 (시뮬레이션은 규모·진앙 거리로 예상 진도를 구해 고른다 – src/lib/intensity)
+// 앱 번들에 포함되므로 서비스 워커가 캐시한 뒤에는 오프라인에서도 그대로 표시된다.
+
+export type Magnitude = '3-4' | '4-5' | '5+';
+
+// 시뮬레이션에서 규모 구간을 골랐을 때 계산에 쓰는 대표 규모
+export const SCENARIO_MAGNITUDES: Record<Magnitude, number> = {
+  '3-4': 3.5,
+  '4-5': 4.5,
+  '5+': 6.0,
+};
+
+export interface Scenario {
+  title: string;
+  description: string;
+  actions: string[];
+  color: 'yellow' | 'orange' | 'red';
+}
+
+export const SCENARIOS: Record<Magnitude, Scenario> = {
+  '3-4': {
+    title: '진도 IV 이하: 실내 대피',
+    description: '약한 흔들림이 느껴지지만 구조물 피해는 적습니다.',
+    actions: [
+      '튼튼한 탁자나 책상 아래로 대피',
+      '머리와 목을 보호',
+      '창문과 유리에서 멀리 떨어지기',
+      '가스와 전기 차단',
+      '문을 열어 탈출로 확보',
+    ],
+    color: 'yellow',
+  },
+  '4-5': {
+    title: '진도 V~VI: 옥외 대피소 이동',
+    description: '강한 흔들림으로 건물 내부에 균열이 발생할 수 있습니다.',
+    actions: [
+      '즉시 건물 밖으로 대피',
+      '엘리베이터 사용 금지 (계단 이용)',
+      '낙하물 주의하며 이동',
+      '넓은 공터나 지정 대피소로 이동',
+      '비상 물품 가방 휴대',
+      '가족과 연락처 공유',
+    ],
+    color: 'orange',
+  },
+  '5+': {
+    title: '진도 VII 이상: 긴급 대피',
+    description: '건물 붕괴 위험이 높습니다. 즉시 대피해야 합니다.',
+    actions: [
+      '즉시 건물에서 탈출',
+      '지정된 긴급 대피소로 이동',
+      '가족 비상 연락망 가동',
+      '구호물품 지원 장소 확인',
+      '여진에 대비하여 장기 체류 준비',
+      '정부 재난 문자 확인',
+    ],
+    color: 'red',
+  },
+};
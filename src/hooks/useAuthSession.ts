@@ -0,0 +1,31 @@
+// src/hooks/useAuthSession.ts
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+// Supabase 로그인 세션 구독 (loading: 저장된 세션 확인 전)
+export function useAuthSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let canceled = false;
+    supabase.auth.getSession().then(({ data }) => {
+      if (canceled) return;
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setLoading(false);
+    });
+
+    return () => {
+      canceled = true;
+      data.subscription.unsubscribe();
+    };
+  }, []);
+
+  return { session, loading };
+}
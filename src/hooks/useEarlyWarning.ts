@@ -0,0 +1,8 @@
+// src/hooks/useEarlyWarning.ts
+import { useSyncExternalStore } from 'react';
+import { getEarlyWarningState, subscribeEarlyWarning } from '../lib/earlyWarningStore';
+
+// 조기경보 수신 상태 구독 (앱이 열려 있는 동안 earthquakes realtime 채널 유지)
+export function useEarlyWarning() {
+  return useSyncExternalStore(subscribeEarlyWarning, getEarlyWarningState);
+}
@@ -0,0 +1,45 @@
+// src/hooks/useRoutes.ts
+import { useEffect, useState } from 'react';
+import type { LatLon } from '../lib/geo';
+import { computeRoute, type RouteResult } from '../lib/routing';
+
+// 출발지 → 도착지 도보/차량 경로를 함께 계산
+export function useRoutes(from: LatLon | null, to: LatLon | null) {
+  const [walk, setWalk] = useState<RouteResult | null>(null);
+  const [drive, setDrive] = useState<RouteResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fromLat = from?.lat;
+  const fromLon = from?.lon;
+  const toLat = to?.lat;
+  const toLon = to?.lon;
+
+  useEffect(() => {
+    if (fromLat == null || fromLon == null || toLat == null || toLon == null) {
+      setWalk(null);
+      setDrive(null);
+      return;
+    }
+
+    let canceled = false;
+    const origin = { lat: fromLat, lon: fromLon };
+    const dest = { lat: toLat, lon: toLon };
+
+    setLoading(true);
+    Promise.all([computeRoute(origin, dest, 'walk'), computeRoute(origin, dest, 'drive')])
+      .then(([w, d]) => {
+        if (canceled) return;
+        setWalk(w);
+        setDrive(d);
+      })
+      .finally(() => {
+        if (!canceled) setLoading(false);
+      });
+
+    return () => {
+      canceled = true;
+    };
+  }, [fromLat, fromLon, toLat, toLon]);
+
+  return { walk, drive, loading };
+}
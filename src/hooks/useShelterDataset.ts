@@ -0,0 +1,18 @@
+// src/hooks/useShelterDataset.ts
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getShelterState,
+  startBackgroundSync,
+  subscribeShelters,
+} from '../lib/shelterRepository';
+
+// 오프라인 캐시 + 백그라운드 동기화되는 대피소 데이터셋 구독
+export function useShelterDataset() {
+  const dataset = useSyncExternalStore(subscribeShelters, getShelterState);
+
+  useEffect(() => {
+    startBackgroundSync();
+  }, []);
+
+  return dataset;
+}
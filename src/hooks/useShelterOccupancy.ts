@@ -0,0 +1,8 @@
+// src/hooks/useShelterOccupancy.ts
+import { useSyncExternalStore } from 'react';
+import { getOccupancyState, subscribeOccupancy } from '../lib/occupancy';
+
+// 대피소 실시간 인원 구독 (마지막 화면이 사라지면 realtime 채널도 해제)
+export function useShelterOccupancy() {
+  return useSyncExternalStore(subscribeOccupancy, getOccupancyState);
+}
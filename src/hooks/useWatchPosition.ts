@@ -0,0 +1,89 @@
+// src/hooks/useWatchPosition.ts
+import { useEffect, useState } from 'react';
+
+// 위치 추적 상태
+// - locating: 첫 위치를 기다리는 중
+// - tracking: 위치를 받아 추적 중
+// - denied / unavailable / timeout: GeolocationPositionError 코드별 실패
+export type GeoStatus =
+  | 'idle'
+  | 'locating'
+  | 'tracking'
+  | 'denied'
+  | 'unavailable'
+  | 'timeout'
+  | 'unsupported';
+
+export interface WatchedPosition {
+  lat: number;
+  lon: number;
+  accuracy: number; // m, 95% 신뢰 반경
+  timestamp: number;
+}
+
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 10000,
+};
+
+function statusFromError(err: GeolocationPositionError): GeoStatus {
+  switch (err.code) {
+    case err.PERMISSION_DENIED:
+      return 'denied';
+    case err.TIMEOUT:
+      return 'timeout';
+    default:
+      return 'unavailable';
+  }
+}
+
+// navigator.geolocation.watchPosition 래퍼
+// enabled가 false가 되면 추적을 멈추고 상태를 초기화한다.
+export function useWatchPosition(enabled: boolean) {
+  const [position, setPosition] = useState<WatchedPosition | null>(null);
+  const [status, setStatus] = useState<GeoStatus>('idle');
+
+  useEffect(() => {
+    if (!enabled) {
+      setPosition(null);
+      setStatus('idle');
+      return;
+    }
+
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setStatus('unsupported');
+      return;
+    }
+
+    setStatus('locating');
+
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        setPosition({
+          lat: pos.coords.latitude,
+          lon: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+          timestamp: pos.timestamp,
+        });
+        setStatus('tracking');
+      },
+      (err) => {
+        console.error('[useWatchPosition] geolocation error', err);
+        // 권한 거부는 되돌릴 수 없으므로 추적 중단,
+        // 타임아웃/일시 불가는 watch가 계속 재시도하므로 상태만 갱신
+        setStatus(statusFromError(err));
+        if (err.code === err.PERMISSION_DENIED) {
+          navigator.geolocation.clearWatch(watchId);
+        }
+      },
+      WATCH_OPTIONS,
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+    };
+  }, [enabled]);
+
+  return { position, status };
+}
@@ -0,0 +1,213 @@
+// src/lib/adminShelters.ts
+// 관리자 콘솔용 대피소 조회/수정
+// - 쓰기 권한은 RLS(admin_users 역할)로만 판단, 권한이 없으면 수정된 행이 0개로 돌아옴
+// - CSV 일괄 수정: 내려받은 CSV 를 고쳐 올리면 기존 대피소와 비교해 바뀐 칸만 반영
+import { supabase, type Shelter, type ShelterFacilities } from './supabase';
+import { mapShelterRow, SHELTER_COLUMNS, syncShelters } from './shelterRepository';
+import { parseCsv, toCsv, type CsvValue } from './csv';
+import { isInPaju } from './pajuBoundary';
+
+export type AdminRole = 'admin' | 'editor';
+
+export const FACILITY_LABELS: Record<keyof ShelterFacilities, string> = {
+  medical: '의료',
+  restroom: '화장실',
+  supplies: '구호물품',
+  wifi: '와이파이',
+  generator: '발전기',
+  emergency_power: '비상전원',
+  pets_allowed: '반려동물',
+};
+
+const FACILITY_KEYS = Object.keys(FACILITY_LABELS) as (keyof ShelterFacilities)[];
+
+// 콘솔에서 고칠 수 있는 칸
+export type ShelterPatch = Partial<
+  Pick<
+    Shelter,
+    'name' | 'road_addr' | 'capacity' | 'area_sqm' | 'facilities' | 'is_open' | 'is_24h_open' | 'lat' | 'lon'
+  >
+>;
+
+export async function fetchAdminRole(userId: string): Promise<AdminRole | null> {
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.role === 'admin' || data?.role === 'editor' ? data.role : null;
+}
+
+// 캐시가 아닌 서버 최신값 (운영 중지 대피소 포함)
+export async function fetchAllShelters(): Promise<Shelter[]> {
+  const { data, error } = await supabase.from('shelter_facilities').select(SHELTER_COLUMNS).order('name');
+  if (error) throw error;
+  return (data ?? []).map(mapShelterRow);
+}
+
+export async function updateShelter(serial: number, patch: ShelterPatch): Promise<Shelter> {
+  if (patch.lat != null && patch.lon != null && !isInPaju(patch.lat, patch.lon)) {
+    throw new Error('파주시 경계 밖으로는 옮길 수 없습니다.');
+  }
+
+  const { data, error } = await supabase
+    .from('shelter_facilities')
+    .update(patch)
+    .eq('facility_serial', serial)
+    .select(SHELTER_COLUMNS);
+
+  if (error) throw error;
+  // RLS 로 막히면 오류 없이 0행이 돌아옴
+  if (!data || data.length === 0) throw new Error('이 대피소를 수정할 권한이 없습니다.');
+  return mapShelterRow(data[0]);
+}
+
+// 여러 건 수정 후 화면 데이터셋(IndexedDB 캐시)도 다시 동기화
+export async function refreshPublicDataset() {
+  await syncShelters();
+}
+
+// ---- CSV ----
+
+const BASE_COLUMNS = ['facility_serial', 'name', 'road_addr', 'capacity', 'area_sqm', 'is_open', 'is_24h_open'] as const;
+const CSV_HEADER = [...BASE_COLUMNS, ...FACILITY_KEYS];
+
+export function sheltersToCsv(list: Shelter[]): string {
+  const rows: CsvValue[][] = list.map((s) => [
+    s.facility_serial,
+    s.name,
+    s.road_addr,
+    s.capacity,
+    s.area_sqm,
+    s.is_open,
+    s.is_24h_open,
+    ...FACILITY_KEYS.map((k) => s.facilities[k]),
+  ]);
+  return toCsv([CSV_HEADER, ...rows]);
+}
+
+export interface CsvPatch {
+  serial: number;
+  name: string;
+  patch: ShelterPatch;
+  // 바뀐 칸 이름 (미리보기용)
+  changed: string[];
+}
+
+export interface CsvParseResult {
+  patches: CsvPatch[];
+  errors: string[];
+}
+
+function parseBool(value: string): boolean | null {
+  const v = value.trim().toLowerCase();
+  if (['true', '1', 'y', 'yes', 'o', '예'].includes(v)) return true;
+  if (['false', '0', 'n', 'no', 'x', '아니오', ''].includes(v)) return false;
+  return null;
+}
+
+function parseOptionalNumber(value: string): number | null | undefined {
+  const v = value.replace(/,/g, '').trim();
+  if (!v) return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+// 기존 대피소와 비교해 바뀐 칸만 patch 로 (없는 시설일련번호는 오류)
+export function parseShelterCsv(text: string, existing: Shelter[]): CsvParseResult {
+  const [header, ...rows] = parseCsv(text);
+  const errors: string[] = [];
+  const patches: CsvPatch[] = [];
+  if (!header) return { patches, errors: ['빈 파일입니다.'] };
+
+  const col = new Map(header.map((h, i) => [h.trim(), i]));
+  if (!col.has('facility_serial')) return { patches, errors: ['facility_serial 열이 없습니다.'] };
+
+  const bySerial = new Map(existing.map((s) => [s.facility_serial, s]));
+
+  rows.forEach((cells, i) => {
+    const line = i + 2;
+    const cell = (name: string) => {
+      const idx = col.get(name);
+      return idx == null ? undefined : (cells[idx] ?? '');
+    };
+
+    const serial = Number(cell('facility_serial'));
+    const current = bySerial.get(serial);
+    if (!current) {
+      errors.push(`${line}행: 시설일련번호 ${cell('facility_serial')} 대피소가 없습니다.`);
+      return;
+    }
+
+    const patch: ShelterPatch = {};
+    const changed: string[] = [];
+    const fail = (msg: string) => errors.push(`${line}행 (${current.name}): ${msg}`);
+
+    const name = cell('name');
+    if (name !== undefined) {
+      if (!name.trim()) return fail('시설명이 비어 있습니다.');
+      if (name.trim() !== current.name) {
+        patch.name = name.trim();
+        changed.push('시설명');
+      }
+    }
+
+    const addr = cell('road_addr');
+    if (addr !== undefined && (addr.trim() || null) !== current.road_addr) {
+      patch.road_addr = addr.trim() || null;
+      changed.push('주소');
+    }
+
+    for (const [key, label] of [
+      ['capacity', '수용 인원'],
+      ['area_sqm', '면적'],
+    ] as const) {
+      const raw = cell(key);
+      if (raw === undefined) continue;
+      const value = parseOptionalNumber(raw);
+      if (value === undefined) return fail(`${label} 값이 올바르지 않습니다: ${raw}`);
+      if (key === 'capacity' && value != null && !Number.isInteger(value)) {
+        return fail(`수용 인원은 정수여야 합니다: ${raw}`);
+      }
+      if (value !== current[key]) {
+        patch[key] = value;
+        changed.push(label);
+      }
+    }
+
+    for (const [key, label] of [
+      ['is_open', '운영 여부'],
+      ['is_24h_open', '24시간'],
+    ] as const) {
+      const raw = cell(key);
+      if (raw === undefined) continue;
+      const value = parseBool(raw);
+      if (value == null) return fail(`${label} 값이 올바르지 않습니다: ${raw}`);
+      if (value !== current[key]) {
+        patch[key] = value;
+        changed.push(label);
+      }
+    }
+
+    const facilities = { ...current.facilities };
+    let facilitiesChanged = false;
+    for (const key of FACILITY_KEYS) {
+      const raw = cell(key);
+      if (raw === undefined) continue;
+      const value = parseBool(raw);
+      if (value == null) return fail(`${FACILITY_LABELS[key]} 값이 올바르지 않습니다: ${raw}`);
+      if (value !== facilities[key]) {
+        facilities[key] = value;
+        facilitiesChanged = true;
+        changed.push(FACILITY_LABELS[key]);
+      }
+    }
+    if (facilitiesChanged) patch.facilities = facilities;
+
+    if (changed.length > 0) patches.push({ serial, name: current.name, patch, changed });
+  });
+
+  return { patches, errors };
+}
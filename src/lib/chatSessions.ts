@@ -0,0 +1,114 @@
+// src/lib/chatSessions.ts
+// AI 가이드 대화 기록 (chat_sessions / chatbot_conversations)
+// - 로그인하지 않은 방문자는 익명 로그인으로 사용자 id 를 받아 본인 대화만 읽고 씀 (RLS)
+// - 마지막으로 보던 대화 id 는 localStorage 에 두고 새로고침 후 이어서 보여줌
+import { supabase } from './supabase';
+import type { Json, Tables } from './database.types';
+import type { ChatSource, ChatToolResult } from './chatStream';
+
+export type ChatSession = Pick<Tables<'chat_sessions'>, 'id' | 'title' | 'updated_at'>;
+
+// 질문 하나와 그 답변
+export interface ChatTurn {
+  id: string;
+  question: string;
+  answer: string;
+  createdAt: string;
+  sources: ChatSource[];
+  toolResults: ChatToolResult[];
+}
+
+const ACTIVE_SESSION_KEY = 'quake_chatSessionId';
+
+// 사이드바 제목으로 쓰는 첫 질문 최대 길이
+const TITLE_MAX_CHARS = 40;
+
+// 사이드바에 보여줄 최근 대화 수
+const SESSION_LIST_LIMIT = 30;
+
+let signInPromise: Promise<string> | null = null;
+
+// 저장된 로그인(관리자 계정 포함)이 있으면 그 사용자, 없으면 익명 로그인
+// 동시에 여러 번 불려도 익명 사용자는 하나만 만듦
+export function ensureChatUser(): Promise<string> {
+  if (!signInPromise) {
+    signInPromise = (async () => {
+      const { data } = await supabase.auth.getSession();
+      if (data.session) return data.session.user.id;
+
+      const { data: signedIn, error } = await supabase.auth.signInAnonymously();
+      if (error) throw error;
+      if (!signedIn.user) throw new Error('익명 로그인 결과에 사용자가 없습니다.');
+      return signedIn.user.id;
+    })().finally(() => {
+      signInPromise = null;
+    });
+  }
+  return signInPromise;
+}
+
+export function getActiveSessionId(): string | null {
+  return window.localStorage.getItem(ACTIVE_SESSION_KEY);
+}
+
+export function setActiveSessionId(id: string | null) {
+  if (id) window.localStorage.setItem(ACTIVE_SESSION_KEY, id);
+  else window.localStorage.removeItem(ACTIVE_SESSION_KEY);
+}
+
+export async function listChatSessions(): Promise<ChatSession[]> {
+  const userId = await ensureChatUser();
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('id,title,updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(SESSION_LIST_LIMIT);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+// 첫 질문을 제목으로 새 대화 생성 (답변을 저장할 때 만들어 빈 대화가 남지 않게 함)
+export async function createChatSession(firstQuestion: string): Promise<ChatSession> {
+  await ensureChatUser();
+  const title = firstQuestion.replace(/\s+/g, ' ').trim();
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({ title: title.length > TITLE_MAX_CHARS ? `${title.slice(0, TITLE_MAX_CHARS)}…` : title })
+    .select('id,title,updated_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchChatTurns(sessionId: string): Promise<ChatTurn[]> {
+  const { data, error } = await supabase
+    .from('chatbot_conversations')
+    .select('id,user_message,bot_response,created_at,sources,tool_results')
+    .eq('session_id', sessionId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    question: row.user_message,
+    answer: row.bot_response,
+    createdAt: row.created_at ?? new Date().toISOString(),
+    sources: Array.isArray(row.sources) ? (row.sources as unknown as ChatSource[]) : [],
+    toolResults: Array.isArray(row.tool_results) ? (row.tool_results as unknown as ChatToolResult[]) : [],
+  }));
+}
+
+export async function saveChatTurn(sessionId: string, turn: Omit<ChatTurn, 'id' | 'createdAt'>): Promise<void> {
+  const { error } = await supabase.from('chatbot_conversations').insert({
+    session_id: sessionId,
+    user_message: turn.question,
+    bot_response: turn.answer,
+    sources: turn.sources as unknown as Json,
+    tool_results: turn.toolResults as unknown as Json,
+  });
+
+  if (error) throw error;
+}
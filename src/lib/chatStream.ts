@@ -0,0 +1,142 @@
+// src/lib/chatStream.ts
+// /api/chat 스트리밍(SSE) 응답 읽기
+// - sources 이벤트로 답변 근거가 된 공식 행동요령 문단 목록을 먼저 받음 (답변의 [1] 인용 번호 = id)
+// - tool 이벤트로 대피소·지진 조회 결과를 받음 (답변 아래 카드로 표시)
+// - delta 이벤트마다 onDelta 로 지금까지의 답변 전체를 전달
+// - 중간에 끊기면 그때까지 받은 답변(partial)을 담은 ChatStreamError
+// - signal 로 중단하면 canceled: true 로 정상 반환
+import type { ChatSource, ChatToolResult } from './chatTypes';
+
+export type { ChatSource, ChatToolEarthquake, ChatToolResult, ChatToolShelter } from './chatTypes';
+
+export interface ChatPayloadMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatStreamResult {
+  text: string;
+  sources: ChatSource[];
+  tools: ChatToolResult[];
+  canceled: boolean;
+  // 'length' 면 max_tokens 에 걸려 답변이 잘림
+  finishReason: string | null;
+}
+
+export class ChatStreamError extends Error {
+  // 실패 전까지 받은 답변
+  readonly partial: string;
+
+  constructor(message: string, partial: string) {
+    super(message);
+    this.name = 'ChatStreamError';
+    this.partial = partial;
+  }
+}
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// "event: x\ndata: y" 블록 하나
+function parseEvent(block: string): SseEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError';
+}
+
+export async function streamChat(
+  messages: ChatPayloadMessage[],
+  {
+    signal,
+    onDelta,
+    onSources,
+    onTool,
+  }: {
+    signal?: AbortSignal;
+    onDelta: (text: string) => void;
+    onSources?: (sources: ChatSource[]) => void;
+    // 지금까지 받은 도구 결과 전체
+    onTool?: (tools: ChatToolResult[]) => void;
+  },
+): Promise<ChatStreamResult> {
+  let text = '';
+  let sources: ChatSource[] = [];
+  const tools: ChatToolResult[] = [];
+
+  let response: Response;
+  try {
+    response = await fetch('/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ messages }),
+      signal,
+    });
+  } catch (e) {
+    if (isAbortError(e)) return { text, sources, tools, canceled: true, finishReason: null };
+    throw new ChatStreamError('AI 서버에 연결하지 못했습니다.', text);
+  }
+
+  if (!response.ok || !response.body) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new ChatStreamError(body?.error ?? `AI 서버 오류 (HTTP ${response.status})`, text);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const parsed = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (!parsed) continue;
+
+        const data = JSON.parse(parsed.data) as Partial<ChatToolResult> & {
+          text?: string;
+          sources?: ChatSource[];
+          error?: string;
+          finishReason?: string | null;
+        };
+        if (parsed.event === 'sources' && data.sources) {
+          sources = data.sources;
+          onSources?.(sources);
+        } else if (parsed.event === 'tool' && data.tool) {
+          tools.push(data as ChatToolResult);
+          onTool?.([...tools]);
+        } else if (parsed.event === 'delta' && data.text) {
+          text += data.text;
+          onDelta(text);
+        } else if (parsed.event === 'error') {
+          throw new ChatStreamError(data.error ?? '답변 생성 중 오류가 발생했습니다.', text);
+        } else if (parsed.event === 'done') {
+          return { text, sources, tools, canceled: false, finishReason: data.finishReason ?? null };
+        }
+      }
+    }
+  } catch (e) {
+    if (isAbortError(e)) return { text, sources, tools, canceled: true, finishReason: null };
+    if (e instanceof ChatStreamError) throw e;
+    throw new ChatStreamError('답변을 받는 중 연결이 끊겼습니다.', text);
+  } finally {
+    reader.releaseLock();
+  }
+
+  // done 없이 스트림이 닫힘
+  throw new ChatStreamError('답변을 받는 중 연결이 끊겼습니다.', text);
+}
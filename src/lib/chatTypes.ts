@@ -0,0 +1,52 @@
+// src/lib/chatTypes.ts
+// /api/chat SSE 이벤트로 주고받는 데이터 형식 (api/_lib 가 만들고 chatStream.ts 가 읽음)
+// 브라우저/서버리스 함수 양쪽에서 import 하므로 DOM 의존 없이 순수 타입만 둔다.
+
+// sources 이벤트 – 답변 근거가 된 공식 행동요령 문단
+export interface ChatSource {
+  // 인용 번호 (1부터, 답변의 [1] 과 같음)
+  id: number;
+  title: string;
+  // 발행 기관
+  source: string;
+  section: string;
+  url: string;
+}
+
+export type ChatToolName = 'find_nearest_shelters' | 'get_shelter_details' | 'get_recent_earthquakes';
+
+export interface ChatToolShelter {
+  facilitySerial: number;
+  name: string;
+  address: string | null;
+  capacity: number | null;
+  areaSqm: number | null;
+  lat: number;
+  lon: number;
+  // 검색 기준점에서의 직선거리 (상세 조회는 null)
+  distanceKm: number | null;
+  is24hOpen: boolean;
+  isOpen: boolean;
+  facilities: string[];
+  // 현재 인원 (상세 조회만, 기록이 없으면 null)
+  occupants: number | null;
+}
+
+export interface ChatToolEarthquake {
+  occurredAt: string;
+  location: string;
+  magnitude: number;
+  depthKm: number | null;
+  // 파주시청 기준 예상 진도 (로마 숫자)
+  pajuIntensity: string;
+}
+
+// tool 이벤트 – 도구 조회 결과 (모델에게 주는 값과 같음)
+export interface ChatToolResult {
+  tool: ChatToolName;
+  // find_nearest_shelters 의 검색 기준점
+  origin?: { label: string; lat: number; lon: number };
+  shelters?: ChatToolShelter[];
+  earthquakes?: ChatToolEarthquake[];
+  error?: string;
+}
@@ -0,0 +1,71 @@
+// src/lib/csv.ts
+// 브라우저에서 쓰는 최소 CSV 읽기/쓰기 (RFC 4180: 큰따옴표 필드, 필드 안 쉼표·줄바꿈)
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function escapeField(value: CsvValue): string {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 엑셀에서 한글이 깨지지 않도록 BOM 을 붙인다
+export function toCsv(rows: CsvValue[][]): string {
+  return `\uFEFF${rows.map((r) => r.map(escapeField).join(',')).join('\r\n')}\r\n`;
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 빈 줄 제거
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+export function downloadCsv(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,548 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5"
+  }
+  public: {
+    Tables: {
+      admin_users: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chatbot_conversations: {
+        Row: {
+          bot_response: string
+          created_at: string | null
+          id: string
+          session_id: string
+          sources: Json | null
+          tool_results: Json | null
+          user_id: string | null
+          user_message: string
+        }
+        Insert: {
+          bot_response: string
+          created_at?: string | null
+          id?: string
+          session_id: string
+          sources?: Json | null
+          tool_results?: Json | null
+          user_id?: string | null
+          user_message: string
+        }
+        Update: {
+          bot_response?: string
+          created_at?: string | null
+          id?: string
+          session_id?: string
+          sources?: Json | null
+          tool_results?: Json | null
+          user_id?: string | null
+          user_message?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chatbot_conversations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dataset_versions: {
+        Row: {
+          name: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          name: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          name?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      earthquakerisk_paju: {
+        Row: {
+          computed_at: string
+          factors: Json
+          id: number
+          risk_score: number
+        }
+        Insert: {
+          computed_at?: string
+          factors?: Json
+          id?: never
+          risk_score: number
+        }
+        Update: {
+          computed_at?: string
+          factors?: Json
+          id?: never
+          risk_score?: number
+        }
+        Relationships: []
+      }
+      earthquakes: {
+        Row: {
+          bulletin_id: string | null
+          bulletin_kind: string | null
+          created_at: string | null
+          depth: number | null
+          distance_from_paju: number
+          id: string
+          issued_at: string | null
+          latitude: number | null
+          location: string
+          longitude: number | null
+          magnitude: number
+          occurred_at: string
+          revision: number
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          bulletin_id?: string | null
+          bulletin_kind?: string | null
+          created_at?: string | null
+          depth?: number | null
+          distance_from_paju: number
+          id?: string
+          issued_at?: string | null
+          latitude?: number | null
+          location: string
+          longitude?: number | null
+          magnitude: number
+          occurred_at: string
+          revision?: number
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          bulletin_id?: string | null
+          bulletin_kind?: string | null
+          created_at?: string | null
+          depth?: number | null
+          distance_from_paju?: number
+          id?: string
+          issued_at?: string | null
+          latitude?: number | null
+          location?: string
+          longitude?: number | null
+          magnitude?: number
+          occurred_at?: string
+          revision?: number
+          source?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fault_lines: {
+        Row: {
+          coordinates: Json
+          created_at: string | null
+          id: string
+          name: string
+          risk_level: string
+        }
+        Insert: {
+          coordinates: Json
+          created_at?: string | null
+          id?: string
+          name: string
+          risk_level: string
+        }
+        Update: {
+          coordinates?: Json
+          created_at?: string | null
+          id?: string
+          name?: string
+          risk_level?: string
+        }
+        Relationships: []
+      }
+      region_risk_scores: {
+        Row: {
+          computed_at: string
+          emd_kind: string
+          emd_name: string
+          factors: Json
+          risk_score: number
+        }
+        Insert: {
+          computed_at?: string
+          emd_kind: string
+          emd_name: string
+          factors: Json
+          risk_score: number
+        }
+        Update: {
+          computed_at?: string
+          emd_kind?: string
+          emd_name?: string
+          factors?: Json
+          risk_score?: number
+        }
+        Relationships: []
+      }
+      shelter_checkins: {
+        Row: {
+          delta: number
+          facility_serial: number
+          id: number
+          occupants_after: number
+          recorded_at: string
+          recorded_by: string | null
+        }
+        Insert: {
+          delta: number
+          facility_serial: number
+          id?: never
+          occupants_after: number
+          recorded_at?: string
+          recorded_by?: string | null
+        }
+        Update: {
+          delta?: number
+          facility_serial?: number
+          id?: never
+          occupants_after?: number
+          recorded_at?: string
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shelter_checkins_facility_serial_fkey"
+            columns: ["facility_serial"]
+            isOneToOne: false
+            referencedRelation: "shelter_facilities"
+            referencedColumns: ["facility_serial"]
+          },
+        ]
+      }
+      shelter_facilities: {
+        Row: {
+          area_sqm: number | null
+          capacity: number | null
+          facilities: Json
+          facility_serial: number
+          geog: unknown | null
+          is_24h_open: boolean
+          is_open: boolean
+          lat: number
+          lon: number
+          name: string
+          region_code: number | null
+          road_addr: string | null
+        }
+        Insert: {
+          area_sqm?: number | null
+          capacity?: number | null
+          facilities?: Json
+          facility_serial: number
+          geog?: unknown | null
+          is_24h_open?: boolean
+          is_open?: boolean
+          lat: number
+          lon: number
+          name: string
+          region_code?: number | null
+          road_addr?: string | null
+        }
+        Update: {
+          area_sqm?: number | null
+          capacity?: number | null
+          facilities?: Json
+          facility_serial?: number
+          geog?: unknown | null
+          is_24h_open?: boolean
+          is_open?: boolean
+          lat?: number
+          lon?: number
+          name?: string
+          region_code?: number | null
+          road_addr?: string | null
+        }
+        Relationships: []
+      }
+      shelter_occupancy: {
+        Row: {
+          facility_serial: number
+          occupants: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          facility_serial: number
+          occupants?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          facility_serial?: number
+          occupants?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shelter_occupancy_facility_serial_fkey"
+            columns: ["facility_serial"]
+            isOneToOne: true
+            referencedRelation: "shelter_facilities"
+            referencedColumns: ["facility_serial"]
+          },
+        ]
+      }
+      shelter_staff: {
+        Row: {
+          created_at: string
+          facility_serial: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          facility_serial: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          facility_serial?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shelter_staff_facility_serial_fkey"
+            columns: ["facility_serial"]
+            isOneToOne: false
+            referencedRelation: "shelter_facilities"
+            referencedColumns: ["facility_serial"]
+          },
+        ]
+      }
+      user_searches: {
+        Row: {
+          address: string
+          created_at: string | null
+          id: string
+          latitude: number
+          longitude: number
+          user_id: string | null
+        }
+        Insert: {
+          address: string
+          created_at?: string | null
+          id?: string
+          latitude: number
+          longitude: number
+          user_id?: string | null
+        }
+        Update: {
+          address?: string
+          created_at?: string | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      has_admin_role: {
+        Args: { roles: string[] }
+        Returns: boolean
+      }
+      nearest_shelters: {
+        Args: {
+          include_full?: boolean
+          max_km?: number
+          max_results?: number
+          min_area_sqm?: number
+          min_capacity?: number
+          origin_lat: number
+          origin_lon: number
+          require_24h?: boolean
+          required_facilities?: Json
+        }
+        Returns: {
+          area_sqm: number
+          capacity: number
+          distance_km: number
+          facilities: Json
+          facility_serial: number
+          is_24h_open: boolean
+          lat: number
+          lon: number
+          name: string
+          region_code: number
+          road_addr: string
+        }[]
+      }
+      refresh_earthquake_risk_paju: {
+        Args: never
+        Returns: {
+          computed_at: string
+          factors: Json
+          id: number
+          risk_score: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "earthquakerisk_paju"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      record_shelter_checkin: {
+        Args: { p_delta: number; p_facility_serial: number }
+        Returns: number
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
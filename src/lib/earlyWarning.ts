@@ -0,0 +1,106 @@
+// src/lib/earlyWarning.ts
+// 지진 조기경보 카운트다운
+// - 진앙·발생 시각으로 사용자 위치의 P파/S파 도착 시각 계산 (강한 흔들림 = S파)
+// - 시계(Clock)를 주입할 수 있어 고정 이벤트(src/data/earlyWarningFixture)를 언제든 다시 재생 가능
+// - 경보 수신 상태(realtime)는 earlyWarningStore.ts
+import type { Earthquake } from './supabase';
+import { calcDistanceKm, type LatLon } from './geo';
+import { DEFAULT_DEPTH_KM, estimateIntensity, intensityLevel } from './intensity';
+
+// 지각 평균 전파 속도 (km/s)
+export const P_WAVE_KMS = 6.0;
+export const S_WAVE_KMS = 3.5;
+
+// S파 도착 후 "흔들리는 중"으로 보여주는 시간
+export const SHAKING_WINDOW_MS = 30_000;
+
+// 경보 대상: 규모 4.0 이상이거나 내 위치 예상 진도 IV 이상
+const WARNING_MIN_MAGNITUDE = 4.0;
+const WARNING_MIN_INTENSITY = 4;
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+// 재생용 시계: 만든 순간을 startAt 으로 보고 실제 시간만큼 흘러감
+export function createReplayClock(startAt: number, realClock: Clock = systemClock): Clock {
+  const t0 = realClock.now();
+  return { now: () => startAt + (realClock.now() - t0) };
+}
+
+export interface WarningEvent {
+  id: string;
+  // epoch ms
+  occurredAt: number;
+  lat: number;
+  lon: number;
+  depthKm: number | null;
+  magnitude: number;
+  location: string;
+}
+
+export interface WaveArrivals {
+  epicentralKm: number;
+  hypocentralKm: number;
+  // epoch ms
+  pArrival: number;
+  sArrival: number;
+}
+
+export function waveArrivals(event: WarningEvent, point: LatLon): WaveArrivals {
+  const epicentralKm = calcDistanceKm(point.lat, point.lon, event.lat, event.lon);
+  const hypocentralKm = Math.hypot(epicentralKm, event.depthKm ?? DEFAULT_DEPTH_KM);
+  return {
+    epicentralKm,
+    hypocentralKm,
+    pArrival: event.occurredAt + (hypocentralKm / P_WAVE_KMS) * 1000,
+    sArrival: event.occurredAt + (hypocentralKm / S_WAVE_KMS) * 1000,
+  };
+}
+
+export type WarningPhase = 'before_p' | 'before_s' | 'shaking' | 'ended';
+
+export interface Countdown {
+  phase: WarningPhase;
+  // 남은 초 (지났으면 0)
+  secondsToP: number;
+  secondsToS: number;
+}
+
+export function warningCountdown(arrivals: WaveArrivals, now: number): Countdown {
+  const secondsToP = Math.max(0, (arrivals.pArrival - now) / 1000);
+  const secondsToS = Math.max(0, (arrivals.sArrival - now) / 1000);
+  let phase: WarningPhase;
+  if (now < arrivals.pArrival) phase = 'before_p';
+  else if (now < arrivals.sArrival) phase = 'before_s';
+  else if (now < arrivals.sArrival + SHAKING_WINDOW_MS) phase = 'shaking';
+  else phase = 'ended';
+  return { phase, secondsToP, secondsToS };
+}
+
+// 내 위치 예상 진도 등급
+export function warningIntensity(event: WarningEvent, arrivals: WaveArrivals): number {
+  return intensityLevel(
+    estimateIntensity({ magnitude: event.magnitude, depthKm: event.depthKm, epicentralKm: arrivals.epicentralKm }),
+  );
+}
+
+export function isSignificant(event: WarningEvent, arrivals: WaveArrivals): boolean {
+  return event.magnitude >= WARNING_MIN_MAGNITUDE || warningIntensity(event, arrivals) >= WARNING_MIN_INTENSITY;
+}
+
+// 진앙 좌표가 없는 행은 도착 시각을 계산할 수 없음
+export function toWarningEvent(row: Earthquake): WarningEvent | null {
+  if (row.latitude == null || row.longitude == null) return null;
+  return {
+    id: row.id,
+    occurredAt: Date.parse(row.occurred_at),
+    lat: row.latitude,
+    lon: row.longitude,
+    depthKm: row.depth,
+    magnitude: Number(row.magnitude),
+    location: row.location,
+  };
+}
@@ -0,0 +1,79 @@
+// src/lib/earlyWarningStore.ts
+// 조기경보 수신 상태
+// - earthquakes 테이블 realtime(INSERT/UPDATE)으로 새 통보를 받으면 경보 이벤트로 전환
+// - 재생 모드에서는 고정 이벤트 + 재생용 시계를 쓰고 실제 통보는 무시
+// - 마지막 구독자가 사라지면 채널 해제
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, type Earthquake } from './supabase';
+import { createReplayClock, systemClock, toWarningEvent, type Clock, type WarningEvent } from './earlyWarning';
+
+// 발생 후 이 시간이 지난 통보는 경보로 띄우지 않음 (수집 지연으로 이미 지나간 지진)
+const MAX_EVENT_AGE_MS = 3 * 60_000;
+
+export interface EarlyWarningState {
+  event: WarningEvent | null;
+  clock: Clock;
+  // 고정 이벤트 재생 중
+  replay: boolean;
+}
+
+let state: EarlyWarningState = { event: null, clock: systemClock, replay: false };
+
+const listeners = new Set<() => void>();
+
+function publish(next: Partial<EarlyWarningState>) {
+  state = { ...state, ...next };
+  listeners.forEach((l) => l());
+}
+
+function receive(row: Earthquake) {
+  if (state.replay) return;
+  const event = toWarningEvent(row);
+  if (!event) return;
+  // 같은 지진의 정정 통보면 갱신, 아니면 더 최근 것만
+  const current = state.event;
+  if (current && current.id !== event.id && current.occurredAt > event.occurredAt) return;
+  if (systemClock.now() - event.occurredAt > MAX_EVENT_AGE_MS) return;
+  publish({ event, clock: systemClock });
+}
+
+let channel: RealtimeChannel | null = null;
+
+function start() {
+  channel = supabase
+    .channel('earthquakes_early_warning')
+    .on<Earthquake>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'earthquakes' }, (payload) =>
+      receive(payload.new),
+    )
+    .on<Earthquake>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'earthquakes' }, (payload) =>
+      receive(payload.new),
+    )
+    .subscribe();
+}
+
+function stop() {
+  if (channel) supabase.removeChannel(channel);
+  channel = null;
+}
+
+export function subscribeEarlyWarning(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!channel) start();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+export function getEarlyWarningState(): EarlyWarningState {
+  return state;
+}
+
+// 고정 이벤트를 "발생 후 offsetMs 시점에 경보 수신"한 것처럼 재생
+export function replayEarlyWarning(event: WarningEvent, offsetMs: number, realClock: Clock = systemClock) {
+  publish({ event, clock: createReplayClock(event.occurredAt + offsetMs, realClock), replay: true });
+}
+
+export function dismissEarlyWarning() {
+  publish({ event: null, clock: systemClock, replay: false });
+}
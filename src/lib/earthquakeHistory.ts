@@ -0,0 +1,114 @@
+// src/lib/earthquakeHistory.ts
+// 지진 기록(/history) 조회: 기간·규모·거리 필터, 서버 페이지네이션, 차트용 집계, CSV
+import { supabase, type Earthquake } from './supabase';
+import { toCsv } from './csv';
+
+export interface HistoryFilters {
+  // YYYY-MM-DD (KST, 빈 문자열 = 제한 없음)
+  from: string;
+  to: string;
+  minMagnitude: number | null;
+  maxMagnitude: number | null;
+  maxDistanceKm: number | null;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  from: '',
+  to: '',
+  minMagnitude: null,
+  maxMagnitude: null,
+  maxDistanceKm: null,
+};
+
+// 차트/CSV 에 쓰는 최대 행 수 (넘으면 최근 것부터 자름)
+export const HISTORY_SERIES_LIMIT = 5000;
+
+// supabase 필터 빌더 공통 부분만
+interface FilterableQuery<Q> {
+  gte(column: string, value: string | number): Q;
+  lte(column: string, value: string | number): Q;
+}
+
+function applyFilters<Q extends FilterableQuery<Q>>(query: Q, f: HistoryFilters): Q {
+  let q = query;
+  if (f.from) q = q.gte('occurred_at', `${f.from}T00:00:00+09:00`);
+  if (f.to) q = q.lte('occurred_at', `${f.to}T23:59:59.999+09:00`);
+  if (f.minMagnitude != null) q = q.gte('magnitude', f.minMagnitude);
+  if (f.maxMagnitude != null) q = q.lte('magnitude', f.maxMagnitude);
+  if (f.maxDistanceKm != null) q = q.lte('distance_from_paju', f.maxDistanceKm);
+  return q;
+}
+
+export interface EarthquakePage {
+  rows: Earthquake[];
+  total: number;
+}
+
+// page: 0부터
+export async function fetchEarthquakePage(
+  filters: HistoryFilters,
+  page: number,
+  pageSize: number,
+): Promise<EarthquakePage> {
+  const from = page * pageSize;
+  const { data, count, error } = await applyFilters(
+    supabase.from('earthquakes').select('*', { count: 'exact' }),
+    filters,
+  )
+    .order('occurred_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+  return { rows: data ?? [], total: count ?? 0 };
+}
+
+// 필터에 맞는 전체 (차트, CSV 내보내기)
+export async function fetchEarthquakeSeries(filters: HistoryFilters): Promise<Earthquake[]> {
+  const { data, error } = await applyFilters(supabase.from('earthquakes').select('*'), filters)
+    .order('occurred_at', { ascending: false })
+    .limit(HISTORY_SERIES_LIMIT);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export interface MagnitudeBin {
+  // [min, max)
+  min: number;
+  max: number;
+  count: number;
+}
+
+// 규모 빈도 (binSize 간격, 가장 작은 ~ 가장 큰 규모 구간까지 빈 칸 포함)
+export function magnitudeHistogram(rows: Pick<Earthquake, 'magnitude'>[], binSize = 0.5): MagnitudeBin[] {
+  if (rows.length === 0) return [];
+  const mags = rows.map((r) => Number(r.magnitude));
+  const start = Math.floor(Math.min(...mags) / binSize);
+  const end = Math.floor(Math.max(...mags) / binSize);
+
+  const bins: MagnitudeBin[] = [];
+  for (let i = start; i <= end; i++) {
+    bins.push({ min: i * binSize, max: (i + 1) * binSize, count: 0 });
+  }
+  mags.forEach((m) => bins[Math.floor(m / binSize) - start].count++);
+  return bins;
+}
+
+const CSV_HEADER = ['발생시각', '위치', '규모', '깊이(km)', '파주와의 거리(km)', '위도', '경도', '출처', '통보 revision'];
+
+export function earthquakesToCsv(rows: Earthquake[]): string {
+  return toCsv([
+    CSV_HEADER,
+    ...rows.map((e) => [
+      new Date(e.occurred_at).toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' }),
+      e.location,
+      e.magnitude,
+      e.depth,
+      e.distance_from_paju,
+      e.latitude,
+      e.longitude,
+      e.source,
+      e.revision,
+    ]),
+  ]);
+}
@@ -0,0 +1,41 @@
+// src/lib/geo.ts
+
+export type LatLon = { lat: number; lon: number };
+
+// 하버사인 공식으로 두 점 사이 거리(km) 계산
+export function calcDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// 점에서 선(위경도 꺾은선)까지 최단 거리(km) – 점 주변을 평면으로 근사 (수십 km 이내에서 충분)
+export function distanceToPathKm(point: LatLon, path: LatLon[]): number {
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) return calcDistanceKm(point.lat, point.lon, path[0].lat, path[0].lon);
+
+  const kmPerLat = 111.32;
+  const kmPerLon = 111.32 * Math.cos((point.lat * Math.PI) / 180);
+  const toXY = (p: LatLon) => [(p.lon - point.lon) * kmPerLon, (p.lat - point.lat) * kmPerLat];
+
+  let best = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    const [ax, ay] = toXY(path[i - 1]);
+    const [bx, by] = toXY(path[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const len2 = dx * dx + dy * dy;
+    // 원점(=point)을 선분에 투영
+    const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2));
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+}
@@ -0,0 +1,74 @@
+// src/lib/geocoder/addressIndex.ts
+// 오프라인 주소 색인 파일 형식 + 주소 문자열 정규화
+// (scripts/build-address-index.ts 가 생성, offline.ts 가 사용 – 브라우저/Node 공용이라 DOM 의존 없음)
+
+export const ADDRESS_INDEX_FORMAT_VERSION = 1;
+
+// JSON 파일 구조 – 크기를 줄이기 위해 도로명/읍면동은 문자열 테이블로 분리
+// - entries: [roadIdx, mainNo, subNo, emdIdx, lon, lat, buildingName | null]
+export type AddressEntry = [
+  roadIdx: number,
+  mainNo: number,
+  subNo: number,
+  emdIdx: number,
+  lon: number,
+  lat: number,
+  buildingName: string | null,
+];
+
+export interface AddressIndexFile {
+  format: number;
+  builtAt: string;
+  source: string;
+  roads: string[];
+  emds: string[];
+  entries: AddressEntry[];
+}
+
+// 검색어 앞에 붙는 광역/기초 지자체 이름 (색인은 파주시 안의 주소만 가지고 있음)
+// ("파주시청", "경기대로"처럼 이름의 일부인 경우는 그대로 둔다)
+const REGION_PREFIX = /^(?:(?:경기도|경기)(?=\s|$))?\s*(?:(?:파주시|파주)(?=\s|$))?\s*/;
+
+// 공백/괄호 내용 제거 + 지자체 접두어 제거
+export function normalizeAddress(raw: string): string {
+  return raw
+    .replace(/\(.*?\)/g, ' ')
+    .trim()
+    .replace(REGION_PREFIX, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface ParsedRoadAddress {
+  // 읍/면/동 (예: "금촌동") – 입력에 없으면 null
+  emd: string | null;
+  road: string;
+  mainNo: number;
+  subNo: number;
+}
+
+// "금촌동 금정로 12-3", "시청로 50" 형태 해석 (도로명 + 건물번호가 없으면 null)
+export function parseRoadAddress(raw: string): ParsedRoadAddress | null {
+  const normalized = normalizeAddress(raw);
+  const m = normalized.match(
+    /^(?:(\S+(?:읍|면|동|리))\s+)?(\S+?(?:대로|로|길))\s*(?:지하\s*)?(\d+)(?:\s*-\s*(\d+))?(?:번지)?$/,
+  );
+  if (!m) return null;
+
+  return {
+    emd: m[1] ?? null,
+    road: m[2],
+    mainNo: Number(m[3]),
+    subNo: m[4] ? Number(m[4]) : 0,
+  };
+}
+
+// 검색어 토큰이 결과 주소에 얼마나 들어 있는지 (0~1)
+export function tokenOverlap(query: string, address: string): number {
+  const tokens = normalizeAddress(query).split(' ').filter(Boolean);
+  if (tokens.length === 0) return 0;
+
+  const target = normalizeAddress(address).replace(/\s+/g, '');
+  const hits = tokens.filter((t) => target.includes(t)).length;
+  return hits / tokens.length;
+}
@@ -0,0 +1,74 @@
+// src/lib/geocoder/fixture.ts
+// 고정 결과를 돌려주는 지오코더 – 네트워크 없이 같은 입력에 항상 같은 결과 (테스트/로컬 개발용)
+import { normalizeAddress } from './addressIndex';
+import type { GeocodeCandidate, Geocoder } from './types';
+
+export interface GeocodeFixture {
+  // 이 문자열들 중 하나와 (정규화 후) 같으면 결과 반환
+  queries: string[];
+  lat: number;
+  lon: number;
+  address: string;
+  confidence?: number;
+}
+
+// 파주시 주요 지점 (좌표는 대략값 – 실제 안내용이 아님)
+export const PAJU_GEOCODE_FIXTURES: GeocodeFixture[] = [
+  {
+    queries: ['시청로 50', '파주시청'],
+    lat: 37.75997,
+    lon: 126.78,
+    address: '경기도 파주시 시청로 50',
+  },
+  {
+    queries: ['문산읍 문산역로 75', '문산역로 75', '문산역'],
+    lat: 37.8548,
+    lon: 126.7878,
+    address: '경기도 파주시 문산읍 문산역로 75',
+  },
+  {
+    queries: ['금촌동', '금촌역'],
+    lat: 37.7663,
+    lon: 126.7747,
+    address: '경기도 파주시 금촌동',
+    confidence: 0.7,
+  },
+  {
+    queries: ['운정역'],
+    lat: 37.7255,
+    lon: 126.7671,
+    address: '경기도 파주시 와동동',
+    confidence: 0.7,
+  },
+  // 파주시 밖 좌표 – 경계 판정/재검색 흐름 확인용
+  {
+    queries: ['서울시청'],
+    lat: 37.5663,
+    lon: 126.9779,
+    address: '서울특별시 중구 세종대로 110',
+  },
+];
+
+export function createFixtureGeocoder(fixtures: GeocodeFixture[]): Geocoder {
+  const table = new Map<string, GeocodeCandidate>();
+  for (const f of fixtures) {
+    const candidate: GeocodeCandidate = {
+      lat: f.lat,
+      lon: f.lon,
+      address: f.address,
+      confidence: f.confidence ?? 1,
+      source: 'fixture',
+    };
+    for (const q of f.queries) table.set(normalizeAddress(q), candidate);
+  }
+
+  return {
+    name: 'fixture',
+    async geocode(query) {
+      const hit = table.get(normalizeAddress(query));
+      return hit ? [hit] : [];
+    },
+  };
+}
+
+export const fixtureGeocoder = createFixtureGeocoder(PAJU_GEOCODE_FIXTURES);
@@ -0,0 +1,36 @@
+// src/lib/geocoder/index.ts
+// 지오코더 선택 – VITE_GEOCODER_ORDER (쉼표 구분, 예: "naver,offline") 순서대로 시도
+import { fixtureGeocoder } from './fixture';
+import { naverGeocoder } from './naver';
+import { offlineGeocoder } from './offline';
+import type { Geocoder, GeocoderName } from './types';
+
+export type { GeocodeCandidate, Geocoder, GeocoderName } from './types';
+
+const GEOCODERS: Record<GeocoderName, Geocoder> = {
+  naver: naverGeocoder,
+  offline: offlineGeocoder,
+  fixture: fixtureGeocoder,
+};
+
+// 네이버가 실패하면 오프라인 색인으로
+const DEFAULT_ORDER: GeocoderName[] = ['naver', 'offline'];
+
+export function parseGeocoderOrder(value: string | undefined): GeocoderName[] {
+  if (!value) return DEFAULT_ORDER;
+
+  const names = value
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s): s is GeocoderName => Object.prototype.hasOwnProperty.call(GEOCODERS, s));
+
+  if (names.length === 0) {
+    console.error('[geocoder] VITE_GEOCODER_ORDER has no known geocoder, using default', value);
+    return DEFAULT_ORDER;
+  }
+  return [...new Set(names)];
+}
+
+export function getConfiguredGeocoders(): Geocoder[] {
+  return parseGeocoderOrder(import.meta.env.VITE_GEOCODER_ORDER).map((n) => GEOCODERS[n]);
+}
@@ -0,0 +1,67 @@
+// src/lib/geocoder/naver.ts
+// 네이버 지도 JS SDK(geocoder 서브모듈) 기반 지오코더
+import { loadNaverMap } from '../loadNaverMap';
+import { tokenOverlap } from './addressIndex';
+import type { GeocodeCandidate, Geocoder } from './types';
+
+interface NaverAddress {
+  x: string;
+  y: string;
+  roadAddress?: string;
+  jibunAddress?: string;
+}
+
+interface NaverGeocodeResponse {
+  v2?: { addresses?: NaverAddress[] };
+}
+
+interface NaverService {
+  Status: { OK: unknown };
+  geocode(
+    options: { query: string },
+    callback: (status: unknown, response: NaverGeocodeResponse) => void,
+  ): void;
+}
+
+// 네이버 응답에는 점수가 없으므로 순위 + 검색어 일치도로 신뢰도 계산
+function toCandidate(query: string, result: NaverAddress, rank: number): GeocodeCandidate {
+  const address = result.roadAddress || result.jibunAddress || query;
+  const rankPenalty = Math.min(rank * 0.05, 0.2);
+  return {
+    lat: parseFloat(result.y),
+    lon: parseFloat(result.x),
+    address,
+    confidence: Math.max(0, 0.5 + 0.5 * tokenOverlap(query, address) - rankPenalty),
+    source: 'naver',
+  };
+}
+
+export const naverGeocoder: Geocoder = {
+  name: 'naver',
+
+  async geocode(query) {
+    if (!query.trim()) return [];
+
+    // 스크립트 로드 실패 시 throw → 체인의 다음 지오코더로 넘어감
+    await loadNaverMap();
+    const svc = (window.naver.maps.Service ?? null) as NaverService | null;
+    if (!svc) throw new Error('Naver geocoder submodule is not loaded');
+
+    return new Promise((resolve) => {
+      svc.geocode({ query }, (status, response) => {
+        if (status !== svc.Status.OK) {
+          resolve([]);
+          return;
+        }
+
+        const addresses = response.v2?.addresses ?? [];
+        resolve(
+          addresses
+            .map((a, i) => toCandidate(query, a, i))
+            .filter((c) => Number.isFinite(c.lat) && Number.isFinite(c.lon))
+            .sort((a, b) => b.confidence - a.confidence),
+        );
+      });
+    });
+  },
+};
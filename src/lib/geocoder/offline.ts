@@ -0,0 +1,170 @@
+// src/lib/geocoder/offline.ts
+// 파주시 도로명주소 색인(/data/paju-addresses.json) 기반 지오코더 – 네트워크/네이버 SDK 없이 동작
+// 색인은 scripts/build-address-index.ts 로 도로명주소 위치정보요약DB에서 생성
+// 저장소에는 색인 파일이 없음 – 없으면 geocode 가 throw 해서 "주소 검색을 쓸 수 없음"으로 표시됨
+// (scripts/fixtures/juso 의 표본은 스크립트 확인용, 좌표가 실제와 다르므로 public/ 에 두지 말 것)
+import {
+  ADDRESS_INDEX_FORMAT_VERSION,
+  normalizeAddress,
+  parseRoadAddress,
+  type AddressEntry,
+  type AddressIndexFile,
+} from './addressIndex';
+import type { GeocodeCandidate, Geocoder } from './types';
+
+const INDEX_URL = '/data/paju-addresses.json';
+
+// 건물명 검색 시 최대 후보 수
+const MAX_NAME_MATCHES = 5;
+
+interface LoadedIndex {
+  file: AddressIndexFile;
+  // 도로명 → 해당 도로의 건물 목록
+  byRoad: Map<string, AddressEntry[]>;
+}
+
+let indexPromise: Promise<LoadedIndex> | null = null;
+
+function loadIndex(): Promise<LoadedIndex> {
+  if (indexPromise) return indexPromise;
+
+  indexPromise = (async () => {
+    const res = await fetch(INDEX_URL);
+    if (!res.ok) throw new Error(`address index not available (${res.status})`);
+
+    const file = (await res.json()) as AddressIndexFile;
+    if (file.format !== ADDRESS_INDEX_FORMAT_VERSION) {
+      throw new Error(`unsupported address index format ${file.format}`);
+    }
+
+    const byRoad = new Map<string, AddressEntry[]>();
+    for (const entry of file.entries) {
+      const road = file.roads[entry[0]];
+      const list = byRoad.get(road);
+      if (list) list.push(entry);
+      else byRoad.set(road, [entry]);
+    }
+    return { file, byRoad };
+  })();
+
+  // 실패한 로드는 캐시하지 않음 (다음 검색에서 다시 시도)
+  indexPromise.catch(() => {
+    indexPromise = null;
+  });
+
+  return indexPromise;
+}
+
+// 도로명주소 표기: 읍/면은 주소에 포함, 동은 생략 (예: "경기도 파주시 문산읍 문산역로 75")
+function formatAddress(index: AddressIndexFile, entry: AddressEntry): string {
+  const [roadIdx, mainNo, subNo, emdIdx] = entry;
+  const emd = index.emds[emdIdx] ?? '';
+  const emdPart = /[읍면]$/.test(emd) ? `${emd} ` : '';
+  const number = subNo > 0 ? `${mainNo}-${subNo}` : `${mainNo}`;
+  return `경기도 파주시 ${emdPart}${index.roads[roadIdx]} ${number}`;
+}
+
+function toCandidate(
+  index: AddressIndexFile,
+  entry: AddressEntry,
+  confidence: number,
+): GeocodeCandidate {
+  return {
+    lat: entry[5],
+    lon: entry[4],
+    address: formatAddress(index, entry),
+    confidence,
+    source: 'offline',
+  };
+}
+
+function searchRoadAddress({ file, byRoad }: LoadedIndex, query: string): GeocodeCandidate[] {
+  const parsed = parseRoadAddress(query);
+  if (!parsed) return [];
+
+  const entries = byRoad.get(parsed.road);
+  if (!entries) return [];
+
+  // 입력한 읍/면/동이 색인과 다르면 신뢰도를 조금 낮춤
+  const emdPenalty = (entry: AddressEntry) =>
+    parsed.emd && file.emds[entry[3]] !== parsed.emd ? 0.05 : 0;
+
+  const exact = entries.filter((e) => e[1] === parsed.mainNo && e[2] === parsed.subNo);
+  if (exact.length > 0) {
+    return exact.map((e) => toCandidate(file, e, 1 - emdPenalty(e)));
+  }
+
+  // 같은 본번(부번만 다름) → 같은 건물군일 가능성이 높음
+  const sameMain = entries.filter((e) => e[1] === parsed.mainNo);
+  if (sameMain.length > 0) {
+    return sameMain.map((e) => toCandidate(file, e, 0.85 - emdPenalty(e)));
+  }
+
+  // 같은 도로, 같은 쪽(홀/짝) 건물 중 번호가 가장 가까운 곳
+  const sameSide = entries.filter((e) => e[1] % 2 === parsed.mainNo % 2);
+  const pool = sameSide.length > 0 ? sameSide : entries;
+  const nearest = pool.reduce((best, e) =>
+    Math.abs(e[1] - parsed.mainNo) < Math.abs(best[1] - parsed.mainNo) ? e : best,
+  );
+  return [toCandidate(file, nearest, 0.6 - emdPenalty(nearest))];
+}
+
+function searchBuildingName({ file }: LoadedIndex, query: string): GeocodeCandidate[] {
+  const needle = normalizeAddress(query).replace(/\s+/g, '');
+  if (needle.length < 2) return [];
+
+  const matches: GeocodeCandidate[] = [];
+  for (const entry of file.entries) {
+    const name = entry[6]?.replace(/\s+/g, '');
+    if (!name || !name.includes(needle)) continue;
+    matches.push(toCandidate(file, entry, name === needle ? 0.8 : 0.65));
+  }
+
+  return matches.sort((a, b) => b.confidence - a.confidence).slice(0, MAX_NAME_MATCHES);
+}
+
+// 도로명만 입력한 경우: 해당 도로 건물들의 중심점
+function searchRoadOnly({ file, byRoad }: LoadedIndex, query: string): GeocodeCandidate[] {
+  const entries = byRoad.get(normalizeAddress(query));
+  if (!entries) return [];
+
+  const lat = entries.reduce((sum, e) => sum + e[5], 0) / entries.length;
+  const lon = entries.reduce((sum, e) => sum + e[4], 0) / entries.length;
+  return [
+    {
+      lat,
+      lon,
+      address: `경기도 파주시 ${file.roads[entries[0][0]]}`,
+      confidence: 0.4,
+      source: 'offline',
+    },
+  ];
+}
+
+// 자동완성용 파주시 도로명 목록 (색인이 없으면 빈 배열)
+export async function loadRoadNames(): Promise<string[]> {
+  try {
+    const { file } = await loadIndex();
+    return file.roads;
+  } catch {
+    return [];
+  }
+}
+
+export const offlineGeocoder: Geocoder = {
+  name: 'offline',
+
+  async geocode(query) {
+    if (!query.trim()) return [];
+
+    const index = await loadIndex();
+
+    const byAddress = searchRoadAddress(index, query);
+    if (byAddress.length > 0) return byAddress;
+
+    const byName = searchBuildingName(index, query);
+    if (byName.length > 0) return byName;
+
+    return searchRoadOnly(index, query);
+  },
+};
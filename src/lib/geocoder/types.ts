@@ -0,0 +1,20 @@
+// src/lib/geocoder/types.ts
+// 지오코더 공통 인터페이스 – 구현체: naver(온라인), offline(도로명주소 색인), fixture(고정 결과)
+
+export type GeocoderName = 'naver' | 'offline' | 'fixture';
+
+export interface GeocodeCandidate {
+  lat: number;
+  lon: number;
+  // 결과로 확인된 주소 (도로명 우선)
+  address: string;
+  // 0~1, 검색어와 결과 주소가 얼마나 일치하는지
+  confidence: number;
+  source: GeocoderName;
+}
+
+export interface Geocoder {
+  name: GeocoderName;
+  // 신뢰도 내림차순 후보 목록 (결과 없으면 빈 배열, 서비스 자체를 쓸 수 없으면 throw)
+  geocode(query: string): Promise<GeocodeCandidate[]>;
+}
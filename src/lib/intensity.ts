@@ -0,0 +1,124 @@
+// src/lib/intensity.ts
+// 규모·깊이·진앙거리로 어느 지점의 계기진도(수정 메르칼리 진도, MMI) 추정
+//
+// I = a + b·M − c·log10(R) − d·R
+//   R: 진원거리(km) = √(진앙거리² + 깊이²)
+//   계수는 한반도 지진(2016 경주 M5.8, 2017 포항 M5.4 등)의 기상청 발표 진도에 맞춘 근사값
+//   지반·건물 층수에 따라 실제 진도는 ±1 정도 달라질 수 있음
+import type { Magnitude } from '../data/safetyGuidance';
+import type { Earthquake } from './supabase';
+import { calcDistanceKm, type LatLon } from './geo';
+
+const COEFFICIENTS = { a: 1.0, b: 1.4, c: 2.4, d: 0.002 };
+
+// 깊이를 모를 때 (한반도 지진은 대부분 10~15km)
+export const DEFAULT_DEPTH_KM = 10;
+
+export interface IntensityInput {
+  magnitude: number;
+  depthKm: number | null;
+  epicentralKm: number;
+}
+
+// 연속값 (1 ~ 12)
+export function estimateIntensity({ magnitude, depthKm, epicentralKm }: IntensityInput): number {
+  const { a, b, c, d } = COEFFICIENTS;
+  const depth = depthKm ?? DEFAULT_DEPTH_KM;
+  const r = Math.max(1, Math.hypot(epicentralKm, depth));
+  const mmi = a + b * magnitude - c * Math.log10(r) - d * r;
+  return Math.min(12, Math.max(1, mmi));
+}
+
+// 지진 기록 한 건의 지점 진도 등급 – 진앙 좌표가 없는 예전 행은 저장된 파주와의 거리 사용
+export function earthquakeIntensityAt(
+  eq: Pick<Earthquake, 'magnitude' | 'depth' | 'latitude' | 'longitude' | 'distance_from_paju'>,
+  point: LatLon,
+): number {
+  const epicentralKm =
+    eq.latitude != null && eq.longitude != null
+      ? calcDistanceKm(point.lat, point.lon, eq.latitude, eq.longitude)
+      : Number(eq.distance_from_paju);
+  return intensityLevel(estimateIntensity({ magnitude: Number(eq.magnitude), depthKm: eq.depth, epicentralKm }));
+}
+
+// 진도 등급 (반올림, 1 ~ 12)
+export function intensityLevel(mmi: number): number {
+  return Math.min(12, Math.max(1, Math.round(mmi)));
+}
+
+export interface IntensityClass {
+  roman: string;
+  summary: string;
+  // 기상청 계기진도 설명
+  description: string;
+}
+
+export const INTENSITY_SCALE: IntensityClass[] = [
+  { roman: 'I', summary: '느끼지 못함', description: '대부분 사람들은 느낄 수 없으나, 지진계에는 기록된다.' },
+  { roman: 'II', summary: '소수만 느낌', description: '조용한 상태나 건물 위층에 있는 소수의 사람만 느낀다.' },
+  {
+    roman: 'III',
+    summary: '실내에서 느낌',
+    description: '실내, 특히 건물 위층에 있는 사람이 현저하게 느끼며, 정지하고 있는 차가 약간 흔들린다.',
+  },
+  {
+    roman: 'IV',
+    summary: '많은 사람이 느낌',
+    description: '실내에서 많은 사람이 느끼고, 밤에는 잠에서 깨기도 하며, 그릇과 창문 등이 흔들린다.',
+  },
+  {
+    roman: 'V',
+    summary: '거의 모두 느낌',
+    description: '거의 모든 사람이 진동을 느끼고, 그릇, 창문 등이 깨지기도 하며, 불안정한 물체는 넘어진다.',
+  },
+  {
+    roman: 'VI',
+    summary: '가구가 움직임',
+    description: '모든 사람이 느끼고, 일부 무거운 가구가 움직이며, 벽의 석회가 떨어지기도 한다.',
+  },
+  {
+    roman: 'VII',
+    summary: '건물 일부 피해',
+    description: '일반 건물에 약간의 피해가 발생하며, 부실한 건물에는 상당한 피해가 발생한다.',
+  },
+  {
+    roman: 'VIII',
+    summary: '건물 상당한 피해',
+    description: '일반 건물에 부분적 붕괴 등 상당한 피해가 발생하며, 부실한 건물에는 심각한 피해가 발생한다.',
+  },
+  {
+    roman: 'IX',
+    summary: '건물 붕괴',
+    description: '잘 설계된 건물에도 상당한 피해가 발생하며, 일반 건축물에는 붕괴 등 큰 피해가 발생한다.',
+  },
+  { roman: 'X', summary: '대부분 파괴', description: '대부분의 석조 및 골조 건물이 파괴되고, 기차선로가 휘어진다.' },
+  {
+    roman: 'XI',
+    summary: '구조물 거의 남지 않음',
+    description: '남아있는 구조물이 거의 없으며, 다리가 무너지고, 기차선로가 심각하게 휘어진다.',
+  },
+  {
+    roman: 'XII',
+    summary: '완전 파괴',
+    description: '모든 것이 피해를 입고, 지표면이 심각하게 뒤틀리며, 물체가 공중으로 튀어 오른다.',
+  },
+];
+
+export function intensityClass(level: number): IntensityClass {
+  return INTENSITY_SCALE[intensityLevel(level) - 1];
+}
+
+// 배지 색 (Tailwind)
+export function intensityStyle(level: number): string {
+  if (level >= 7) return 'bg-red-100 text-red-700';
+  if (level >= 5) return 'bg-orange-100 text-orange-700';
+  if (level >= 3) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-gray-100 text-gray-600';
+}
+
+// 진도에 맞는 행동 요령 (IV 이하 실내 대피, V~VI 옥외 대피소, VII 이상 긴급 대피)
+export function scenarioForIntensity(level: number): Magnitude {
+  if (level >= 7) return '5+';
+  if (level >= 5) return '4-5';
+  return '3-4';
+}
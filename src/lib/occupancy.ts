@@ -0,0 +1,168 @@
+// src/lib/occupancy.ts
+// 대피소 실시간 인원 (shelter_occupancy + Supabase Realtime)
+// - 화면에서 구독을 시작하면 realtime 채널 연결 후 전체 행을 한 번 읽고, 이후 변경분만 반영
+// - 마지막 구독자가 사라지면 채널 해제
+// - 인원 기록은 담당 직원만 record_shelter_checkin RPC 로 (테이블 직접 쓰기 불가, 화면은 /admin 의 StaffCheckinPanel)
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Tables } from './database.types';
+
+export type ShelterOccupancy = Pick<
+  Tables<'shelter_occupancy'>,
+  'facility_serial' | 'occupants' | 'updated_at'
+>;
+
+export type CongestionLevel = 'unknown' | 'smooth' | 'normal' | 'crowded' | 'full';
+
+export const CONGESTION_LABELS: Record<CongestionLevel, string> = {
+  unknown: '정보 없음',
+  smooth: '원활',
+  normal: '보통',
+  crowded: '혼잡',
+  full: '만원',
+};
+
+// 카드 배경/글자 색 (Tailwind)
+export const CONGESTION_STYLES: Record<CongestionLevel, { bg: string; text: string }> = {
+  unknown: { bg: 'bg-gray-50', text: 'text-gray-500' },
+  smooth: { bg: 'bg-green-50', text: 'text-green-600' },
+  normal: { bg: 'bg-yellow-50', text: 'text-yellow-600' },
+  crowded: { bg: 'bg-orange-50', text: 'text-orange-600' },
+  full: { bg: 'bg-red-50', text: 'text-red-600' },
+};
+
+// 수용 인원 대비 비율 기준
+const NORMAL_RATIO = 0.5;
+const CROWDED_RATIO = 0.8;
+
+// 집계 행이 없거나 수용 인원을 모르면 판단 불가
+export function congestionLevel(
+  occupancy: ShelterOccupancy | undefined,
+  capacity: number | null,
+): CongestionLevel {
+  if (!occupancy || capacity == null || capacity <= 0) return 'unknown';
+  const ratio = occupancy.occupants / capacity;
+  if (ratio >= 1) return 'full';
+  if (ratio >= CROWDED_RATIO) return 'crowded';
+  if (ratio >= NORMAL_RATIO) return 'normal';
+  return 'smooth';
+}
+
+export interface OccupancyState {
+  bySerial: Map<number, ShelterOccupancy>;
+  status: 'idle' | 'loading' | 'live' | 'error';
+}
+
+let state: OccupancyState = { bySerial: new Map(), status: 'idle' };
+
+const listeners = new Set<() => void>();
+
+function publish(next: Partial<OccupancyState>) {
+  state = { ...state, ...next };
+  listeners.forEach((l) => l());
+}
+
+// useSyncExternalStore 가 변경을 감지하도록 Map 은 항상 새로 만든다
+function applyRows(rows: ShelterOccupancy[], replace: boolean) {
+  const bySerial = replace ? new Map<number, ShelterOccupancy>() : new Map(state.bySerial);
+  rows.forEach((r) =>
+    bySerial.set(r.facility_serial, {
+      facility_serial: r.facility_serial,
+      occupants: r.occupants,
+      updated_at: r.updated_at,
+    }),
+  );
+  publish({ bySerial });
+}
+
+function removeRow(serial: number) {
+  const bySerial = new Map(state.bySerial);
+  bySerial.delete(serial);
+  publish({ bySerial });
+}
+
+async function loadAll() {
+  const { data, error } = await supabase
+    .from('shelter_occupancy')
+    .select('facility_serial,occupants,updated_at');
+
+  if (error) {
+    console.error('[occupancy] load failed', error);
+    publish({ status: 'error' });
+    return;
+  }
+  applyRows(data ?? [], true);
+  publish({ status: 'live' });
+}
+
+let channel: RealtimeChannel | null = null;
+
+function start() {
+  publish({ status: 'loading' });
+  channel = supabase
+    .channel('shelter_occupancy')
+    .on<Tables<'shelter_occupancy'>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'shelter_occupancy' },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old.facility_serial != null) removeRow(payload.old.facility_serial);
+          return;
+        }
+        applyRows([payload.new], false);
+      },
+    )
+    .subscribe((status) => {
+      // 구독이 열린 뒤 전체를 읽어야 그 사이 변경을 놓치지 않음 (재연결 시에도 다시 읽음)
+      if (status === 'SUBSCRIBED') {
+        loadAll();
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        publish({ status: 'error' });
+      }
+    });
+}
+
+function stop() {
+  if (channel) supabase.removeChannel(channel);
+  channel = null;
+  publish({ status: 'idle' });
+}
+
+export function subscribeOccupancy(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!channel) start();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+export function getOccupancyState(): OccupancyState {
+  return state;
+}
+
+// 현재 알고 있는 인원 기준 만원 여부 (집계가 없으면 만원 아님)
+export function isShelterFull(serial: number, capacity: number | null): boolean {
+  return congestionLevel(state.bySerial.get(serial), capacity) === 'full';
+}
+
+// 담당 직원 입실(+n) / 퇴실(-n) 기록 → 갱신된 현재 인원
+export async function recordCheckin(serial: number, delta: number): Promise<number> {
+  const { data, error } = await supabase.rpc('record_shelter_checkin', {
+    p_facility_serial: serial,
+    p_delta: delta,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// 로그인한 사용자가 담당 직원으로 지정된 대피소 일련번호 (RLS: 본인 행만 보임)
+export async function fetchStaffAssignments(userId: string): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('shelter_staff')
+    .select('facility_serial')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data ?? []).map((r) => r.facility_serial);
+}
@@ -0,0 +1,73 @@
+// src/lib/offlineStore.ts
+// IndexedDB에 데이터셋 스냅샷을 저장/조회하는 최소 래퍼
+// - 데이터셋 하나 = 레코드 하나 (name 키)
+// - version: 서버 dataset_versions 의 버전 스탬프 (알 수 없으면 null)
+
+const DB_NAME = 'paju-shelter';
+const DB_VERSION = 1;
+const STORE = 'datasets';
+
+export interface DatasetSnapshot<T> {
+  name: string;
+  version: number | null;
+  syncedAt: string; // ISO 시각
+  rows: T[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'name' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+  // 실패한 open은 다음 호출에서 다시 시도
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+export async function readDataset<T>(name: string): Promise<DatasetSnapshot<T> | null> {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const req = db.transaction(STORE, 'readonly').objectStore(STORE).get(name);
+      req.onsuccess = () => resolve((req.result as DatasetSnapshot<T> | undefined) ?? null);
+      req.onerror = () => reject(req.error);
+    });
+  } catch (e) {
+    console.error('[offlineStore] read error', e);
+    return null;
+  }
+}
+
+export async function writeDataset<T>(snapshot: DatasetSnapshot<T>): Promise<void> {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(snapshot);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.error('[offlineStore] write error', e);
+  }
+}
@@ -0,0 +1,79 @@
+// src/lib/pajuBoundary.ts
+import boundaryData from '../data/pajuBoundary.json';
+
+// 파주시 행정경계(GeoJSON) 기반 위치 판별
+// - src/data/pajuBoundary.json: 파주시 외곽 1개 + 읍/면/동 폴리곤
+// - 좌표 순서는 GeoJSON 표준대로 [lon, lat]
+
+export type EmdKind = '시' | '읍' | '면' | '동';
+
+type Ring = [number, number][];
+
+interface BoundaryFeature {
+  type: 'Feature';
+  properties: { name: string; kind: EmdKind };
+  geometry: { type: 'Polygon'; coordinates: Ring[] };
+}
+
+interface BoundaryCollection {
+  type: 'FeatureCollection';
+  features: BoundaryFeature[];
+}
+
+export interface EmdArea {
+  name: string;
+  kind: EmdKind;
+  // [lon, lat] 링 목록 (첫 번째가 외곽, 나머지는 구멍)
+  rings: Ring[];
+}
+
+const collection = boundaryData as unknown as BoundaryCollection;
+
+const cityFeature = collection.features.find((f) => f.properties.kind === '시');
+if (!cityFeature) {
+  throw new Error('pajuBoundary.json에 파주시 외곽 경계가 없습니다.');
+}
+
+const CITY_RINGS: Ring[] = cityFeature.geometry.coordinates;
+
+// 파주시 전체 외곽 (지도에 시 경계를 그릴 때 사용)
+export const CITY_AREA: EmdArea = { name: '파주시', kind: '시', rings: CITY_RINGS };
+
+export const EMD_AREAS: EmdArea[] = collection.features
+  .filter((f) => f.properties.kind !== '시')
+  .map((f) => ({
+    name: f.properties.name,
+    kind: f.properties.kind,
+    rings: f.geometry.coordinates,
+  }));
+
+// ray casting: 점에서 오른쪽으로 반직선을 그어 교차 횟수로 내부 여부 판단
+function pointInRing(lat: number, lon: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses =
+      yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// 외곽 링 안에 있고 구멍(나머지 링)에는 없을 때 폴리곤 내부
+export function pointInPolygon(lat: number, lon: number, rings: Ring[]): boolean {
+  if (rings.length === 0) return false;
+  if (!pointInRing(lat, lon, rings[0])) return false;
+  return !rings.slice(1).some((hole) => pointInRing(lat, lon, hole));
+}
+
+// 좌표가 파주시 행정경계 안인지 확인
+export function isInPaju(lat: number, lon: number): boolean {
+  return pointInPolygon(lat, lon, CITY_RINGS);
+}
+
+// 좌표가 속한 읍/면/동 (파주시 밖이면 null)
+export function findEmd(lat: number, lon: number): EmdArea | null {
+  if (!isInPaju(lat, lon)) return null;
+  return EMD_AREAS.find((area) => pointInPolygon(lat, lon, area.rings)) ?? null;
+}
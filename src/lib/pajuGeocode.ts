@@ -0,0 +1,85 @@
+// src/lib/pajuGeocode.ts
+import { getConfiguredGeocoders, type GeocodeCandidate, type Geocoder } from './geocoder';
+import { findEmd, isInPaju, type EmdArea } from './pajuBoundary';
+
+export interface PajuGeocodeResult {
+  point: { lat: number; lon: number };
+  usedQuery: string;
+  // 좌표가 속한 읍/면/동 (경계 데이터 틈새에 걸리면 null)
+  emd: EmdArea | null;
+  // 채택된 후보 (주소/신뢰도/지오코더)
+  best: GeocodeCandidate;
+  // 같은 검색에서 나온 파주시 안의 후보들 (신뢰도 내림차순)
+  candidates: GeocodeCandidate[];
+}
+
+// 설정된 지오코더가 모두 오류로 실패 (네트워크 없음, 오프라인 색인 없음 등) – "결과 없음"과 구분
+export class GeocodeUnavailableError extends Error {
+  constructor() {
+    super('no geocoder is available');
+    this.name = 'GeocodeUnavailableError';
+  }
+}
+
+// 지오코딩 결과 중 파주시 경계 안의 후보만 결과로 인정
+async function geocodeInPaju(
+  geocoder: Geocoder,
+  query: string,
+): Promise<PajuGeocodeResult | null> {
+  const candidates = (await geocoder.geocode(query))
+    .filter((c) => isInPaju(c.lat, c.lon))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const best = candidates[0];
+  if (!best) return null;
+
+  return {
+    point: { lat: best.lat, lon: best.lon },
+    usedQuery: query,
+    emd: findEmd(best.lat, best.lon),
+    best,
+    candidates,
+  };
+}
+
+// 한 지오코더로 "입력 그대로 → 파주가 아니면 파주시 붙여서 다시 검색"
+async function geocodeWithFallbackQuery(
+  geocoder: Geocoder,
+  cleanQuery: string,
+): Promise<PajuGeocodeResult | null> {
+  // 1차: 사용자가 입력한 그대로
+  const first = await geocodeInPaju(geocoder, cleanQuery);
+  if (first) return first;
+
+  // 이미 "파주"가 들어가 있으면 더 붙이지 않고 종료
+  if (cleanQuery.includes('파주')) return null;
+
+  // 2차: "파주시 "를 붙여서 재검색
+  return geocodeInPaju(geocoder, `파주시 ${cleanQuery}`);
+}
+
+// 설정된 지오코더를 순서대로 시도 (앞 지오코더가 실패하거나 파주시 결과가 없으면 다음으로)
+// 모든 지오코더가 오류면 GeocodeUnavailableError
+export async function geocodeWithPajuFallback(
+  rawQuery: string,
+  geocoders: Geocoder[] = getConfiguredGeocoders(),
+): Promise<PajuGeocodeResult | null> {
+  const cleanQuery = rawQuery.trim();
+  if (!cleanQuery) return null;
+
+  let failed = 0;
+  for (const geocoder of geocoders) {
+    try {
+      const result = await geocodeWithFallbackQuery(geocoder, cleanQuery);
+      if (result) return result;
+    } catch (e) {
+      failed++;
+      console.error(`[geocodeWithPajuFallback] ${geocoder.name} geocoder error`, e);
+    }
+  }
+
+  if (geocoders.length > 0 && failed === geocoders.length) throw new GeocodeUnavailableError();
+
+  // 어느 지오코더에서도 파주시 좌표를 찾지 못함
+  return null;
+}
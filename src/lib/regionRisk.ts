@@ -0,0 +1,64 @@
+// src/lib/regionRisk.ts
+// 읍/면/동별 지진 위험도 조회 (region_risk_scores, scripts/compute-region-risk 로 계산)
+import { supabase } from './supabase';
+import type { Json } from './database.types';
+import {
+  REGION_RISK_FACTOR_KEYS,
+  type RegionRiskFactor,
+  type RegionRiskFactorKey,
+} from './regionRiskModel';
+
+export interface RegionRisk {
+  emdName: string;
+  score: number;
+  computedAt: string;
+  // 저장된 근거를 읽지 못하면 null
+  factors: Record<RegionRiskFactorKey, RegionRiskFactor> | null;
+}
+
+function isObject(value: Json | undefined): value is { [key: string]: Json | undefined } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function parseRegionRiskFactors(raw: Json): Record<RegionRiskFactorKey, RegionRiskFactor> | null {
+  if (!isObject(raw)) return null;
+  const factors = {} as Record<RegionRiskFactorKey, RegionRiskFactor>;
+  for (const key of REGION_RISK_FACTOR_KEYS) {
+    const f = raw[key];
+    if (!isObject(f) || typeof f.weight !== 'number') return null;
+    factors[key] = {
+      score: typeof f.score === 'number' ? f.score : null,
+      weight: f.weight,
+      detail: typeof f.detail === 'string' ? f.detail : '',
+    };
+  }
+  return factors;
+}
+
+// 화면 전환마다 다시 받지 않도록 한 번만 조회 (하루 한 번 정도 다시 계산되는 값)
+let risksPromise: Promise<Map<string, RegionRisk>> | null = null;
+
+export function fetchRegionRisks(): Promise<Map<string, RegionRisk>> {
+  if (risksPromise) return risksPromise;
+
+  risksPromise = (async () => {
+    const { data, error } = await supabase.from('region_risk_scores').select('emd_name,risk_score,factors,computed_at');
+    if (error) throw error;
+    return new Map(
+      (data ?? []).map((r) => [
+        r.emd_name,
+        {
+          emdName: r.emd_name,
+          score: Number(r.risk_score),
+          computedAt: r.computed_at,
+          factors: parseRegionRiskFactors(r.factors),
+        },
+      ]),
+    );
+  })();
+  // 실패하면 다음 호출 때 다시 시도
+  risksPromise.catch(() => {
+    risksPromise = null;
+  });
+  return risksPromise;
+}
@@ -0,0 +1,189 @@
+// src/lib/regionRiskModel.ts
+// 읍/면/동별 지진 위험도 계산식 (DB/네트워크 없음 – scripts/compute-region-risk 와 화면 설명에서 공용)
+//
+// 위험도 = Σ 가중치 × 요인 점수 (각 요인 0 ~ 1, 자료가 없는 요인은 빼고 가중치를 다시 나눔)
+// - 단층 근접도: 단층선마다 등급 가중치(높음 1.0 / 보통 0.6 / 낮음 0.3) × e^(-거리/20km) 중 최댓값
+// - 과거 지진 밀도: Σ 10^(규모-3) × e^(-거리/50km) ÷ 기간(년), 최대 1
+// - 노후 건축물 비율: (1988년 이전 + 0.5 × 1988~2005년) ÷ 전체 건축물
+//   (1988년 내진설계 의무화, 2005년 3층 이상으로 확대)
+// - 지반 증폭: 지반분류 S1(암반) 0 ~ S5(연약 지반) 1
+import { calcDistanceKm, distanceToPathKm, type LatLon } from './geo';
+
+export const REGION_RISK_WEIGHTS = {
+  fault: 0.35,
+  seismic: 0.25,
+  building: 0.25,
+  soil: 0.15,
+} as const;
+
+export type RegionRiskFactorKey = keyof typeof REGION_RISK_WEIGHTS;
+
+export const REGION_RISK_FACTOR_KEYS = Object.keys(REGION_RISK_WEIGHTS) as RegionRiskFactorKey[];
+
+export const REGION_RISK_FACTOR_LABELS: Record<RegionRiskFactorKey, string> = {
+  fault: '단층 근접도',
+  seismic: '과거 지진 밀도',
+  building: '노후 건축물 비율',
+  soil: '지반 증폭',
+};
+
+// fault_lines.risk_level 별 가중치 (seismicRisk 의 FaultRiskLevel 과 같은 값)
+export const FAULT_LEVEL_WEIGHTS = {
+  high: 1.0,
+  medium: 0.6,
+  low: 0.3,
+} as const;
+
+export type FaultRiskLevel = keyof typeof FAULT_LEVEL_WEIGHTS;
+
+export type SoilClass = 'S1' | 'S2' | 'S3' | 'S4' | 'S5';
+
+// KDS 17 10 00 지반분류
+export const SOIL_CLASSES: Record<SoilClass, { label: string; amplification: number }> = {
+  S1: { label: '암반 지반', amplification: 0 },
+  S2: { label: '얕고 단단한 지반', amplification: 0.25 },
+  S3: { label: '얕고 연약한 지반', amplification: 0.5 },
+  S4: { label: '깊고 단단한 지반', amplification: 0.75 },
+  S5: { label: '깊고 연약한 지반', amplification: 1 },
+};
+
+export function isSoilClass(value: string): value is SoilClass {
+  return value in SOIL_CLASSES;
+}
+
+const FAULT_DECAY_KM = 20;
+const QUAKE_DECAY_KM = 50;
+
+export interface RiskFault {
+  name: string;
+  riskLevel: FaultRiskLevel;
+  path: LatLon[];
+}
+
+export interface RiskQuake {
+  lat: number;
+  lon: number;
+  magnitude: number;
+}
+
+export interface BuildingAgeStats {
+  total: number;
+  before1988: number;
+  from1988To2005: number;
+}
+
+export interface RegionRiskInputs {
+  // 읍/면/동 대표 지점 (중심)
+  point: LatLon;
+  faults: RiskFault[];
+  quakes: RiskQuake[];
+  // quakes 가 포함하는 기간
+  years: number;
+  buildings: BuildingAgeStats | null;
+  soilClass: SoilClass | null;
+}
+
+export interface RegionRiskFactor {
+  // null: 자료 없음 (가중치 재분배)
+  score: number | null;
+  weight: number;
+  detail: string;
+}
+
+export interface RegionRiskResult {
+  score: number;
+  factors: Record<RegionRiskFactorKey, RegionRiskFactor>;
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function faultFactor(point: LatLon, faults: RiskFault[]): Omit<RegionRiskFactor, 'weight'> {
+  let best: { fault: RiskFault; distance: number; score: number } | null = null;
+  for (const fault of faults) {
+    const distance = distanceToPathKm(point, fault.path);
+    const score = FAULT_LEVEL_WEIGHTS[fault.riskLevel] * Math.exp(-distance / FAULT_DECAY_KM);
+    if (!best || score > best.score) best = { fault, distance, score };
+  }
+  if (!best) return { score: null, detail: '단층 자료 없음' };
+  return {
+    score: round3(best.score),
+    detail: `${best.fault.name} ${best.distance.toFixed(1)}km`,
+  };
+}
+
+function seismicFactor(point: LatLon, quakes: RiskQuake[], years: number): Omit<RegionRiskFactor, 'weight'> {
+  let sum = 0;
+  let nearby = 0;
+  for (const q of quakes) {
+    const d = calcDistanceKm(point.lat, point.lon, q.lat, q.lon);
+    if (d <= 2 * QUAKE_DECAY_KM) nearby++;
+    sum += 10 ** (q.magnitude - 3) * Math.exp(-d / QUAKE_DECAY_KM);
+  }
+  return {
+    score: round3(Math.min(1, sum / Math.max(years, 1))),
+    detail: `최근 ${years}년 ${2 * QUAKE_DECAY_KM}km 이내 ${nearby}건`,
+  };
+}
+
+function buildingFactor(stats: BuildingAgeStats | null): Omit<RegionRiskFactor, 'weight'> {
+  if (!stats || stats.total <= 0) return { score: null, detail: '건축물 자료 없음' };
+  const old = stats.before1988 / stats.total;
+  const mid = stats.from1988To2005 / stats.total;
+  return {
+    score: round3(Math.min(1, old + 0.5 * mid)),
+    detail: `1988년 이전 ${Math.round(old * 100)}% · 1988~2005년 ${Math.round(mid * 100)}%`,
+  };
+}
+
+function soilFactor(soilClass: SoilClass | null): Omit<RegionRiskFactor, 'weight'> {
+  if (!soilClass) return { score: null, detail: '지반 자료 없음' };
+  const { label, amplification } = SOIL_CLASSES[soilClass];
+  return { score: amplification, detail: `${soilClass} (${label})` };
+}
+
+export function computeRegionRisk(inputs: RegionRiskInputs): RegionRiskResult {
+  const partial = {
+    fault: faultFactor(inputs.point, inputs.faults),
+    seismic: seismicFactor(inputs.point, inputs.quakes, inputs.years),
+    building: buildingFactor(inputs.buildings),
+    soil: soilFactor(inputs.soilClass),
+  };
+
+  // 자료가 있는 요인끼리 가중치 합이 1이 되도록
+  const available = REGION_RISK_FACTOR_KEYS.filter((k) => partial[k].score != null);
+  const weightSum = available.reduce((sum, k) => sum + REGION_RISK_WEIGHTS[k], 0);
+
+  const factors = {} as Record<RegionRiskFactorKey, RegionRiskFactor>;
+  let score = 0;
+  for (const k of REGION_RISK_FACTOR_KEYS) {
+    const f = partial[k];
+    const weight = f.score != null && weightSum > 0 ? round3(REGION_RISK_WEIGHTS[k] / weightSum) : 0;
+    factors[k] = { ...f, weight };
+    if (f.score != null) score += weight * f.score;
+  }
+
+  return { score: round3(score), factors };
+}
+
+// 다각형 링([lon, lat])의 면적 중심 (읍/면/동 대표 지점)
+export function ringCentroid(ring: [number, number][]): LatLon {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x0, y0] = ring[j];
+    const [x1, y1] = ring[i];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  if (area === 0) {
+    const n = ring.length || 1;
+    return {
+      lat: ring.reduce((s, p) => s + p[1], 0) / n,
+      lon: ring.reduce((s, p) => s + p[0], 0) / n,
+    };
+  }
+  return { lat: cy / (3 * area), lon: cx / (3 * area) };
+}
@@ -0,0 +1,221 @@
+// src/lib/regions.ts
+// 파주시 법정동 코드(region_code) 기반 행정구역 검색
+// - src/data/pajuRegions.json: 시 → 읍/면/동 → 리 법정동 코드 (scripts/build-region-codes.ts 로 갱신)
+// - 행정동(금촌1동, 운정2동 등)은 법정동 코드가 없으므로 구성 법정동 목록으로 변환
+import regionData from '../data/pajuRegions.json';
+import { CITY_AREA, EMD_AREAS, pointInPolygon, type EmdArea } from './pajuBoundary';
+
+export type RegionLevel = 'si' | 'eupmyeon' | 'dong' | 'ri';
+
+export interface RegionCode {
+  // 10자리 법정동 코드
+  code: string;
+  name: string;
+  level: RegionLevel;
+  parent: string | null;
+}
+
+interface RegionFile {
+  source: string;
+  builtAt: string;
+  regions: RegionCode[];
+}
+
+export const PAJU_REGIONS: RegionCode[] = (regionData as RegionFile).regions;
+
+const BY_CODE = new Map(PAJU_REGIONS.map((r) => [r.code, r]));
+
+// 행정동 → 구성 법정동 (partial: 여러 행정동에 나뉘어 걸친 법정동 → 경계 폴리곤으로 한 번 더 판별)
+interface AdminDong {
+  name: string;
+  legal: string[];
+  partial: string[];
+}
+
+const ADMIN_DONGS: AdminDong[] = [
+  { name: '금촌1동', legal: ['금촌동', '아동동', '야동동'], partial: ['금촌동'] },
+  { name: '금촌2동', legal: ['금촌동', '검산동', '맥금동'], partial: ['금촌동'] },
+  { name: '금촌3동', legal: ['금촌동', '금릉동'], partial: ['금촌동'] },
+  {
+    name: '교하동',
+    legal: ['교하동', '오도동', '상지석동', '하지석동', '산남동', '서패동', '신촌동', '송촌동', '연다산동', '문발동'],
+    partial: [],
+  },
+  { name: '운정1동', legal: ['와동동', '목동동'], partial: ['목동동'] },
+  { name: '운정2동', legal: ['야당동', '다율동'], partial: [] },
+  { name: '운정3동', legal: ['동패동', '당하동', '목동동'], partial: ['목동동'] },
+];
+
+// 별칭 → 정식 이름 (행정동 묶음은 이름 목록)
+const ALIASES = new Map<string, string[]>([
+  ['파주', ['파주시']],
+  ['금촌', ['금촌1동', '금촌2동', '금촌3동']],
+  ['운정', ['운정1동', '운정2동', '운정3동']],
+  ['운정신도시', ['운정1동', '운정2동', '운정3동']],
+  ['교하', ['교하동']],
+  // 2019년 읍 승격 전 이름
+  ['조리면', ['조리읍']],
+]);
+
+export interface RegionMatch {
+  label: string;
+  // 이 접두어로 시작하는 region_code 면 해당 지역
+  codePrefixes: string[];
+  // 폴리곤으로 한 번 더 걸러야 하는 법정동 코드
+  splitCodes: string[];
+  // 지도에 그릴 경계 (없으면 빈 배열)
+  outlines: EmdArea[];
+  // 하위 지역 (읍/면 → 리)
+  children: RegionCode[];
+}
+
+// 법정동 코드에서 하위 지역까지 포함하는 접두어
+function codePrefix(region: RegionCode): string {
+  if (region.level === 'si') return region.code.slice(0, 5);
+  if (region.level === 'eupmyeon') return region.code.slice(0, 8);
+  return region.code;
+}
+
+export function regionByCode(code: string | number): RegionCode | null {
+  return BY_CODE.get(String(code)) ?? null;
+}
+
+export function childRegions(code: string): RegionCode[] {
+  return PAJU_REGIONS.filter((r) => r.parent === code);
+}
+
+function findArea(name: string): EmdArea | null {
+  return EMD_AREAS.find((a) => a.name === name) ?? null;
+}
+
+function areaList(area: EmdArea | null): EmdArea[] {
+  return area ? [area] : [];
+}
+
+function legalByName(name: string, parentCode?: string): RegionCode | null {
+  return (
+    PAJU_REGIONS.find((r) => r.name === name && (!parentCode || r.parent === parentCode)) ?? null
+  );
+}
+
+function matchAdminDong(dong: AdminDong): RegionMatch {
+  const legal = dong.legal.map((n) => legalByName(n)).filter((r): r is RegionCode => !!r);
+  const partial = new Set(dong.partial);
+  return {
+    label: dong.name,
+    codePrefixes: legal.map(codePrefix),
+    splitCodes: legal.filter((r) => partial.has(r.name)).map((r) => r.code),
+    outlines: areaList(findArea(dong.name)),
+    children: legal,
+  };
+}
+
+function matchLegal(region: RegionCode): RegionMatch {
+  let outline: EmdArea | null;
+  let label = region.name;
+  if (region.level === 'si') {
+    outline = CITY_AREA;
+  } else if (region.level === 'ri') {
+    // 리 경계는 없으므로 상위 읍/면 경계
+    const parent = region.parent ? regionByCode(region.parent) : null;
+    outline = parent ? findArea(parent.name) : null;
+    if (parent) label = `${parent.name} ${region.name}`;
+  } else {
+    // 법정동은 자신을 포함하는 행정동 경계
+    const admin = ADMIN_DONGS.find((d) => d.legal.includes(region.name));
+    outline = findArea(region.name) ?? (admin ? findArea(admin.name) : null);
+  }
+
+  return {
+    label,
+    codePrefixes: [codePrefix(region)],
+    splitCodes: [],
+    outlines: areaList(outline),
+    children: region.level === 'si' ? [] : childRegions(region.code),
+  };
+}
+
+// 여러 행정동을 묶은 별칭 (금촌 → 금촌1~3동)
+function mergeMatches(label: string, matches: RegionMatch[]): RegionMatch {
+  return {
+    label,
+    codePrefixes: [...new Set(matches.flatMap((m) => m.codePrefixes))],
+    // 묶음 전체를 포함하면 나뉜 법정동도 통째로 포함
+    splitCodes: [],
+    outlines: matches.flatMap((m) => m.outlines),
+    children: [...new Map(matches.flatMap((m) => m.children).map((r) => [r.code, r])).values()],
+  };
+}
+
+function resolveName(name: string, parentCode?: string): RegionMatch | null {
+  // 같은 이름이면 행정동 우선 (예: 교하동)
+  const admin = ADMIN_DONGS.find((d) => d.name === name);
+  if (admin && !parentCode) return matchAdminDong(admin);
+
+  const legal = legalByName(name, parentCode);
+  return legal ? matchLegal(legal) : null;
+}
+
+// "금촌동", "파주시 문산읍", "문산읍 선유리", "운정" 등 → 지역 (모르는 이름이면 null)
+export function resolveRegion(query: string): RegionMatch | null {
+  const tokens = query
+    .trim()
+    .replace(/^(경기도|경기)\s+/, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // "파주시 금촌동" → "금촌동" (파주시 단독 검색은 유지)
+  if (tokens.length > 1 && (tokens[0] === '파주시' || tokens[0] === '파주')) tokens.shift();
+  if (tokens.length === 0 || tokens.length > 2) return null;
+
+  // "문산읍 선유리": 상위 지역 아래에서 하위 이름 찾기
+  if (tokens.length === 2) {
+    const parent = legalByName(tokens[0]);
+    if (!parent) return null;
+    return resolveName(tokens[1], parent.code);
+  }
+
+  const [name] = tokens;
+  const direct = resolveName(name);
+  if (direct) return direct;
+
+  const alias = ALIASES.get(name);
+  if (alias) {
+    const matches = alias.map((n) => resolveName(n)).filter((m): m is RegionMatch => !!m);
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) return mergeMatches(name, matches);
+  }
+
+  // 접미어 생략 ("문산" → 문산읍, "야당" → 야당동)
+  const bySuffix = PAJU_REGIONS.filter(
+    (r) => (r.level === 'eupmyeon' || r.level === 'dong') && r.name.slice(0, -1) === name,
+  );
+  return bySuffix.length === 1 ? matchLegal(bySuffix[0]) : null;
+}
+
+// 지역 판별에 필요한 대피소 필드 (스크립트에서도 쓸 수 있도록 Shelter 전체에 의존하지 않음)
+type LocatedRow = {
+  region_code: number | null;
+  road_addr: string | null;
+  lat: number;
+  lon: number;
+};
+
+function inOutlines(shelter: LocatedRow, match: RegionMatch): boolean {
+  return match.outlines.some((a) => pointInPolygon(shelter.lat, shelter.lon, a.rings));
+}
+
+export function shelterInRegion(shelter: LocatedRow, match: RegionMatch): boolean {
+  if (shelter.region_code != null) {
+    const code = String(shelter.region_code);
+    if (!match.codePrefixes.some((p) => code.startsWith(p))) return false;
+    if (match.splitCodes.includes(code) && match.outlines.length > 0) {
+      return inOutlines(shelter, match);
+    }
+    return true;
+  }
+
+  // region_code 가 비어 있는 행: 경계 폴리곤 → 주소 문자열 순으로 판별
+  if (match.outlines.length > 0) return inOutlines(shelter, match);
+  return (shelter.road_addr ?? '').includes(match.label);
+}
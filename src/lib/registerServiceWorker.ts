@@ -0,0 +1,13 @@
+// src/lib/registerServiceWorker.ts
+
+// 프로덕션 빌드에서만 서비스 워커 등록 (개발 서버의 HMR 요청과 충돌 방지)
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD) return;
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('[registerServiceWorker] registration failed', err);
+    });
+  });
+}
@@ -0,0 +1,55 @@
+// src/lib/roadGraph.ts
+// 도로/보행로 그래프 파일 형식 (scripts/build-road-graph.ts 가 생성, routing.ts 가 사용)
+// 브라우저/Node 양쪽에서 import 하므로 DOM 의존 없이 순수 타입·상수만 둔다.
+
+export const ROAD_GRAPH_FORMAT_VERSION = 1;
+
+// OSM highway 값별 통행 가능 여부 / 차량 속도(km/h)
+export interface RoadClass {
+  highway: string;
+  walk: boolean;
+  drive: boolean;
+  driveKmh: number;
+}
+
+export const ROAD_CLASSES: RoadClass[] = [
+  { highway: 'motorway', walk: false, drive: true, driveKmh: 90 },
+  { highway: 'motorway_link', walk: false, drive: true, driveKmh: 50 },
+  { highway: 'trunk', walk: true, drive: true, driveKmh: 70 },
+  { highway: 'trunk_link', walk: true, drive: true, driveKmh: 40 },
+  { highway: 'primary', walk: true, drive: true, driveKmh: 50 },
+  { highway: 'primary_link', walk: true, drive: true, driveKmh: 35 },
+  { highway: 'secondary', walk: true, drive: true, driveKmh: 40 },
+  { highway: 'secondary_link', walk: true, drive: true, driveKmh: 30 },
+  { highway: 'tertiary', walk: true, drive: true, driveKmh: 35 },
+  { highway: 'tertiary_link', walk: true, drive: true, driveKmh: 25 },
+  { highway: 'unclassified', walk: true, drive: true, driveKmh: 30 },
+  { highway: 'residential', walk: true, drive: true, driveKmh: 25 },
+  { highway: 'living_street', walk: true, drive: true, driveKmh: 10 },
+  { highway: 'service', walk: true, drive: true, driveKmh: 15 },
+  { highway: 'track', walk: true, drive: true, driveKmh: 10 },
+  { highway: 'pedestrian', walk: true, drive: false, driveKmh: 0 },
+  { highway: 'footway', walk: true, drive: false, driveKmh: 0 },
+  { highway: 'path', walk: true, drive: false, driveKmh: 0 },
+  { highway: 'steps', walk: true, drive: false, driveKmh: 0 },
+  { highway: 'cycleway', walk: true, drive: false, driveKmh: 0 },
+];
+
+// 보행 속도 (기존 화면의 "1km = 12분" 기준과 동일)
+export const WALK_KMH = 5;
+
+// JSON 파일 구조 – 크기를 줄이기 위해 평탄화된 배열 사용
+// - nodes: [lon0, lat0, lon1, lat1, ...]
+// - edges: [from, to, lengthM, classIdx, nameIdx, oneway, ...] (EDGE_STRIDE 단위)
+//   nameIdx = -1 이면 이름 없는 도로, oneway = 1 이면 차량은 from → to 방향만 통행
+export interface RoadGraphFile {
+  format: number;
+  builtAt: string;
+  source: string;
+  classes: string[];
+  names: string[];
+  nodes: number[];
+  edges: number[];
+}
+
+export const EDGE_STRIDE = 6;
@@ -0,0 +1,343 @@
+// src/lib/routing.ts
+// 파주시 도로/보행로 그래프 위 A* 경로 탐색
+// - 그래프: /data/paju-roads.json (scripts/build-road-graph.ts 로 OSM 추출본에서 생성)
+//   저장소에는 그래프 파일이 없음 – scripts/fixtures/osm 의 표본은 스크립트 확인용이라 public/ 에 두지 말 것
+// - 그래프 파일이 없거나 출발/도착점을 그래프에 붙일 수 없으면 직선거리 추정치로 대체
+import { calcDistanceKm, type LatLon } from './geo';
+import {
+  EDGE_STRIDE,
+  ROAD_CLASSES,
+  ROAD_GRAPH_FORMAT_VERSION,
+  WALK_KMH,
+  type RoadClass,
+  type RoadGraphFile,
+} from './roadGraph';
+
+export type TravelMode = 'walk' | 'drive';
+
+export interface RouteStep {
+  // 도로명 (이름 없는 길이면 null)
+  name: string | null;
+  distanceM: number;
+  minutes: number;
+}
+
+export interface RouteResult {
+  mode: TravelMode;
+  // graph: 실제 도로 경로 / estimate: 그래프를 쓸 수 없어 직선거리로 추정
+  source: 'graph' | 'estimate';
+  path: LatLon[];
+  distanceKm: number;
+  minutes: number;
+  steps: RouteStep[];
+}
+
+const GRAPH_URL = '/data/paju-roads.json';
+
+// 출발/도착점에서 그래프 노드까지 이 거리(m)를 넘으면 그래프 경로를 포기
+const MAX_SNAP_M = 500;
+
+// 직선거리 추정치 (기존 화면 기준: 도보 1km = 12분, 차량 1km = 3분)
+const ESTIMATE_MIN_PER_KM: Record<TravelMode, number> = { walk: 12, drive: 3 };
+
+// 진입/진출 구간(노드까지 직선) 이동 속도
+const ACCESS_KMH: Record<TravelMode, number> = { walk: WALK_KMH, drive: 15 };
+
+const MAX_DRIVE_KMH = Math.max(...ROAD_CLASSES.map((c) => c.driveKmh));
+
+// 모드별 인접 리스트 (CSR 형태)
+interface Adjacency {
+  offsets: Int32Array; // 노드 i의 간선은 arcs[offsets[i] .. offsets[i+1])
+  arcTo: Int32Array;
+  arcEdge: Int32Array;
+}
+
+interface LoadedGraph {
+  file: RoadGraphFile;
+  nodeCount: number;
+  // file.classes 인덱스 순서에 맞춘 도로 등급 정보 (모르는 등급이면 undefined)
+  classInfo: (RoadClass | undefined)[];
+  adjacency: Partial<Record<TravelMode, Adjacency>>;
+}
+
+let graphPromise: Promise<LoadedGraph | null> | null = null;
+
+export function loadRoadGraph(): Promise<LoadedGraph | null> {
+  if (graphPromise) return graphPromise;
+
+  graphPromise = (async () => {
+    try {
+      const res = await fetch(GRAPH_URL);
+      if (!res.ok) return null;
+      const file = (await res.json()) as RoadGraphFile;
+      if (file.format !== ROAD_GRAPH_FORMAT_VERSION) {
+        console.error('[routing] unsupported road graph format', file.format);
+        return null;
+      }
+      return {
+        file,
+        nodeCount: file.nodes.length / 2,
+        classInfo: file.classes.map((h) => ROAD_CLASSES.find((c) => c.highway === h)),
+        adjacency: {},
+      };
+    } catch (e) {
+      console.error('[routing] failed to load road graph', e);
+      return null;
+    }
+  })();
+
+  return graphPromise;
+}
+
+function classAllows(graph: LoadedGraph, classIdx: number, mode: TravelMode) {
+  const cls = graph.classInfo[classIdx];
+  if (!cls) return false;
+  return mode === 'walk' ? cls.walk : cls.drive;
+}
+
+function buildAdjacency(graph: LoadedGraph, mode: TravelMode): Adjacency {
+  const cached = graph.adjacency[mode];
+  if (cached) return cached;
+
+  const { edges } = graph.file;
+  const edgeCount = edges.length / EDGE_STRIDE;
+  const arcs: [number, number, number][] = []; // [from, to, edge]
+
+  for (let e = 0; e < edgeCount; e++) {
+    const base = e * EDGE_STRIDE;
+    const from = edges[base];
+    const to = edges[base + 1];
+    const classIdx = edges[base + 3];
+    const oneway = edges[base + 5] === 1;
+    if (!classAllows(graph, classIdx, mode)) continue;
+
+    arcs.push([from, to, e]);
+    // 보행은 일방통행 무시
+    if (mode === 'walk' || !oneway) arcs.push([to, from, e]);
+  }
+
+  const offsets = new Int32Array(graph.nodeCount + 1);
+  for (const [from] of arcs) offsets[from + 1]++;
+  for (let i = 0; i < graph.nodeCount; i++) offsets[i + 1] += offsets[i];
+
+  const fill = offsets.slice(0, graph.nodeCount);
+  const arcTo = new Int32Array(arcs.length);
+  const arcEdge = new Int32Array(arcs.length);
+  for (const [from, to, e] of arcs) {
+    const slot = fill[from]++;
+    arcTo[slot] = to;
+    arcEdge[slot] = e;
+  }
+
+  const adjacency = { offsets, arcTo, arcEdge };
+  graph.adjacency[mode] = adjacency;
+  return adjacency;
+}
+
+function nodeLatLon(graph: LoadedGraph, node: number): LatLon {
+  return { lon: graph.file.nodes[node * 2], lat: graph.file.nodes[node * 2 + 1] };
+}
+
+// 해당 모드로 통행 가능한 가장 가까운 노드
+function snapToGraph(graph: LoadedGraph, adj: Adjacency, point: LatLon) {
+  let best = -1;
+  let bestM = Number.MAX_VALUE;
+
+  for (let i = 0; i < graph.nodeCount; i++) {
+    if (adj.offsets[i] === adj.offsets[i + 1]) continue;
+    const n = nodeLatLon(graph, i);
+    const m = calcDistanceKm(point.lat, point.lon, n.lat, n.lon) * 1000;
+    if (m < bestM) {
+      bestM = m;
+      best = i;
+    }
+  }
+
+  return best >= 0 && bestM <= MAX_SNAP_M ? { node: best, distanceM: bestM } : null;
+}
+
+// 간선 통행 비용: 보행은 거리(m), 차량은 시간(초)
+function edgeCost(graph: LoadedGraph, edge: number, mode: TravelMode): number {
+  const base = edge * EDGE_STRIDE;
+  const lengthM = graph.file.edges[base + 2];
+  if (mode === 'walk') return lengthM;
+
+  const cls = graph.classInfo[graph.file.edges[base + 3]];
+  const kmh = cls && cls.driveKmh > 0 ? cls.driveKmh : 10;
+  return lengthM / (kmh / 3.6);
+}
+
+// 최소 이진 힙 (f 값 기준)
+class MinHeap {
+  private items: { node: number; f: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, f: number) {
+    const items = this.items;
+    items.push({ node, f });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].f <= items[i].f) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { node: number; f: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < items.length && items[l].f < items[min].f) min = l;
+        if (r < items.length && items[r].f < items[min].f) min = r;
+        if (min === i) break;
+        [items[min], items[i]] = [items[i], items[min]];
+        i = min;
+      }
+    }
+    return top;
+  }
+}
+
+// A* – 도달 불가하면 null, 성공 시 지나간 간선 목록(출발 → 도착 순)
+function aStar(
+  graph: LoadedGraph,
+  adj: Adjacency,
+  start: number,
+  goal: number,
+  mode: TravelMode,
+): { nodes: number[]; edges: number[] } | null {
+  const goalPos = nodeLatLon(graph, goal);
+  const heuristic = (node: number) => {
+    const p = nodeLatLon(graph, node);
+    const m = calcDistanceKm(p.lat, p.lon, goalPos.lat, goalPos.lon) * 1000;
+    return mode === 'walk' ? m : m / (MAX_DRIVE_KMH / 3.6);
+  };
+
+  const g = new Float64Array(graph.nodeCount).fill(Number.POSITIVE_INFINITY);
+  const prevNode = new Int32Array(graph.nodeCount).fill(-1);
+  const prevEdge = new Int32Array(graph.nodeCount).fill(-1);
+  const closed = new Uint8Array(graph.nodeCount);
+
+  const open = new MinHeap();
+  g[start] = 0;
+  open.push(start, heuristic(start));
+
+  while (open.size > 0) {
+    const current = open.pop()!.node;
+    if (current === goal) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    for (let a = adj.offsets[current]; a < adj.offsets[current + 1]; a++) {
+      const next = adj.arcTo[a];
+      if (closed[next]) continue;
+      const edge = adj.arcEdge[a];
+      const tentative = g[current] + edgeCost(graph, edge, mode);
+      if (tentative < g[next]) {
+        g[next] = tentative;
+        prevNode[next] = current;
+        prevEdge[next] = edge;
+        open.push(next, tentative + heuristic(next));
+      }
+    }
+  }
+
+  if (start !== goal && prevNode[goal] === -1) return null;
+
+  const nodes = [goal];
+  const edges: number[] = [];
+  for (let n = goal; n !== start; n = prevNode[n]) {
+    edges.push(prevEdge[n]);
+    nodes.push(prevNode[n]);
+  }
+  return { nodes: nodes.reverse(), edges: edges.reverse() };
+}
+
+// 같은 도로명 구간을 묶어 안내 단계로 변환 (짧은 구간은 앞 단계에 합침)
+function buildSteps(graph: LoadedGraph, edges: number[], mode: TravelMode): RouteStep[] {
+  const MIN_STEP_M = 30;
+  const steps: { name: string | null; distanceM: number; seconds: number }[] = [];
+
+  for (const edge of edges) {
+    const base = edge * EDGE_STRIDE;
+    const nameIdx = graph.file.edges[base + 4];
+    const name = nameIdx >= 0 ? graph.file.names[nameIdx] : null;
+    const lengthM = graph.file.edges[base + 2];
+    const seconds =
+      mode === 'walk' ? lengthM / (WALK_KMH / 3.6) : edgeCost(graph, edge, 'drive');
+
+    const last = steps[steps.length - 1];
+    if (last && (last.name === name || lengthM < MIN_STEP_M)) {
+      last.distanceM += lengthM;
+      last.seconds += seconds;
+    } else {
+      steps.push({ name, distanceM: lengthM, seconds });
+    }
+  }
+
+  return steps.map((s) => ({
+    name: s.name,
+    distanceM: Math.round(s.distanceM),
+    minutes: s.seconds / 60,
+  }));
+}
+
+function estimateRoute(from: LatLon, to: LatLon, mode: TravelMode): RouteResult {
+  const distanceKm = calcDistanceKm(from.lat, from.lon, to.lat, to.lon);
+  return {
+    mode,
+    source: 'estimate',
+    path: [from, to],
+    distanceKm,
+    minutes: Math.ceil(distanceKm * ESTIMATE_MIN_PER_KM[mode]),
+    steps: [],
+  };
+}
+
+export async function computeRoute(
+  from: LatLon,
+  to: LatLon,
+  mode: TravelMode,
+): Promise<RouteResult> {
+  const graph = await loadRoadGraph();
+  if (!graph) return estimateRoute(from, to, mode);
+
+  const adj = buildAdjacency(graph, mode);
+  const start = snapToGraph(graph, adj, from);
+  const goal = snapToGraph(graph, adj, to);
+  if (!start || !goal) return estimateRoute(from, to, mode);
+
+  const found = aStar(graph, adj, start.node, goal.node, mode);
+  if (!found) return estimateRoute(from, to, mode);
+
+  const roadM = found.edges.reduce(
+    (sum, e) => sum + graph.file.edges[e * EDGE_STRIDE + 2],
+    0,
+  );
+  const accessM = start.distanceM + goal.distanceM;
+  const roadSeconds =
+    mode === 'walk'
+      ? roadM / (WALK_KMH / 3.6)
+      : found.edges.reduce((sum, e) => sum + edgeCost(graph, e, 'drive'), 0);
+  const accessSeconds = accessM / (ACCESS_KMH[mode] / 3.6);
+
+  return {
+    mode,
+    source: 'graph',
+    path: [from, ...found.nodes.map((n) => nodeLatLon(graph, n)), to],
+    distanceKm: (roadM + accessM) / 1000,
+    minutes: Math.max(1, Math.ceil((roadSeconds + accessSeconds) / 60)),
+    steps: buildSteps(graph, found.edges, mode),
+  };
+}
@@ -0,0 +1,129 @@
+// src/lib/seismicRisk.ts
+// 위험도 지도(/risk)용 조회: 단층선, 최근 진앙, 파주 위험도와 산출 근거
+// 위험도 계산 자체는 DB 함수 refresh_earthquake_risk_paju() 에서 (지진 수집 후 자동 갱신)
+import { supabase, type Earthquake } from './supabase';
+import type { Json } from './database.types';
+import type { LatLon } from './geo';
+
+export type FaultRiskLevel = 'high' | 'medium' | 'low';
+
+export const FAULT_RISK_LABELS: Record<FaultRiskLevel, string> = {
+  high: '높음',
+  medium: '보통',
+  low: '낮음',
+};
+
+export const FAULT_RISK_COLORS: Record<FaultRiskLevel, string> = {
+  high: '#dc2626',
+  medium: '#ea580c',
+  low: '#ca8a04',
+};
+
+export interface FaultLine {
+  id: string;
+  name: string;
+  riskLevel: FaultRiskLevel;
+  path: LatLon[];
+}
+
+// 좌표가 있는 지진만 (2023 샘플 행은 위경도가 없음)
+export type Epicenter = Earthquake & { latitude: number; longitude: number };
+
+export interface RiskFactors {
+  faultScore: number;
+  seismicScore: number;
+  weights: { fault: number; seismic: number };
+  nearestFault: { name: string; riskLevel: FaultRiskLevel; distanceKm: number } | null;
+  quakeCount: number;
+  maxMagnitude: number | null;
+  windowDays: number;
+}
+
+export interface PajuRisk {
+  score: number;
+  computedAt: string;
+  // 예전 행(산출 근거 없이 점수만 저장)은 null
+  factors: RiskFactors | null;
+}
+
+function toRiskLevel(value: unknown): FaultRiskLevel {
+  return value === 'high' || value === 'medium' ? value : 'low';
+}
+
+function isObject(value: Json | undefined): value is { [key: string]: Json | undefined } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// fault_lines.coordinates: [{ lat, lng }, …]
+function toPath(coordinates: Json): LatLon[] {
+  if (!Array.isArray(coordinates)) return [];
+  return coordinates.flatMap((p) =>
+    isObject(p) && typeof p.lat === 'number' && typeof p.lng === 'number' ? [{ lat: p.lat, lon: p.lng }] : [],
+  );
+}
+
+export function parseRiskFactors(raw: Json): RiskFactors | null {
+  if (!isObject(raw) || typeof raw.fault_score !== 'number' || typeof raw.seismic_score !== 'number') {
+    return null;
+  }
+  const weights = isObject(raw.weights) ? raw.weights : {};
+  const nearest = isObject(raw.nearest_fault) ? raw.nearest_fault : null;
+
+  return {
+    faultScore: raw.fault_score,
+    seismicScore: raw.seismic_score,
+    weights: {
+      fault: typeof weights.fault === 'number' ? weights.fault : 0.6,
+      seismic: typeof weights.seismic === 'number' ? weights.seismic : 0.4,
+    },
+    nearestFault: nearest
+      ? {
+          name: String(nearest.name ?? ''),
+          riskLevel: toRiskLevel(nearest.risk_level),
+          distanceKm: Number(nearest.distance_km ?? 0),
+        }
+      : null,
+    quakeCount: typeof raw.quake_count === 'number' ? raw.quake_count : 0,
+    maxMagnitude: typeof raw.max_magnitude === 'number' ? raw.max_magnitude : null,
+    windowDays: typeof raw.window_days === 'number' ? raw.window_days : 365,
+  };
+}
+
+// 점수 구간 (0.3 / 0.6 기준)
+export function riskScoreLevel(score: number): FaultRiskLevel {
+  if (score >= 0.6) return 'high';
+  if (score >= 0.3) return 'medium';
+  return 'low';
+}
+
+export async function fetchFaultLines(): Promise<FaultLine[]> {
+  const { data, error } = await supabase.from('fault_lines').select('id,name,risk_level,coordinates');
+  if (error) throw error;
+  return (data ?? [])
+    .map((f) => ({ id: f.id, name: f.name, riskLevel: toRiskLevel(f.risk_level), path: toPath(f.coordinates) }))
+    .filter((f) => f.path.length >= 2);
+}
+
+export async function fetchRecentEpicenters(limit = 30): Promise<Epicenter[]> {
+  const { data, error } = await supabase
+    .from('earthquakes')
+    .select('*')
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null)
+    .order('occurred_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []).filter((e): e is Epicenter => e.latitude != null && e.longitude != null);
+}
+
+export async function fetchPajuRisk(): Promise<PajuRisk | null> {
+  const { data, error } = await supabase
+    .from('earthquakerisk_paju')
+    .select('risk_score,computed_at,factors')
+    .order('computed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return { score: Number(data.risk_score), computedAt: data.computed_at, factors: parseRiskFactors(data.factors) };
+}
@@ -0,0 +1,95 @@
+// src/lib/shelterFilters.ts
+// 대피소 시설/수용 조건 필터
+// - 행정구역/기본 보기: 불러온 목록에 그대로 적용
+// - 주소/GPS 검색: nearest_shelters RPC 인자로 넘겨 "조건을 만족하는 가까운 N곳"을 조회
+import type { Shelter, ShelterFacilities } from './supabase';
+
+export interface ShelterFilters {
+  // 최소 수용 인원 (명)
+  minCapacity: number | null;
+  // 최소 면적 (㎡)
+  minAreaSqm: number | null;
+  open24h: boolean;
+  petsAllowed: boolean;
+  generator: boolean;
+  medical: boolean;
+}
+
+export const EMPTY_FILTERS: ShelterFilters = {
+  minCapacity: null,
+  minAreaSqm: null,
+  open24h: false,
+  petsAllowed: false,
+  generator: false,
+  medical: false,
+};
+
+type FacilityFilterKey = 'petsAllowed' | 'generator' | 'medical';
+
+// 체크박스로 고르는 조건 (24시간 + 시설)
+export type FlagFilterKey = 'open24h' | FacilityFilterKey;
+
+// 체크박스 필터 → facilities jsonb 키
+const FACILITY_FILTERS: {
+  key: FacilityFilterKey;
+  facility: keyof ShelterFacilities;
+  label: string;
+}[] = [
+  { key: 'petsAllowed', facility: 'pets_allowed', label: '반려동물 동반' },
+  { key: 'generator', facility: 'generator', label: '발전기' },
+  { key: 'medical', facility: 'medical', label: '의료 지원' },
+];
+
+export function hasActiveFilters(filters: ShelterFilters): boolean {
+  return (
+    filters.minCapacity != null ||
+    filters.minAreaSqm != null ||
+    filters.open24h ||
+    FACILITY_FILTERS.some((f) => filters[f.key])
+  );
+}
+
+// RPC 의 required_facilities 인자 (예: {"generator": true, "medical": true})
+export function requiredFacilities(filters: ShelterFilters): Partial<ShelterFacilities> {
+  const required: Partial<ShelterFacilities> = {};
+  for (const f of FACILITY_FILTERS) {
+    if (filters[f.key]) required[f.facility] = true;
+  }
+  return required;
+}
+
+export function matchesFilters(shelter: Shelter, filters: ShelterFilters): boolean {
+  // 수용 인원/면적이 비어 있는 행은 조건을 만족하는지 알 수 없으므로 제외
+  if (filters.minCapacity != null && (shelter.capacity ?? 0) < filters.minCapacity) return false;
+  if (filters.minAreaSqm != null && (shelter.area_sqm ?? 0) < filters.minAreaSqm) return false;
+  if (filters.open24h && !shelter.is_24h_open) return false;
+  return FACILITY_FILTERS.every((f) => !filters[f.key] || shelter.facilities[f.facility]);
+}
+
+// 불러온 대피소 중 한 곳이라도 해당 정보가 등록된 체크박스 조건
+// (공공데이터 가져오기는 시설/24시간 정보를 채우지 않으므로, 관리자가 입력하기 전에는 비어 있을 수 있음)
+export function availableFlagFilters(list: Shelter[]): Set<FlagFilterKey> {
+  const available = new Set<FlagFilterKey>();
+  if (list.some((s) => s.is_24h_open)) available.add('open24h');
+  for (const f of FACILITY_FILTERS) {
+    if (list.some((s) => s.facilities[f.facility])) available.add(f.key);
+  }
+  return available;
+}
+
+export function applyShelterFilters(list: Shelter[], filters: ShelterFilters): Shelter[] {
+  if (!hasActiveFilters(filters)) return list;
+  return list.filter((s) => matchesFilters(s, filters));
+}
+
+// 결과 라벨용 요약 (예: "수용 300명 이상 · 24시간 · 발전기"), 조건이 없으면 빈 문자열
+export function describeFilters(filters: ShelterFilters): string {
+  const parts: string[] = [];
+  if (filters.minCapacity != null) parts.push(`수용 ${filters.minCapacity.toLocaleString()}명 이상`);
+  if (filters.minAreaSqm != null) parts.push(`면적 ${filters.minAreaSqm.toLocaleString()}㎡ 이상`);
+  if (filters.open24h) parts.push('24시간');
+  for (const f of FACILITY_FILTERS) {
+    if (filters[f.key]) parts.push(f.label);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,248 @@
+// src/lib/shelterRepository.ts
+// 대피소 데이터셋 로딩 (오프라인 우선)
+// 1) IndexedDB 스냅샷이 있으면 즉시 사용
+// 2) 백그라운드에서 dataset_versions 버전 스탬프를 확인하고, 바뀌었을 때만 전체 재다운로드
+// 3) 네트워크 실패 시 마지막 스냅샷으로 계속 동작
+// 주소/GPS 기준 최근접 조회는 서버 RPC(nearest_shelters)를 우선 사용하고, 실패 시 스냅샷으로 계산
+// (현재 인원이 수용 인원에 도달한 대피소는 기본으로 제외)
+import { supabase, type Shelter, type ShelterFacilities } from './supabase';
+import type { Tables } from './database.types';
+import { readDataset, writeDataset, type DatasetSnapshot } from './offlineStore';
+import { calcDistanceKm, type LatLon } from './geo';
+import { applyShelterFilters, requiredFacilities, type ShelterFilters } from './shelterFilters';
+import { isShelterFull } from './occupancy';
+
+const DATASET = 'shelter_facilities';
+
+// 온라인 상태에서 주기적으로 버전 확인 (ms)
+const SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+// DB에서 직접 읽어오는 컬럼 (facilities / is_24h_open / is_open 은 예전 스냅샷·RPC 결과에 없을 수 있음)
+type OptionalColumn = 'facilities' | 'is_24h_open' | 'is_open';
+export type ShelterRow = Omit<Tables<'shelter_facilities'>, 'geog' | OptionalColumn> &
+  Partial<Pick<Tables<'shelter_facilities'>, OptionalColumn>>;
+
+export const SHELTER_COLUMNS =
+  'facility_serial,name,road_addr,region_code,area_sqm,capacity,lon,lat,facilities,is_24h_open,is_open';
+
+export interface ShelterDatasetState {
+  shelters: Shelter[];
+  status: 'loading' | 'ready' | 'error';
+  // 마지막으로 서버와 동기화(또는 최신 확인)한 시각
+  syncedAt: string | null;
+  version: number | null;
+  // 마지막 동기화 시도가 실패해 캐시를 보여주는 중
+  offline: boolean;
+}
+
+// 시설 정보가 없거나 키가 빠진 경우는 "없음"으로 취급
+function mapFacilities(raw: ShelterRow['facilities']): ShelterFacilities {
+  const obj = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+  const has = (key: keyof ShelterFacilities) => obj[key] === true;
+  return {
+    medical: has('medical'),
+    restroom: has('restroom'),
+    supplies: has('supplies'),
+    wifi: has('wifi'),
+    generator: has('generator'),
+    emergency_power: has('emergency_power'),
+    pets_allowed: has('pets_allowed'),
+  };
+}
+
+export function mapShelterRow(row: ShelterRow): Shelter {
+  return {
+    ...row,
+    address: row.road_addr ?? '',
+    is_24h_open: row.is_24h_open === true,
+    // 값이 없으면 운영 중으로 간주 (nearest_shelters 는 운영 중인 대피소만 반환)
+    is_open: row.is_open !== false,
+    facilities: mapFacilities(row.facilities),
+  };
+}
+
+let state: ShelterDatasetState = {
+  shelters: [],
+  status: 'loading',
+  syncedAt: null,
+  version: null,
+  offline: false,
+};
+
+const listeners = new Set<() => void>();
+
+function publish(next: Partial<ShelterDatasetState>) {
+  state = { ...state, ...next };
+  listeners.forEach((l) => l());
+}
+
+function publishSnapshot(snapshot: DatasetSnapshot<ShelterRow>, offline: boolean) {
+  publish({
+    shelters: snapshot.rows.map(mapShelterRow),
+    status: 'ready',
+    syncedAt: snapshot.syncedAt,
+    version: snapshot.version,
+    offline,
+  });
+}
+
+export function subscribeShelters(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getShelterState(): ShelterDatasetState {
+  return state;
+}
+
+// 서버 버전 스탬프 (테이블이 없거나 조회 실패 시 null → 항상 재다운로드)
+async function fetchRemoteVersion(): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('dataset_versions')
+    .select('version')
+    .eq('name', DATASET)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return Number(data.version);
+}
+
+async function fetchRemoteRows(): Promise<ShelterRow[]> {
+  const { data, error } = await supabase
+    .from('shelter_facilities')
+    .select(SHELTER_COLUMNS)
+    .order('name');
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+let syncPromise: Promise<void> | null = null;
+
+async function runSync(): Promise<void> {
+  const cached = await readDataset<ShelterRow>(DATASET);
+  if (cached && state.status === 'loading') {
+    publishSnapshot(cached, false);
+  }
+
+  try {
+    const remoteVersion = await fetchRemoteVersion();
+    const now = new Date().toISOString();
+
+    // 버전이 같으면 행은 그대로 두고 확인 시각만 갱신
+    if (cached && remoteVersion != null && cached.version === remoteVersion) {
+      const snapshot = { ...cached, syncedAt: now };
+      await writeDataset(snapshot);
+      publishSnapshot(snapshot, false);
+      return;
+    }
+
+    const rows = await fetchRemoteRows();
+    const snapshot: DatasetSnapshot<ShelterRow> = {
+      name: DATASET,
+      version: remoteVersion,
+      syncedAt: now,
+      rows,
+    };
+    await writeDataset(snapshot);
+    publishSnapshot(snapshot, false);
+  } catch (e) {
+    console.error('[shelterRepository] sync failed, using cached snapshot', e);
+    if (cached) {
+      publishSnapshot(cached, true);
+    } else {
+      publish({ status: 'error', offline: true });
+    }
+  }
+}
+
+// 동시에 여러 화면이 요청해도 동기화는 한 번만 수행
+export function syncShelters(): Promise<void> {
+  if (!syncPromise) {
+    syncPromise = runSync().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+// 데이터셋이 아직 없으면 첫 동기화를 기다린 뒤 반환
+export async function getShelters(): Promise<Shelter[]> {
+  if (state.status === 'loading') {
+    await syncShelters();
+  }
+  return state.shelters;
+}
+
+let backgroundStarted = false;
+
+// 온라인 복귀 시 / 주기적으로 버전 확인
+export function startBackgroundSync() {
+  if (backgroundStarted || typeof window === 'undefined') return;
+  backgroundStarted = true;
+
+  syncShelters();
+  window.addEventListener('online', () => {
+    syncShelters();
+  });
+  window.setInterval(() => {
+    if (navigator.onLine) syncShelters();
+  }, SYNC_INTERVAL_MS);
+}
+
+export interface NearbyShelter {
+  shelter: Shelter;
+  distanceKm: number;
+}
+
+// 기준 좌표에서 가까운 순으로 정렬 후 상위 N개 (캐시된 목록 기준)
+export function nearestInList(list: Shelter[], point: LatLon, limit: number): NearbyShelter[] {
+  return list
+    .filter((s) => s.lat != null && s.lon != null)
+    .map((s) => ({ shelter: s, distanceKm: calcDistanceKm(point.lat, point.lon, s.lat, s.lon) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit);
+}
+
+// 가까운 대피소 조회
+// - 온라인: 서버 nearest_shelters RPC (PostGIS 인덱스로 정렬, 전체 행을 내려받지 않음)
+// - RPC 실패/오프라인: IndexedDB 캐시 목록으로 같은 계산
+// filters 가 있으면 조건을 만족하는 대피소 중에서 가까운 순, includeFull 이 아니면 만원 대피소 제외
+export async function fetchNearestShelters(
+  point: LatLon,
+  options: { limit?: number; maxKm?: number; filters?: ShelterFilters; includeFull?: boolean } = {},
+): Promise<NearbyShelter[]> {
+  const { limit = 10, maxKm, filters, includeFull = false } = options;
+
+  if (typeof navigator === 'undefined' || navigator.onLine) {
+    const { data, error } = await supabase.rpc('nearest_shelters', {
+      origin_lat: point.lat,
+      origin_lon: point.lon,
+      max_results: limit,
+      // undefined 인자는 생략되어 SQL 기본값(NULL) 사용
+      max_km: maxKm,
+      min_capacity: filters?.minCapacity ?? undefined,
+      min_area_sqm: filters?.minAreaSqm ?? undefined,
+      require_24h: filters?.open24h ?? false,
+      required_facilities: filters ? requiredFacilities(filters) : {},
+      include_full: includeFull,
+    });
+
+    if (!error && data) {
+      return data.map(({ distance_km, ...row }) => ({
+        shelter: mapShelterRow(row),
+        distanceKm: Number(distance_km),
+      }));
+    }
+    console.error('[shelterRepository] nearest_shelters RPC failed, using cache', error);
+  }
+
+  const cached = await getShelters();
+  const candidates = (filters ? applyShelterFilters(cached, filters) : cached).filter(
+    (s) => s.is_open && (includeFull || !isShelterFull(s.facility_serial, s.capacity)),
+  );
+  const nearby = nearestInList(candidates, point, limit);
+  return maxKm != null ? nearby.filter((n) => n.distanceKm <= maxKm) : nearby;
+}
@@ -0,0 +1,184 @@
+// src/lib/suggest.ts
+// 검색창 자동완성 – 읍/면/동·리, 도로명, 대피소 이름 후보
+import type { Shelter } from './supabase';
+import { EMD_AREAS } from './pajuBoundary';
+import { PAJU_REGIONS, regionByCode } from './regions';
+
+export type SuggestionKind = 'region' | 'road' | 'shelter';
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  // 목록에 보여줄 이름
+  label: string;
+  // 보조 설명 (읍/면/동 구분, 대피소 주소 등)
+  detail: string | null;
+  // 선택 시 검색에 사용할 문자열
+  value: string;
+  // kind === 'shelter' 일 때만
+  facilitySerial: number | null;
+}
+
+export interface SuggestSources {
+  shelters: Shelter[];
+  roads: string[];
+}
+
+// 종류별 최대 후보 수 / 전체 최대 후보 수
+const MAX_PER_KIND = 4;
+const MAX_TOTAL = 8;
+
+// 오타 허용: 이 길이 이상 입력했을 때만 한 글자 차이까지 인정
+const TYPO_MIN_LENGTH = 3;
+
+const KIND_ORDER: Record<SuggestionKind, number> = { region: 0, road: 1, shelter: 2 };
+
+function compact(s: string): string {
+  return s.replace(/\s+/g, '').toLowerCase();
+}
+
+// 두 문자열의 편집 거리가 1 이하인지 (한 글자 오타/누락/추가)
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (a.length < b.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// 낮을수록 좋은 점수 (일치하지 않으면 null)
+// 0: 완전 일치, 1: 앞부분 일치, 2: 포함, 3: 한 글자 오타
+function matchScore(needle: string, name: string, allowTypo: boolean): number | null {
+  const target = compact(name);
+  if (target === needle) return 0;
+  if (target.startsWith(needle)) return 1;
+  if (target.includes(needle)) return 2;
+  if (allowTypo && needle.length >= TYPO_MIN_LENGTH) {
+    // 입력이 도로명 앞부분일 수도 있으므로 같은 길이 접두어와도 비교
+    if (withinOneEdit(needle, target) || withinOneEdit(needle, target.slice(0, needle.length))) {
+      return 3;
+    }
+  }
+  return null;
+}
+
+// "시청러 50" → 이름 부분 "시청러" + 건물번호 "50"
+function splitBuildingNumber(query: string): { name: string; number: string | null } {
+  const m = query.trim().match(/^(.*?\S)\s*(\d+(?:-\d+)?)$/);
+  if (m && !/\d$/.test(m[1])) return { name: m[1], number: m[2] };
+  return { name: query.trim(), number: null };
+}
+
+type Scored = { s: Suggestion; score: number };
+
+// 지역 후보: 행정 읍/면/동(경계 있음) + 법정동 + 리 ("문산읍 선유리" 형태로 검색)
+interface RegionEntry {
+  name: string;
+  label: string;
+  detail: string;
+}
+
+const EMD_NAMES = new Set(EMD_AREAS.map((a) => a.name));
+
+const REGION_ENTRIES: RegionEntry[] = [
+  ...EMD_AREAS.map((a) => ({ name: a.name, label: a.name, detail: `파주시 ${a.kind}` })),
+  ...PAJU_REGIONS.filter((r) => r.level === 'dong' && !EMD_NAMES.has(r.name)).map((r) => ({
+    name: r.name,
+    label: r.name,
+    detail: '파주시 법정동',
+  })),
+  ...PAJU_REGIONS.filter((r) => r.level === 'ri').map((r) => {
+    const parent = r.parent ? regionByCode(r.parent)?.name ?? '' : '';
+    return { name: r.name, label: `${parent} ${r.name}`.trim(), detail: `파주시 ${parent}` };
+  }),
+];
+
+// 이름이 일치하는 항목만 골라 종류별 상위 N개
+function topMatches<T>(
+  items: T[],
+  needle: string,
+  nameOf: (item: T) => string,
+  allowTypo: boolean,
+  toSuggestion: (item: T) => Suggestion,
+): Scored[] {
+  const matched: Scored[] = [];
+  for (const item of items) {
+    const name = nameOf(item);
+    const score = matchScore(needle, name, allowTypo);
+    if (score != null) matched.push({ s: toSuggestion(item), score });
+  }
+  return matched
+    .sort((a, b) => a.score - b.score || a.s.label.length - b.s.label.length)
+    .slice(0, MAX_PER_KIND);
+}
+
+export function suggest(query: string, sources: SuggestSources): Suggestion[] {
+  const { name, number } = splitBuildingNumber(query);
+  const needle = compact(name);
+  if (!needle) return [];
+
+  const scored: Scored[] = [];
+
+  // 읍/면/동 (건물번호가 붙어 있으면 행정구역이 아님)
+  if (!number) {
+    scored.push(
+      ...topMatches(REGION_ENTRIES, needle, (r) => r.name, true, (r) => ({
+        kind: 'region',
+        label: r.label,
+        detail: r.detail,
+        value: r.label,
+        facilitySerial: null,
+      })),
+    );
+  }
+
+  // 도로명 (오타를 고친 도로명 + 입력한 건물번호)
+  scored.push(
+    ...topMatches(sources.roads, needle, (road) => road, true, (road) => {
+      const value = number ? `${road} ${number}` : road;
+      return { kind: 'road', label: value, detail: '도로명', value, facilitySerial: null };
+    }),
+  );
+
+  // 대피소 이름 (오타 허용 없이 포함 검색)
+  if (!number) {
+    scored.push(
+      ...topMatches(sources.shelters, needle, (s) => s.name, false, (s) => ({
+        kind: 'shelter',
+        label: s.name,
+        detail: s.road_addr,
+        value: s.name,
+        facilitySerial: s.facility_serial,
+      })),
+    );
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || KIND_ORDER[a.s.kind] - KIND_ORDER[b.s.kind])
+    .slice(0, MAX_TOTAL)
+    .map((item) => item.s);
+}
+
+// 대피소 주소에 나오는 도로명 (오프라인 색인이 없을 때 자동완성 후보로 사용)
+export function roadNamesFromShelters(shelters: Shelter[]): string[] {
+  const names = new Set<string>();
+  for (const s of shelters) {
+    const m = (s.road_addr ?? '').match(/(\S+(?:대로|로|길))\s*\d/);
+    if (m) names.add(m[1]);
+  }
+  return [...names];
+}
@@ -0,0 +1,67 @@
+/*
+  # Tables the app actually queries
+
+  The first migration created a `shelters` table (latitude / longitude /
+  address) that no screen reads. The app loads shelters from
+  `shelter_facilities` (the 행정안전부 지진 옥외대피장소 columns) and the home
+  page reads the city risk score from `earthquakerisk_paju`. This migration
+  creates both so a fresh database matches the code; later migrations add
+  `geog`, `facilities` and `is_24h_open` to `shelter_facilities`.
+
+  1. New Tables
+    - `shelter_facilities` - Earthquake evacuation shelters
+      - `facility_serial` (bigint, primary key) - 시설일련번호 from the national dataset
+      - `name` (text) - 시설명
+      - `road_addr` (text) - 도로명 주소
+      - `region_code` (bigint) - 10-digit 법정동 code (e.g. 4148010100 = 금촌동)
+      - `area_sqm` (double precision) - Usable area in ㎡
+      - `capacity` (integer) - 수용 가능 인원
+      - `lon` / `lat` (double precision) - WGS84 coordinates
+
+    - `earthquakerisk_paju` - City-wide seismic risk score
+      - `id` (bigint, identity primary key)
+      - `risk_score` (double precision) - 0 ~ 1
+      - `computed_at` (timestamptz) - When the score was computed
+
+  2. Removed Tables
+    - `shelters` - Never queried; its sample rows now live in `supabase/seed.sql`
+      as `shelter_facilities` rows.
+
+  3. Security
+    - Enable RLS, public read access on both tables
+*/
+
+CREATE TABLE IF NOT EXISTS shelter_facilities (
+  facility_serial bigint PRIMARY KEY,
+  name text NOT NULL,
+  road_addr text,
+  region_code bigint,
+  area_sqm double precision,
+  capacity integer,
+  lon double precision NOT NULL,
+  lat double precision NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS shelter_facilities_region_code_idx
+  ON shelter_facilities (region_code);
+
+CREATE TABLE IF NOT EXISTS earthquakerisk_paju (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  risk_score double precision NOT NULL,
+  computed_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE shelter_facilities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE earthquakerisk_paju ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shelter facilities"
+  ON shelter_facilities FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view risk score"
+  ON earthquakerisk_paju FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP TABLE IF EXISTS shelters;
@@ -0,0 +1,55 @@
+/*
+  # Dataset version stamps for offline sync
+
+  1. New Tables
+    - `dataset_versions` - One row per client-cached dataset
+      - `name` (text, primary key) - Dataset name (e.g. 'shelter_facilities')
+      - `version` (bigint) - Incremented on every change to the dataset
+      - `updated_at` (timestamptz) - When the dataset last changed
+
+  2. Triggers
+    - Any INSERT / UPDATE / DELETE on `shelter_facilities` bumps the
+      'shelter_facilities' version, so clients only re-download rows when
+      the stamp differs from their IndexedDB snapshot.
+
+  3. Security
+    - Enable RLS, public read access
+*/
+
+CREATE TABLE IF NOT EXISTS dataset_versions (
+  name text PRIMARY KEY,
+  version bigint NOT NULL DEFAULT 1,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE dataset_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view dataset versions"
+  ON dataset_versions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+INSERT INTO dataset_versions (name) VALUES ('shelter_facilities')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION bump_dataset_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO dataset_versions (name, version, updated_at)
+  VALUES (TG_ARGV[0], 1, now())
+  ON CONFLICT (name) DO UPDATE
+    SET version = dataset_versions.version + 1,
+        updated_at = now();
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shelter_facilities_bump_version ON shelter_facilities;
+CREATE TRIGGER shelter_facilities_bump_version
+  AFTER INSERT OR UPDATE OR DELETE ON shelter_facilities
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION bump_dataset_version('shelter_facilities');
@@ -0,0 +1,79 @@
+/*
+  # Server-side nearest shelter lookup (PostGIS)
+
+  1. Extensions
+    - `postgis` for geography types and KNN distance ordering
+
+  2. Changes to `shelter_facilities`
+    - `geog` (geography(Point, 4326)) - Generated from `lon` / `lat`
+    - GIST index on `geog` so `<->` ordering uses the index instead of a full scan
+
+  3. New Functions
+    - `nearest_shelters(origin_lat, origin_lon, max_results, max_km)`
+      Returns shelters sorted by distance from the given point, with
+      `distance_km` included. `max_km` (optional) limits the search radius.
+      (Inputs are prefixed with `origin_` because `lat` / `lon` are output
+      columns and PostgreSQL does not allow IN / OUT parameters to share a name.)
+
+  4. Security
+    - Function runs with the caller's rights (SECURITY INVOKER), so the
+      existing SELECT policies on `shelter_facilities` still apply.
+*/
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE shelter_facilities
+  ADD COLUMN IF NOT EXISTS geog extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    extensions.ST_SetSRID(extensions.ST_MakePoint(lon, lat), 4326)::extensions.geography
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS shelter_facilities_geog_idx
+  ON shelter_facilities USING GIST (geog);
+
+CREATE OR REPLACE FUNCTION nearest_shelters(
+  origin_lat double precision,
+  origin_lon double precision,
+  max_results integer DEFAULT 10,
+  max_km double precision DEFAULT NULL
+)
+RETURNS TABLE (
+  facility_serial bigint,
+  name text,
+  road_addr text,
+  region_code bigint,
+  area_sqm double precision,
+  capacity integer,
+  lat double precision,
+  lon double precision,
+  distance_km double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(origin_lon, origin_lat), 4326)::geography AS g
+  )
+  SELECT
+    s.facility_serial::bigint,
+    s.name::text,
+    s.road_addr::text,
+    s.region_code::bigint,
+    s.area_sqm::double precision,
+    s.capacity::integer,
+    s.lat::double precision,
+    s.lon::double precision,
+    ST_Distance(s.geog, origin.g) / 1000.0 AS distance_km
+  FROM shelter_facilities s, origin
+  WHERE s.geog IS NOT NULL
+    AND (
+      max_km IS NULL
+      OR ST_DWithin(s.geog, origin.g, max_km * 1000.0)
+    )
+  ORDER BY s.geog <-> origin.g
+  LIMIT GREATEST(COALESCE(max_results, 10), 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION nearest_shelters(double precision, double precision, integer, double precision)
+  TO anon, authenticated;
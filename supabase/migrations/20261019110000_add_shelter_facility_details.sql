@@ -0,0 +1,96 @@
+/*
+  # Per-shelter facility details
+
+  1. Changes to `shelter_facilities`
+    - `facilities` (jsonb) - Facility flags, e.g.
+      `{"medical": true, "restroom": true, "supplies": false, "wifi": false,
+        "generator": true, "emergency_power": true, "pets_allowed": false}`.
+      Missing keys mean "unknown" and are treated as false by the client.
+    - `is_24h_open` (boolean) - Open around the clock
+    - GIN index on `facilities` for `@>` containment filters
+
+  2. Changes to Functions
+    - `nearest_shelters` gains optional filters (`min_capacity`,
+      `min_area_sqm`, `require_24h`, `required_facilities`) and returns
+      `facilities` / `is_24h_open`. The return type changes, so the old
+      function is dropped first.
+
+  3. Data
+    - Bumps the 'shelter_facilities' dataset version so cached clients
+      re-download rows with the new columns.
+*/
+
+ALTER TABLE shelter_facilities
+  ADD COLUMN IF NOT EXISTS facilities jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS is_24h_open boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS shelter_facilities_facilities_idx
+  ON shelter_facilities USING GIN (facilities);
+
+DROP FUNCTION IF EXISTS nearest_shelters(double precision, double precision, integer, double precision);
+
+CREATE FUNCTION nearest_shelters(
+  origin_lat double precision,
+  origin_lon double precision,
+  max_results integer DEFAULT 10,
+  max_km double precision DEFAULT NULL,
+  min_capacity integer DEFAULT NULL,
+  min_area_sqm double precision DEFAULT NULL,
+  require_24h boolean DEFAULT false,
+  required_facilities jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  facility_serial bigint,
+  name text,
+  road_addr text,
+  region_code bigint,
+  area_sqm double precision,
+  capacity integer,
+  lat double precision,
+  lon double precision,
+  facilities jsonb,
+  is_24h_open boolean,
+  distance_km double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(origin_lon, origin_lat), 4326)::geography AS g
+  )
+  SELECT
+    s.facility_serial::bigint,
+    s.name::text,
+    s.road_addr::text,
+    s.region_code::bigint,
+    s.area_sqm::double precision,
+    s.capacity::integer,
+    s.lat::double precision,
+    s.lon::double precision,
+    s.facilities,
+    s.is_24h_open,
+    ST_Distance(s.geog, origin.g) / 1000.0 AS distance_km
+  FROM shelter_facilities s, origin
+  WHERE s.geog IS NOT NULL
+    AND (
+      max_km IS NULL
+      OR ST_DWithin(s.geog, origin.g, max_km * 1000.0)
+    )
+    AND (min_capacity IS NULL OR s.capacity >= min_capacity)
+    AND (min_area_sqm IS NULL OR s.area_sqm >= min_area_sqm)
+    AND (NOT COALESCE(require_24h, false) OR s.is_24h_open)
+    AND s.facilities @> COALESCE(required_facilities, '{}'::jsonb)
+  ORDER BY s.geog <-> origin.g
+  LIMIT GREATEST(COALESCE(max_results, 10), 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION nearest_shelters(
+  double precision, double precision, integer, double precision,
+  integer, double precision, boolean, jsonb
+) TO anon, authenticated;
+
+UPDATE dataset_versions
+  SET version = version + 1,
+      updated_at = now()
+  WHERE name = 'shelter_facilities';
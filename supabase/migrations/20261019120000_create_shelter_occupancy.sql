@@ -0,0 +1,216 @@
+/*
+  # Live shelter occupancy
+
+  1. New Tables
+    - `shelter_staff` - Which users may record check-ins at which shelter
+      - `user_id` (uuid, references auth.users)
+      - `facility_serial` (bigint, references shelter_facilities)
+      - `created_at` (timestamptz)
+
+    - `shelter_occupancy` - Current head count per shelter (one row per shelter)
+      - `facility_serial` (bigint, primary key, references shelter_facilities)
+      - `occupants` (integer) - People currently checked in, never negative
+      - `updated_at` (timestamptz)
+      - `updated_by` (uuid) - Staff member who recorded the last change
+
+    - `shelter_checkins` - Append-only log of every check-in / check-out
+      - `id` (bigint, identity primary key)
+      - `facility_serial` (bigint)
+      - `delta` (integer) - +n check-in, -n check-out
+      - `occupants_after` (integer)
+      - `recorded_by` (uuid)
+      - `recorded_at` (timestamptz)
+
+  2. New Functions
+    - `record_shelter_checkin(p_facility_serial, p_delta)` - Staff-only.
+      Adds `p_delta` to the shelter's head count (clamped at 0), logs the
+      change and returns the new count. Runs as SECURITY DEFINER so the
+      tables themselves stay read-only for clients.
+
+  3. Changes to Functions
+    - `nearest_shelters` gains `include_full` (default false): shelters whose
+      head count has reached capacity are skipped unless it is true.
+
+  4. Realtime
+    - `shelter_occupancy` is added to the `supabase_realtime` publication so
+      clients receive head-count changes as they happen.
+
+  5. Security
+    - Public read on `shelter_occupancy`
+    - Staff can read their own `shelter_staff` rows and their shelters' check-in log
+    - No direct INSERT / UPDATE / DELETE for clients; writes go through the RPC
+*/
+
+CREATE TABLE IF NOT EXISTS shelter_staff (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  facility_serial bigint NOT NULL REFERENCES shelter_facilities(facility_serial) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, facility_serial)
+);
+
+CREATE TABLE IF NOT EXISTS shelter_occupancy (
+  facility_serial bigint PRIMARY KEY REFERENCES shelter_facilities(facility_serial) ON DELETE CASCADE,
+  occupants integer NOT NULL DEFAULT 0 CHECK (occupants >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS shelter_checkins (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  facility_serial bigint NOT NULL REFERENCES shelter_facilities(facility_serial) ON DELETE CASCADE,
+  delta integer NOT NULL CHECK (delta <> 0),
+  occupants_after integer NOT NULL,
+  recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS shelter_checkins_facility_idx
+  ON shelter_checkins (facility_serial, recorded_at DESC);
+
+ALTER TABLE shelter_staff ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shelter_occupancy ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shelter_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shelter occupancy"
+  ON shelter_occupancy FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Staff can view own assignments"
+  ON shelter_staff FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view check-ins of their shelters"
+  ON shelter_checkins FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shelter_staff st
+      WHERE st.user_id = auth.uid()
+        AND st.facility_serial = shelter_checkins.facility_serial
+    )
+  );
+
+CREATE OR REPLACE FUNCTION record_shelter_checkin(
+  p_facility_serial bigint,
+  p_delta integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_count integer;
+BEGIN
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'delta must be a non-zero integer' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM shelter_staff
+    WHERE user_id = auth.uid() AND facility_serial = p_facility_serial
+  ) THEN
+    RAISE EXCEPTION 'not a staff member of shelter %', p_facility_serial USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO shelter_occupancy AS o (facility_serial, occupants, updated_at, updated_by)
+  VALUES (p_facility_serial, GREATEST(p_delta, 0), now(), auth.uid())
+  ON CONFLICT (facility_serial) DO UPDATE
+    SET occupants = GREATEST(o.occupants + p_delta, 0),
+        updated_at = now(),
+        updated_by = auth.uid()
+  RETURNING occupants INTO new_count;
+
+  INSERT INTO shelter_checkins (facility_serial, delta, occupants_after, recorded_by)
+  VALUES (p_facility_serial, p_delta, new_count, auth.uid());
+
+  RETURN new_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_shelter_checkin(bigint, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_shelter_checkin(bigint, integer) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE shelter_occupancy;
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS nearest_shelters(
+  double precision, double precision, integer, double precision,
+  integer, double precision, boolean, jsonb
+);
+
+CREATE FUNCTION nearest_shelters(
+  origin_lat double precision,
+  origin_lon double precision,
+  max_results integer DEFAULT 10,
+  max_km double precision DEFAULT NULL,
+  min_capacity integer DEFAULT NULL,
+  min_area_sqm double precision DEFAULT NULL,
+  require_24h boolean DEFAULT false,
+  required_facilities jsonb DEFAULT '{}'::jsonb,
+  include_full boolean DEFAULT false
+)
+RETURNS TABLE (
+  facility_serial bigint,
+  name text,
+  road_addr text,
+  region_code bigint,
+  area_sqm double precision,
+  capacity integer,
+  lat double precision,
+  lon double precision,
+  facilities jsonb,
+  is_24h_open boolean,
+  distance_km double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(origin_lon, origin_lat), 4326)::geography AS g
+  )
+  SELECT
+    s.facility_serial::bigint,
+    s.name::text,
+    s.road_addr::text,
+    s.region_code::bigint,
+    s.area_sqm::double precision,
+    s.capacity::integer,
+    s.lat::double precision,
+    s.lon::double precision,
+    s.facilities,
+    s.is_24h_open,
+    ST_Distance(s.geog, origin.g) / 1000.0 AS distance_km
+  FROM shelter_facilities s
+  CROSS JOIN origin
+  LEFT JOIN shelter_occupancy o ON o.facility_serial = s.facility_serial
+  WHERE s.geog IS NOT NULL
+    AND (
+      max_km IS NULL
+      OR ST_DWithin(s.geog, origin.g, max_km * 1000.0)
+    )
+    AND (min_capacity IS NULL OR s.capacity >= min_capacity)
+    AND (min_area_sqm IS NULL OR s.area_sqm >= min_area_sqm)
+    AND (NOT COALESCE(require_24h, false) OR s.is_24h_open)
+    AND s.facilities @> COALESCE(required_facilities, '{}'::jsonb)
+    AND (
+      COALESCE(include_full, false)
+      OR s.capacity IS NULL
+      OR COALESCE(o.occupants, 0) < s.capacity
+    )
+  ORDER BY s.geog <-> origin.g
+  LIMIT GREATEST(COALESCE(max_results, 10), 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION nearest_shelters(
+  double precision, double precision, integer, double precision,
+  integer, double precision, boolean, jsonb, boolean
+) TO anon, authenticated;
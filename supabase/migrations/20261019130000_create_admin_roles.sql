@@ -0,0 +1,148 @@
+/*
+  # Admin roles and shelter editing
+
+  1. New Tables
+    - `admin_users` - Users allowed into the /admin console
+      - `user_id` (uuid, primary key, references auth.users)
+      - `role` (text) - 'admin' (add / edit / delete shelters) or
+        'editor' (edit existing shelters only)
+      - `created_at` (timestamptz)
+
+  2. Changes to `shelter_facilities`
+    - `is_open` (boolean) - Open / closed status set from the admin console
+
+  3. New Functions
+    - `has_admin_role(roles text[])` - Whether the caller has one of the given
+      roles. SECURITY DEFINER so policies can call it without recursing into
+      the `admin_users` policies.
+
+  4. Changes to Functions
+    - `nearest_shelters` skips closed shelters (same signature, body only)
+
+  5. Security
+    - `shelter_facilities`: UPDATE for admin / editor, INSERT / DELETE for admin
+      (public SELECT unchanged)
+    - `admin_users`: users can read their own row, admins can read all rows.
+      Roles are granted with SQL only.
+
+  6. Data
+    - Bumps the 'shelter_facilities' dataset version so cached clients pick
+      up `is_open`.
+*/
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('admin', 'editor')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION has_admin_role(roles text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE user_id = auth.uid() AND role = ANY(roles)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_admin_role(text[]) TO authenticated;
+
+CREATE POLICY "Users can view own admin role"
+  ON admin_users FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR has_admin_role(ARRAY['admin']));
+
+ALTER TABLE shelter_facilities
+  ADD COLUMN IF NOT EXISTS is_open boolean NOT NULL DEFAULT true;
+
+CREATE POLICY "Admins and editors can update shelters"
+  ON shelter_facilities FOR UPDATE
+  TO authenticated
+  USING (has_admin_role(ARRAY['admin', 'editor']))
+  WITH CHECK (has_admin_role(ARRAY['admin', 'editor']));
+
+CREATE POLICY "Admins can insert shelters"
+  ON shelter_facilities FOR INSERT
+  TO authenticated
+  WITH CHECK (has_admin_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can delete shelters"
+  ON shelter_facilities FOR DELETE
+  TO authenticated
+  USING (has_admin_role(ARRAY['admin']));
+
+CREATE OR REPLACE FUNCTION nearest_shelters(
+  origin_lat double precision,
+  origin_lon double precision,
+  max_results integer DEFAULT 10,
+  max_km double precision DEFAULT NULL,
+  min_capacity integer DEFAULT NULL,
+  min_area_sqm double precision DEFAULT NULL,
+  require_24h boolean DEFAULT false,
+  required_facilities jsonb DEFAULT '{}'::jsonb,
+  include_full boolean DEFAULT false
+)
+RETURNS TABLE (
+  facility_serial bigint,
+  name text,
+  road_addr text,
+  region_code bigint,
+  area_sqm double precision,
+  capacity integer,
+  lat double precision,
+  lon double precision,
+  facilities jsonb,
+  is_24h_open boolean,
+  distance_km double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(origin_lon, origin_lat), 4326)::geography AS g
+  )
+  SELECT
+    s.facility_serial::bigint,
+    s.name::text,
+    s.road_addr::text,
+    s.region_code::bigint,
+    s.area_sqm::double precision,
+    s.capacity::integer,
+    s.lat::double precision,
+    s.lon::double precision,
+    s.facilities,
+    s.is_24h_open,
+    ST_Distance(s.geog, origin.g) / 1000.0 AS distance_km
+  FROM shelter_facilities s
+  CROSS JOIN origin
+  LEFT JOIN shelter_occupancy o ON o.facility_serial = s.facility_serial
+  WHERE s.geog IS NOT NULL
+    AND s.is_open
+    AND (
+      max_km IS NULL
+      OR ST_DWithin(s.geog, origin.g, max_km * 1000.0)
+    )
+    AND (min_capacity IS NULL OR s.capacity >= min_capacity)
+    AND (min_area_sqm IS NULL OR s.area_sqm >= min_area_sqm)
+    AND (NOT COALESCE(require_24h, false) OR s.is_24h_open)
+    AND s.facilities @> COALESCE(required_facilities, '{}'::jsonb)
+    AND (
+      COALESCE(include_full, false)
+      OR s.capacity IS NULL
+      OR COALESCE(o.occupants, 0) < s.capacity
+    )
+  ORDER BY s.geog <-> origin.g
+  LIMIT GREATEST(COALESCE(max_results, 10), 1);
+$$;
+
+UPDATE dataset_versions
+  SET version = version + 1,
+      updated_at = now()
+  WHERE name = 'shelter_facilities';
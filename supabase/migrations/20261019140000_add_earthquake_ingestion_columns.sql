@@ -0,0 +1,45 @@
+/*
+  # Earthquake bulletin ingestion
+
+  1. Changes to `earthquakes`
+    - `latitude` / `longitude` (double precision) - Epicenter (NULL for the
+      hand-entered 2023 sample rows)
+    - `source` (text) - Where the row came from: 'seed', 'kma_api'
+      (KMA EqkInfoService) or 'kma_notice' (KMA text notice)
+    - `bulletin_id` (text) - Id of the bulletin the current values came from
+      (issue time + sequence number)
+    - `bulletin_kind` (text) - 'early_warning', 'flash', 'detailed', 'info'
+      or 'reissue'
+    - `issued_at` (timestamptz) - Issue time of that bulletin
+    - `revision` (integer) - 1 for the first bulletin of an event, +1 every
+      time a later bulletin replaces the values
+    - `updated_at` (timestamptz)
+
+  2. Indexes
+    - `occurred_at` for the "recent earthquakes" list and revision matching
+    - Unique (`source`, `bulletin_id`) so the same bulletin is never stored
+      as two events
+
+  3. Security
+    - Unchanged: public SELECT only. The ingestion endpoint writes with the
+      service role key.
+*/
+
+ALTER TABLE earthquakes
+  ADD COLUMN IF NOT EXISTS latitude double precision,
+  ADD COLUMN IF NOT EXISTS longitude double precision,
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'seed'
+    CHECK (source IN ('seed', 'kma_api', 'kma_notice')),
+  ADD COLUMN IF NOT EXISTS bulletin_id text,
+  ADD COLUMN IF NOT EXISTS bulletin_kind text
+    CHECK (bulletin_kind IN ('early_warning', 'flash', 'detailed', 'info', 'reissue')),
+  ADD COLUMN IF NOT EXISTS issued_at timestamptz,
+  ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1 CHECK (revision >= 1),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS earthquakes_occurred_at_idx
+  ON earthquakes (occurred_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS earthquakes_source_bulletin_idx
+  ON earthquakes (source, bulletin_id)
+  WHERE bulletin_id IS NOT NULL;
@@ -0,0 +1,109 @@
+/*
+  # Explainable Paju risk score
+
+  `earthquakerisk_paju.risk_score` was a bare number with nothing in the
+  database producing it. This migration computes it from `fault_lines` and
+  `earthquakes` and stores the inputs next to the score so the /risk page can
+  show how it was derived.
+
+  1. Changes to `earthquakerisk_paju`
+    - `factors` (jsonb) - Inputs of the score:
+      - `fault_score` (0 ~ 1) - max over fault lines of
+        weight(risk_level) × exp(-distance_km / 20)
+        (weight: high 1.0, medium 0.6, low 0.3; distance from 파주시청 to the
+        nearest point of the line)
+      - `seismic_score` (0 ~ 1) - min(1, Σ 10^(M - 3) × exp(-distance_km / 50))
+        over earthquakes in the last 365 days within 200 km of Paju
+      - `weights` - { fault: 0.6, seismic: 0.4 }
+      - `nearest_fault` - { name, risk_level, distance_km }
+      - `quake_count`, `max_magnitude`, `window_days`
+
+  2. New Functions
+    - `refresh_earthquake_risk_paju()` - Computes
+      risk_score = 0.6 × fault_score + 0.4 × seismic_score,
+      inserts a new row and returns it. Only the service role may call it
+      (the earthquake ingestion job calls it after new bulletins).
+*/
+
+ALTER TABLE earthquakerisk_paju
+  ADD COLUMN IF NOT EXISTS factors jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION refresh_earthquake_risk_paju()
+RETURNS earthquakerisk_paju
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  -- 파주시청
+  origin geography := ST_SetSRID(ST_MakePoint(126.78, 37.7599), 4326)::geography;
+  w_fault constant double precision := 0.6;
+  w_seismic constant double precision := 0.4;
+  window_days constant integer := 365;
+  fault_score double precision;
+  seismic_score double precision;
+  nearest_name text;
+  nearest_level text;
+  nearest_km double precision;
+  quake_count integer;
+  max_magnitude numeric;
+  result earthquakerisk_paju;
+BEGIN
+  WITH lines AS (
+    SELECT
+      f.name,
+      f.risk_level,
+      ST_Distance(
+        ST_MakeLine(ARRAY(
+          SELECT ST_SetSRID(ST_MakePoint((p->>'lng')::double precision, (p->>'lat')::double precision), 4326)
+          FROM jsonb_array_elements(f.coordinates) WITH ORDINALITY AS e(p, i)
+          ORDER BY i
+        ))::geography,
+        origin
+      ) / 1000.0 AS distance_km,
+      CASE f.risk_level WHEN 'high' THEN 1.0 WHEN 'medium' THEN 0.6 ELSE 0.3 END AS weight
+    FROM fault_lines f
+    WHERE jsonb_array_length(f.coordinates) >= 2
+  )
+  SELECT name, risk_level, distance_km, weight * exp(-distance_km / 20.0) AS score
+  INTO nearest_name, nearest_level, nearest_km, fault_score
+  FROM lines
+  ORDER BY score DESC
+  LIMIT 1;
+
+  fault_score := COALESCE(fault_score, 0);
+
+  SELECT
+    count(*),
+    max(magnitude),
+    LEAST(1.0, COALESCE(sum(power(10, magnitude - 3) * exp(-distance_from_paju / 50.0)), 0))
+  INTO quake_count, max_magnitude, seismic_score
+  FROM earthquakes
+  WHERE occurred_at >= now() - make_interval(days => window_days)
+    AND distance_from_paju <= 200;
+
+  INSERT INTO earthquakerisk_paju (risk_score, factors)
+  VALUES (
+    round((w_fault * fault_score + w_seismic * seismic_score)::numeric, 3),
+    jsonb_build_object(
+      'fault_score', round(fault_score::numeric, 3),
+      'seismic_score', round(seismic_score::numeric, 3),
+      'weights', jsonb_build_object('fault', w_fault, 'seismic', w_seismic),
+      'nearest_fault', CASE WHEN nearest_name IS NULL THEN NULL ELSE jsonb_build_object(
+        'name', nearest_name,
+        'risk_level', nearest_level,
+        'distance_km', round(nearest_km::numeric, 1)
+      ) END,
+      'quake_count', quake_count,
+      'max_magnitude', max_magnitude,
+      'window_days', window_days
+    )
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_earthquake_risk_paju() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_earthquake_risk_paju() TO service_role;
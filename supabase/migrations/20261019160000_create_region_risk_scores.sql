@@ -0,0 +1,38 @@
+/*
+  # Per-neighbourhood (읍/면/동) seismic risk scores
+
+  1. New Tables
+    - `region_risk_scores` - One row per 읍/면/동 of Paju
+      - `emd_name` (text, primary key) - e.g. '문산읍', '운정1동'
+      - `emd_kind` (text) - '읍' | '면' | '동'
+      - `risk_score` (double precision) - Weighted score, 0 (low) ~ 1 (high)
+      - `factors` (jsonb) - Component factors used for the score:
+        `{ fault | seismic | building | soil: { score, weight, detail } }`
+        (`score` is null when the input data for that factor was missing and
+        its weight was redistributed to the others)
+      - `computed_at` (timestamptz)
+
+  2. Notes
+    - Rows are written by `npm run compute:region-risk`
+      (scripts/compute-region-risk.ts), which combines fault_lines, earthquakes
+      and the building-age / soil-class files. The formula lives in
+      src/lib/regionRiskModel.ts.
+
+  3. Security
+    - Public read; no client writes (the script connects as the database owner)
+*/
+
+CREATE TABLE IF NOT EXISTS region_risk_scores (
+  emd_name text PRIMARY KEY,
+  emd_kind text NOT NULL CHECK (emd_kind IN ('읍', '면', '동')),
+  risk_score double precision NOT NULL CHECK (risk_score >= 0 AND risk_score <= 1),
+  factors jsonb NOT NULL,
+  computed_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE region_risk_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view region risk scores"
+  ON region_risk_scores FOR SELECT
+  TO anon, authenticated
+  USING (true);
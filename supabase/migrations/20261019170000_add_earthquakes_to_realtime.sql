@@ -0,0 +1,23 @@
+/*
+  # Broadcast new earthquakes over Realtime
+
+  1. Realtime
+    - `earthquakes` is added to the `supabase_realtime` publication so open
+      clients hear about a newly ingested bulletin (INSERT) or a revised one
+      (UPDATE) immediately and can start the early-warning countdown.
+
+  2. Security
+    - No change: Realtime respects the existing public-read RLS policy.
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'earthquakes'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE earthquakes;
+  END IF;
+END;
+$$;
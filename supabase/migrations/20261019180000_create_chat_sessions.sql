@@ -0,0 +1,118 @@
+/*
+  # Private, resumable AI guide chat sessions
+
+  1. New Tables
+    - `chat_sessions` - One row per AI guide conversation
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users) - Owner; anonymous sign-ins
+        are users too, so visitors without an account get their own sessions
+      - `title` (text) - First question, shown in the history sidebar
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz) - Time of the latest turn, for sorting
+
+  2. Changes to `chatbot_conversations`
+    - `user_id` (uuid, references auth.users, defaults to `auth.uid()`)
+    - `sources` (jsonb) - Official guidance cited by the answer
+    - `tool_results` (jsonb) - Shelter / earthquake lookups shown as cards
+    - `session_id` now references `chat_sessions` (NOT VALID: rows written
+      before this migration have no session row and are left as they are)
+
+  3. New Triggers
+    - `chatbot_conversations_touch_session` - Bumps the session's
+      `updated_at` whenever a turn is saved
+
+  4. Security
+    - Drops "Anyone can view conversations" and "Anyone can insert
+      conversations": every visitor could read every other visitor's chat
+    - `chat_sessions` and `chatbot_conversations` are readable and writable
+      only by their owner (`authenticated` covers both anonymous and
+      permanent users). A turn can only be saved into a session the caller
+      owns.
+    - Older rows have no owner and are no longer visible to clients.
+
+  5. Setup
+    - Anonymous sign-ins must be enabled (Authentication > Providers >
+      Anonymous) for visitors without an account to keep chat history.
+*/
+
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT '새 대화',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS chat_sessions_user_updated_idx
+  ON chat_sessions (user_id, updated_at DESC);
+
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own chat sessions"
+  ON chat_sessions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own chat sessions"
+  ON chat_sessions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat sessions"
+  ON chat_sessions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat sessions"
+  ON chat_sessions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER TABLE chatbot_conversations
+  ADD COLUMN IF NOT EXISTS user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS sources jsonb,
+  ADD COLUMN IF NOT EXISTS tool_results jsonb;
+
+ALTER TABLE chatbot_conversations
+  ADD CONSTRAINT chatbot_conversations_session_id_fkey
+  FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE NOT VALID;
+
+CREATE INDEX IF NOT EXISTS chatbot_conversations_session_created_idx
+  ON chatbot_conversations (session_id, created_at);
+
+DROP POLICY IF EXISTS "Anyone can view conversations" ON chatbot_conversations;
+DROP POLICY IF EXISTS "Anyone can insert conversations" ON chatbot_conversations;
+
+CREATE POLICY "Users can view own conversations"
+  ON chatbot_conversations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert into own sessions"
+  ON chatbot_conversations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM chat_sessions s
+      WHERE s.id = session_id AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION touch_chat_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE chat_sessions SET updated_at = now() WHERE id = NEW.session_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chatbot_conversations_touch_session ON chatbot_conversations;
+CREATE TRIGGER chatbot_conversations_touch_session
+  AFTER INSERT ON chatbot_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_chat_session();
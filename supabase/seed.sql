@@ -0,0 +1,35 @@
+-- supabase/seed.sql
+-- 로컬 개발용 샘플 데이터 (supabase db reset 시 모든 마이그레이션 이후 실행)
+-- 지진 샘플 5건은 첫 마이그레이션에 포함되어 있음
+
+INSERT INTO shelter_facilities
+  (facility_serial, name, road_addr, region_code, area_sqm, capacity, lon, lat, facilities, is_24h_open)
+VALUES
+  (1, '금촌초등학교 체육관', '경기도 파주시 금정로 14', 4148010100, 1200, 300, 126.7816, 37.7599,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "generator": true}', true),
+  (2, '파주운동장', '경기도 파주시 중앙로 242', 4148010100, 9800, 500, 126.7803, 37.7614,
+    '{"medical": false, "restroom": true, "supplies": false, "wifi": false}', true),
+  (3, '금촌문화센터', '경기도 파주시 금릉역로 84', 4148012200, 650, 200, 126.7850, 37.7580,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "pets_allowed": true}', false),
+  (4, '교하초등학교', '경기도 파주시 교하로 1019', 4148010600, 1400, 350, 126.7456, 37.7012,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "generator": true}', true),
+  (5, '문산체육관', '경기도 파주시 문산읍 당동2로 35', 4148025023, 2100, 400, 126.7881, 37.8603,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "emergency_power": true}', true),
+  (6, '탄현종합사회복지관', '경기도 파주시 탄현면 새오리로 211', 4148032000, 800, 250, 126.7123, 37.7890,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "pets_allowed": true}', false),
+  (7, '운정중학교', '경기도 파주시 와석순환로 155', 4148012100, 1500, 400, 126.7567, 37.7234,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "generator": true}', true),
+  (8, '파주시청 대강당', '경기도 파주시 시청로 50', 4148010200, 900, 300, 126.7801, 37.7609,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "emergency_power": true}', true),
+  (9, '법원읍체육관', '경기도 파주시 법원읍 사임당로 761', 4148025600, 1100, 280, 126.8234, 37.8456,
+    '{"medical": false, "restroom": true, "supplies": true, "wifi": true}', false),
+  (10, '적성면주민센터', '경기도 파주시 적성면 청송로 1033', 4148035000, 450, 150, 126.8901, 37.9123,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": false}', false),
+  (11, '광탄면체육관', '경기도 파주시 광탄면 혜음로 1010', 4148033000, 1300, 320, 126.8510, 37.7757,
+    '{"medical": false, "restroom": true, "supplies": true, "wifi": true}', true),
+  (12, '조리읍문화센터', '경기도 파주시 조리읍 봉천로 68', 4148026200, 700, 200, 126.8123, 37.7456,
+    '{"medical": true, "restroom": true, "supplies": true, "wifi": true, "pets_allowed": false}', false)
+ON CONFLICT (facility_serial) DO NOTHING;
+
+-- 위험도는 단층/지진 자료로 계산 (factors 포함)
+SELECT refresh_earthquake_risk_paju();
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    // public/sw.js 가 설치 시 이 목록의 /assets/* 를 미리 캐시
+    manifest: 'asset-manifest.json',
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },